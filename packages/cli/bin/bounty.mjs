@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+// The CLI and the SDK it uses are TypeScript sources; tsx compiles them on the fly.
+// They are loaded as CommonJS (no "type": "module"), so the require hook is needed alongside the ESM one.
+import { register as registerCjs } from "tsx/cjs/api";
+import { register as registerEsm } from "tsx/esm/api";
+
+registerCjs();
+registerEsm();
+await import("../src/index.ts");
@@ -0,0 +1,39 @@
+import type { BountyConfig } from "./config";
+import { CliError } from "./errors";
+import type { BountyBoardClient } from "@se-2/sdk";
+import type { ParseArgsConfig } from "util";
+import type { Account, PublicClient } from "viem";
+
+export type CommandContext = {
+  config: BountyConfig;
+  publicClient: PublicClient;
+  /** Client for event subscriptions: WebSocket when `wsUrl` is configured, otherwise `publicClient` */
+  watchClient: PublicClient;
+  board: BountyBoardClient;
+  /** Set for commands with `needsSigner` */
+  account?: Account;
+};
+
+export type CommandValues = Record<string, string | boolean | string[] | undefined>;
+
+export type Command = {
+  name: string;
+  /** Positional arguments, shown in help, e.g. "<jobId>" */
+  args?: string;
+  summary: string;
+  options?: NonNullable<ParseArgsConfig["options"]>;
+  /** Extra help lines describing the options */
+  optionsHelp?: string[];
+  needsSigner?: boolean;
+  run: (ctx: CommandContext, positionals: string[], values: CommandValues) => Promise<void>;
+};
+
+export function parseJobId(value: string | undefined, usage: string): bigint {
+  if (value === undefined || !/^\d+$/.test(value)) throw new CliError(`Usage: bounty ${usage}`);
+  return BigInt(value);
+}
+
+export function requireSigner(ctx: CommandContext): Account {
+  if (!ctx.account) throw new CliError("This command needs a signer");
+  return ctx.account;
+}
@@ -0,0 +1,60 @@
+import { type Command, parseJobId } from "../command";
+import { CliError } from "../errors";
+import { formatClawd, print } from "../output";
+import { bountyBoardAbi } from "@se-2/sdk";
+import { parseEventLogs } from "viem";
+
+export const claim: Command = {
+  name: "claim",
+  args: "<jobId>",
+  summary: "Claim an open job at the current auction price",
+  options: {
+    "agent-id": { type: "string" },
+  },
+  optionsHelp: ["--agent-id <id>            Your ERC-8004 agent id (required)"],
+  needsSigner: true,
+  async run(ctx, positionals, values) {
+    const jobId = parseJobId(positionals[0], "claim <jobId> --agent-id <id>");
+    const agentId = values["agent-id"];
+    if (typeof agentId !== "string" || !/^\d+$/.test(agentId)) throw new CliError("--agent-id is required");
+
+    const { hash, receipt } = await ctx.board.claimJob(jobId, BigInt(agentId));
+    const [claimed] = parseEventLogs({ abi: bountyBoardAbi, eventName: "JobClaimed", logs: receipt.logs });
+    print(ctx.config.json, { jobId, agentId: BigInt(agentId), hash, paidAmount: claimed?.args.paidAmount }, result => {
+      console.log(`✅ Claimed job #${result.jobId}. TX: ${result.hash}`);
+      if (result.paidAmount !== undefined) console.log(`   Price: ${formatClawd(result.paidAmount)}`);
+    });
+  },
+};
+
+export const submit: Command = {
+  name: "submit",
+  args: "<jobId> <uri>",
+  summary: "Submit your work for a claimed job",
+  needsSigner: true,
+  async run(ctx, positionals) {
+    const usage = "submit <jobId> <uri>";
+    const jobId = parseJobId(positionals[0], usage);
+    const submissionURI = positionals[1];
+    if (!submissionURI) throw new CliError(`Usage: bounty ${usage}`);
+
+    const { hash } = await ctx.board.submitWork(jobId, submissionURI);
+    print(ctx.config.json, { jobId, submissionURI, hash }, result => {
+      console.log(`✅ Submitted work for job #${result.jobId}. TX: ${result.hash}`);
+    });
+  },
+};
+
+export const reclaim: Command = {
+  name: "reclaim",
+  args: "<jobId>",
+  summary: "Get paid for submitted work the poster never reviewed",
+  needsSigner: true,
+  async run(ctx, positionals) {
+    const jobId = parseJobId(positionals[0], "reclaim <jobId>");
+    const { hash } = await ctx.board.reclaimWork(jobId);
+    print(ctx.config.json, { jobId, hash }, result => {
+      console.log(`💰 Reclaimed payment for job #${result.jobId}. TX: ${result.hash}`);
+    });
+  },
+};
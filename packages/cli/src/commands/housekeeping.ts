@@ -0,0 +1,16 @@
+import { type Command, parseJobId } from "../command";
+import { print } from "../output";
+
+export const expire: Command = {
+  name: "expire",
+  args: "<jobId>",
+  summary: "Expire a claimed job whose work deadline has passed, refunding the poster",
+  needsSigner: true,
+  async run(ctx, positionals) {
+    const jobId = parseJobId(positionals[0], "expire <jobId>");
+    const { hash } = await ctx.board.expireJob(jobId);
+    print(ctx.config.json, { jobId, hash }, result => {
+      console.log(`⌛ Expired job #${result.jobId}. TX: ${result.hash}`);
+    });
+  },
+};
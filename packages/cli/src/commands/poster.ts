@@ -0,0 +1,185 @@
+import { type Command, type CommandContext, parseJobId, requireSigner } from "../command";
+import { CliError } from "../errors";
+import { formatClawd, print } from "../output";
+import {
+  JobStatus,
+  MAX_RATING,
+  TransactionError,
+  bountyBoardAbi,
+  encodeJobSpec,
+  isValidRating,
+  validateJobSpec,
+} from "@se-2/sdk";
+import { readFileSync } from "fs";
+import { parseEther } from "viem";
+
+const DEFAULT_RATING = 90;
+
+export const post: Command = {
+  name: "post",
+  summary: "Post a job, approving the CLAWD escrow first if needed",
+  options: {
+    description: { type: "string" },
+    spec: { type: "string" },
+    min: { type: "string" },
+    max: { type: "string" },
+    "auction-duration": { type: "string", default: "3600" },
+    "work-deadline": { type: "string", default: "86400" },
+  },
+  optionsHelp: [
+    "--description <text>       What needs to be done, as plain text",
+    "--spec <file>              Or a JSON job spec (specVersion 1), validated and posted inline",
+    "--min <clawd>              Starting price in CLAWD (required)",
+    "--max <clawd>              Maximum price in CLAWD, escrowed on post (required)",
+    "--auction-duration <s>     Seconds for the price to ramp from min to max (default 3600)",
+    "--work-deadline <s>        Seconds the agent has to submit after claiming (default 86400)",
+  ],
+  needsSigner: true,
+  async run(ctx, _positionals, values) {
+    const account = requireSigner(ctx);
+    const description = readDescription(values.description, values.spec);
+    if (typeof values.min !== "string" || typeof values.max !== "string")
+      throw new CliError("--min and --max are required");
+    const minPrice = parseEther(values.min);
+    const maxPrice = parseEther(values.max);
+    const auctionDuration = BigInt(values["auction-duration"] as string);
+    const workDeadline = BigInt(values["work-deadline"] as string);
+
+    const balance = await ctx.board.getClawdBalance(account.address);
+    if (balance < maxPrice) {
+      throw new CliError(`Insufficient CLAWD. Need ${formatClawd(maxPrice)}, have ${formatClawd(balance)}`);
+    }
+
+    let approveHash: string | undefined;
+    if ((await ctx.board.getClawdAllowance(account.address)) < maxPrice) {
+      if (!ctx.config.json) console.log(`📝 Approving ${formatClawd(maxPrice)}...`);
+      approveHash = (await ctx.board.approveClawd(maxPrice)).hash;
+    }
+
+    const { jobId, hash } = await ctx.board.postJob({ description, minPrice, maxPrice, auctionDuration, workDeadline });
+    print(ctx.config.json, { jobId, hash, approveHash, escrow: maxPrice }, result => {
+      console.log(`✅ Job #${result.jobId} posted!`);
+      console.log(`   TX:     ${result.hash}`);
+      console.log(`   Escrow: ${formatClawd(result.escrow)}`);
+    });
+  },
+};
+
+/** The job's description: the plain text given, or the spec file's JSON once it validates */
+function readDescription(text: unknown, specPath: unknown): string {
+  if ((typeof text === "string") === (typeof specPath === "string")) {
+    throw new CliError("Give either --description or --spec");
+  }
+  if (typeof text === "string") {
+    if (!text.trim()) throw new CliError("--description is empty");
+    return text;
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(readFileSync(specPath as string, "utf8"));
+  } catch (e) {
+    throw new CliError(`Can't read ${specPath as string}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const { spec, errors } = validateJobSpec(value);
+  if (!spec) throw new CliError(`Invalid job spec:\n  ${errors.join("\n  ")}`);
+  return encodeJobSpec(spec);
+}
+
+export const approve: Command = {
+  name: "approve",
+  args: "<jobId> | --watch",
+  summary: "Approve submitted work and pay the agent",
+  options: {
+    rating: { type: "string", default: String(DEFAULT_RATING) },
+    watch: { type: "boolean" },
+  },
+  optionsHelp: [
+    `--rating <0-100>           Quality rating (default ${DEFAULT_RATING})`,
+    "--watch                    Keep running and approve every submission to a job you posted, unchecked (see verify)",
+  ],
+  needsSigner: true,
+  async run(ctx, positionals, values) {
+    const rating = Number(values.rating);
+    if (!isValidRating(rating)) {
+      throw new CliError(`--rating must be an integer from 0 to ${MAX_RATING}`);
+    }
+    if (values.watch) return watchAndApprove(ctx, rating);
+
+    const jobId = parseJobId(positionals[0], "approve <jobId> [--rating <0-100>]");
+    const { hash } = await ctx.board.approveWork(jobId, rating);
+    print(ctx.config.json, { jobId, rating, hash }, result => {
+      console.log(`✅ Approved job #${result.jobId} with rating ${result.rating}/100. TX: ${result.hash}`);
+    });
+  },
+};
+
+export const dispute: Command = {
+  name: "dispute",
+  args: "<jobId>",
+  summary: "Dispute submitted work and refund the escrow",
+  needsSigner: true,
+  async run(ctx, positionals) {
+    const jobId = parseJobId(positionals[0], "dispute <jobId>");
+    const { hash } = await ctx.board.disputeWork(jobId);
+    print(ctx.config.json, { jobId, hash }, result => {
+      console.log(`⚠️  Disputed job #${result.jobId}; escrow refunded. TX: ${result.hash}`);
+    });
+  },
+};
+
+export const cancel: Command = {
+  name: "cancel",
+  args: "<jobId>",
+  summary: "Cancel an unclaimed job and refund the full escrow",
+  needsSigner: true,
+  async run(ctx, positionals) {
+    const jobId = parseJobId(positionals[0], "cancel <jobId>");
+    const { hash } = await ctx.board.cancelJob(jobId);
+    print(ctx.config.json, { jobId, hash }, result => {
+      console.log(`🗑️  Cancelled job #${result.jobId}. TX: ${result.hash}`);
+    });
+  },
+};
+
+/**
+ * Approves every Submitted job posted by the signer: first the existing ones, then each new `WorkSubmitted`.
+ * Approvals run one at a time so they never race each other for a nonce.
+ */
+async function watchAndApprove(ctx: CommandContext, rating: number) {
+  const account = requireSigner(ctx);
+  const handled = new Set<bigint>();
+  let queue = Promise.resolve();
+
+  const approveIfMine = (jobId: bigint) => {
+    queue = queue.then(async () => {
+      if (handled.has(jobId)) return;
+      try {
+        const job = await ctx.board.getJob(jobId);
+        if (job.poster.toLowerCase() !== account.address.toLowerCase()) return;
+        if (job.status !== JobStatus.Submitted) return;
+        handled.add(jobId);
+        const { hash } = await ctx.board.approveWork(jobId, rating);
+        print(ctx.config.json, { jobId, rating, hash, submissionURI: job.submissionURI }, result => {
+          console.log(`✅ Approved job #${result.jobId} with rating ${result.rating}/100. TX: ${result.hash}`);
+        });
+      } catch (e) {
+        // Retried on the job's next event, unless the contract refused it
+        if (!(e instanceof TransactionError) || e.retryable) handled.delete(jobId);
+        console.error(`❌ Failed to approve job #${jobId}: ${(e as Error).message}`);
+      }
+    });
+  };
+
+  if (!ctx.config.json) console.log(`👀 Watching for work submitted to jobs posted by ${account.address}...`);
+
+  const count = await ctx.board.getJobCount();
+  for (let jobId = 0n; jobId < count; jobId++) approveIfMine(jobId);
+
+  ctx.watchClient.watchContractEvent({
+    address: ctx.board.address,
+    abi: bountyBoardAbi,
+    eventName: "WorkSubmitted",
+    onLogs: logs => logs.forEach(log => approveIfMine(log.args.jobId!)),
+    onError: e => console.error(`❌ ${e.message}`),
+  });
+}
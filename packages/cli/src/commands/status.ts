@@ -0,0 +1,69 @@
+import type { Command } from "../command";
+import { workerStateDir } from "../config";
+import { CliError } from "../errors";
+import { formatDuration, nowSeconds, print } from "../output";
+import { IN_FLIGHT_STAGES, JobJournal } from "../worker/journal";
+import { existsSync } from "fs";
+import { join } from "path";
+
+const DEFAULT_WARN_SECONDS = 600;
+
+export const status: Command = {
+  name: "status",
+  summary: "Show the worker's unfinished jobs and how close each is to its work deadline",
+  options: {
+    warn: { type: "string", default: String(DEFAULT_WARN_SECONDS) },
+  },
+  optionsHelp: [`--warn <seconds>           Flag jobs due within this long (default ${DEFAULT_WARN_SECONDS})`],
+  async run(ctx, _positionals, values) {
+    const warn = Number(values.warn);
+    if (!Number.isInteger(warn) || warn < 0) throw new CliError("--warn must be a whole number of seconds");
+
+    const stateDir = workerStateDir(ctx.config);
+    const journalPath = join(stateDir, "journal.ndjson");
+    if (!existsSync(journalPath)) throw new CliError(`No worker journal in ${stateDir}. Has \`bounty work\` run here?`);
+
+    // Read-only, so a running worker's appends are never raced by compaction
+    const journal = new JobJournal(journalPath, { readOnly: true });
+    const now = nowSeconds();
+    // Jobs still ours to submit: in flight, or given up on by the worker while the deadline is still ahead
+    const jobs = journal.entries
+      .filter(
+        entry =>
+          IN_FLIGHT_STAGES.includes(entry.stage) ||
+          (entry.stage === "failed" && entry.deadline !== undefined && entry.deadline > now),
+      )
+      .map(entry => {
+        const secondsLeft = entry.deadline === undefined ? undefined : entry.deadline - now;
+        return { ...entry, secondsLeft, dueSoon: secondsLeft !== undefined && secondsLeft <= BigInt(warn) };
+      })
+      // Soonest deadline first; jobs journaled without one last
+      .sort((a, b) => {
+        if (a.deadline === undefined || b.deadline === undefined) {
+          return Number(a.deadline === undefined) - Number(b.deadline === undefined);
+        }
+        return a.deadline < b.deadline ? -1 : a.deadline > b.deadline ? 1 : 0;
+      });
+
+    print(ctx.config.json, jobs, rows => {
+      if (rows.length === 0) {
+        console.log(`No unfinished jobs in ${journalPath}.`);
+        return;
+      }
+      const dueSoon = rows.filter(row => row.dueSoon).length;
+      console.log(`${rows.length} unfinished job(s), ${dueSoon} due within ${formatDuration(warn)}:\n`);
+      for (const row of rows) {
+        const left =
+          row.secondsLeft === undefined
+            ? "deadline unknown"
+            : row.secondsLeft > 0n
+              ? `${formatDuration(row.secondsLeft)} left`
+              : "deadline passed";
+        const flag = row.stage === "failed" ? "🚨" : row.dueSoon ? "⚠️ " : "  ";
+        console.log(`${flag} Job #${row.jobId}  ${row.stage.padEnd(16)} ${(row.skill ?? "-").padEnd(12)} ${left}`);
+        if (row.partial) console.log(`     partial result`);
+        if (row.error) console.log(`     ${row.error}`);
+      }
+    });
+  },
+};
@@ -0,0 +1,239 @@
+import { type Command, type CommandContext, parseJobId, requireSigner } from "../command";
+import { workerStateDir } from "../config";
+import { CliError } from "../errors";
+import { nowSeconds, print } from "../output";
+import { AuditLog } from "../verifier/audit";
+import { BUILTIN_VERIFIERS } from "../verifier/builtin";
+import { type NamedCheck, type Verdict, VerifierPipeline } from "../verifier/pipeline";
+import { SubmissionFetchError, fetchSubmission } from "../verifier/submission";
+import {
+  type Job,
+  JobStatus,
+  MAX_RATING,
+  TransactionError,
+  bountyBoardAbi,
+  getReviewDeadline,
+  isValidRating,
+  loadJobSpec,
+} from "@se-2/sdk";
+import { join } from "path";
+import type { Hash } from "viem";
+
+const DEFAULT_MAX_SIZE = 10 * 1024 * 1024;
+/** How long to wait before trying a job again after a gateway, network or transaction failure */
+const RETRY_DELAY_MS = 60_000;
+
+type Settings = {
+  pipeline: VerifierPipeline;
+  audit: AuditLog;
+  maxSize: number;
+  minRating: number;
+  dryRun: boolean;
+  /** Also decide jobs without a spec, from the generic checks alone */
+  plainText: boolean;
+};
+
+/** A verdict, or `fetchFailed` when the submission couldn't be fetched for now and should be tried again */
+type Outcome = Omit<Verdict, "decision"> & {
+  jobId: bigint;
+  decision: Verdict["decision"] | "fetchFailed";
+  dryRun: boolean;
+  tx?: Hash;
+};
+
+export const verify: Command = {
+  name: "verify",
+  args: "<jobId> | --watch",
+  summary: "Check submitted work against the job's spec, then approve or dispute it",
+  options: {
+    watch: { type: "boolean" },
+    "dry-run": { type: "boolean" },
+    verifiers: { type: "string", multiple: true },
+    "max-size": { type: "string", default: String(DEFAULT_MAX_SIZE) },
+    "min-rating": { type: "string", default: "0" },
+    "audit-log": { type: "string" },
+    "include-plain-text": { type: "boolean" },
+  },
+  optionsHelp: [
+    "--watch                    Keep running and verify every submission to a job you posted",
+    "--dry-run                  Print and log what it would do, without approving or disputing",
+    "--verifiers <path>         Verifier module or directory to load (repeatable; adds to `verifiers` in the config)",
+    `--max-size <bytes>         Dispute submissions larger than this (default ${DEFAULT_MAX_SIZE})`,
+    "--min-rating <0-100>       Dispute work whose computed rating is lower (default 0)",
+    "--audit-log <path>         Where each decision is appended (default verdicts.ndjson under --data-dir)",
+    "--include-plain-text       Decide jobs without a spec on the generic checks too (default: leave them for review)",
+  ],
+  needsSigner: true,
+  async run(ctx, positionals, values) {
+    const maxSize = Number(values["max-size"]);
+    if (!Number.isInteger(maxSize) || maxSize <= 0) throw new CliError("--max-size must be a positive integer");
+    const minRating = Number(values["min-rating"]);
+    if (!isValidRating(minRating)) throw new CliError(`--min-rating must be an integer from 0 to ${MAX_RATING}`);
+
+    // Loaded verifiers take precedence over built-ins of the same name
+    const pipeline = new VerifierPipeline();
+    for (const path of [...ctx.config.verifiers, ...((values.verifiers as string[] | undefined) ?? [])]) {
+      await pipeline.load(path);
+    }
+    BUILTIN_VERIFIERS.filter(verifier => !pipeline.has(verifier.name)).forEach(verifier => pipeline.register(verifier));
+
+    const auditPath =
+      (values["audit-log"] as string | undefined) ?? join(workerStateDir(ctx.config), "verdicts.ndjson");
+    const settings: Settings = {
+      pipeline,
+      audit: new AuditLog(auditPath),
+      maxSize,
+      minRating,
+      dryRun: values["dry-run"] === true,
+      plainText: values["include-plain-text"] === true,
+    };
+    if (values.watch) return watchAndVerify(ctx, settings);
+
+    const jobId = parseJobId(positionals[0], "verify <jobId> [--dry-run]");
+    const job = await ctx.board.getJob(jobId);
+    if (job.poster.toLowerCase() !== requireSigner(ctx).address.toLowerCase()) {
+      throw new CliError(`Job #${jobId} isn't yours to approve`);
+    }
+    if (job.status !== JobStatus.Submitted) throw new CliError(`Job #${jobId} has no submission waiting for review`);
+    report(ctx, await verifyJob(ctx, job, settings));
+  },
+};
+
+/**
+ * Fetches a job's submission, runs the pipeline on it and carries out the verdict, recording it in the audit log.
+ * Jobs whose spec can't be read, or without a spec unless `--include-plain-text` is set, are left for review before
+ * the submission is fetched. A submission that can't be fetched at all (malformed, missing, too large) is disputed;
+ * one that can't be fetched right now is left alone and reported as `fetchFailed`.
+ */
+async function verifyJob(ctx: CommandContext, job: Job, settings: Settings): Promise<Outcome> {
+  const { pipeline, audit, maxSize, minRating, dryRun, plainText } = settings;
+  const entry = { jobId: job.id, agent: job.agent, submissionURI: job.submissionURI, dryRun };
+
+  // The spec decides whether the job is ours to judge at all, before the submission can lead to a dispute
+  let verdict: Verdict;
+  const description = await loadJobSpec(job.description, ctx.config.ipfsGateway, { allowHttp: ctx.config.httpSpecs });
+  if (description.kind === "invalid") {
+    verdict = {
+      decision: "review",
+      rating: 0,
+      checks: [],
+      reason: `the job's spec can't be read: ${description.errors.join("; ")}`,
+    };
+  } else if (description.kind === "text" && !plainText) {
+    // Without a spec, the generic checks pass on any non-empty content: deciding on them alone pays unseen work
+    verdict = { decision: "review", rating: 0, checks: [], reason: "the job has no spec to check the work against" };
+  } else {
+    try {
+      const submission = await fetchSubmission(job.submissionURI, ctx.config.ipfsGateway, maxSize);
+      const spec = description.kind === "spec" ? description.spec : undefined;
+      verdict = await pipeline.run({ job, spec, submission, maxSize }, minRating);
+    } catch (e) {
+      if (!(e instanceof SubmissionFetchError)) throw e;
+      if (e.retryable) {
+        audit.record({ ...entry, decision: "fetchFailed", reason: e.message, checks: [] });
+        return { jobId: job.id, decision: "fetchFailed", rating: 0, reason: e.message, checks: [], dryRun };
+      }
+      const check: NamedCheck = { verifier: "fetch", passed: false, message: e.message };
+      verdict = { decision: "dispute", rating: 0, checks: [check], reason: `can't be fetched: ${e.message}` };
+    }
+  }
+
+  let tx: Hash | undefined;
+  if (!dryRun && verdict.decision !== "review") {
+    try {
+      tx = (
+        verdict.decision === "approve"
+          ? await ctx.board.approveWork(job.id, verdict.rating)
+          : await ctx.board.disputeWork(job.id)
+      ).hash;
+    } catch (e) {
+      audit.record({ ...entry, ...verdict, error: (e as Error).message });
+      throw e;
+    }
+  }
+  audit.record({ ...entry, ...verdict, tx });
+  return { jobId: job.id, ...verdict, dryRun, tx };
+}
+
+function report(ctx: CommandContext, outcome: Outcome) {
+  print(ctx.config.json, outcome, result => {
+    console.log(`🔍 Job #${result.jobId}`);
+    for (const check of result.checks) {
+      const mark = check.skipped ? "–" : check.passed ? "✓" : "✗";
+      console.log(`   ${mark} ${check.verifier.padEnd(10)} ${check.message}`);
+    }
+    const tx = result.tx ? `. TX: ${result.tx}` : "";
+    switch (result.decision) {
+      case "approve":
+        console.log(
+          result.dryRun
+            ? `📝 Would approve job #${result.jobId} with rating ${result.rating}/100 (dry run)`
+            : `✅ Approved job #${result.jobId} with rating ${result.rating}/100${tx}`,
+        );
+        break;
+      case "dispute":
+        console.log(
+          result.dryRun
+            ? `📝 Would dispute job #${result.jobId}: ${result.reason} (dry run)`
+            : `⚠️  Disputed job #${result.jobId}: ${result.reason}${tx}`,
+        );
+        break;
+      case "review":
+        console.log(`👀 Job #${result.jobId} needs a manual review: ${result.reason}`);
+        break;
+      default:
+        console.log(`⏳ Job #${result.jobId} left undecided for now: ${result.reason}`);
+    }
+  });
+}
+
+/**
+ * Verifies every Submitted job posted by the signer: first the existing ones, then each new `WorkSubmitted`. Jobs run
+ * one at a time so transactions never race each other for a nonce. Submissions that can't be fetched right now are
+ * tried again every minute until their review period ends, and so are approvals and disputes that failed to send.
+ */
+async function watchAndVerify(ctx: CommandContext, settings: Settings) {
+  const account = requireSigner(ctx);
+  const handled = new Set<bigint>();
+  let queue = Promise.resolve();
+
+  const retryLater = (jobId: bigint) => {
+    handled.delete(jobId);
+    setTimeout(() => verifyIfMine(jobId), RETRY_DELAY_MS);
+  };
+
+  const verifyIfMine = (jobId: bigint) => {
+    queue = queue.then(async () => {
+      if (handled.has(jobId)) return;
+      try {
+        const job = await ctx.board.getJob(jobId);
+        if (job.poster.toLowerCase() !== account.address.toLowerCase()) return;
+        if (job.status !== JobStatus.Submitted) return;
+        handled.add(jobId);
+        const outcome = await verifyJob(ctx, job, settings);
+        report(ctx, outcome);
+        if (outcome.decision === "fetchFailed" && nowSeconds() < getReviewDeadline(job)) retryLater(jobId);
+      } catch (e) {
+        // A Submitted job gets no further event to retry on, so it is queued again unless the contract refused it
+        if (!(e instanceof TransactionError) || e.retryable) retryLater(jobId);
+        console.error(`❌ Failed to verify job #${jobId}: ${(e as Error).message}`);
+      }
+    });
+  };
+
+  if (!ctx.config.json) {
+    const mode = settings.dryRun ? " (dry run)" : "";
+    console.log(`👀 Verifying work submitted to jobs posted by ${account.address}${mode}...`);
+  }
+
+  const count = await ctx.board.getJobCount();
+  for (let jobId = 0n; jobId < count; jobId++) verifyIfMine(jobId);
+
+  ctx.watchClient.watchContractEvent({
+    address: ctx.board.address,
+    abi: bountyBoardAbi,
+    eventName: "WorkSubmitted",
+    onLogs: logs => logs.forEach(log => verifyIfMine(log.args.jobId!)),
+    onError: e => console.error(`❌ ${e.message}`),
+  });
+}
@@ -0,0 +1,162 @@
+import { type Command, type CommandValues, parseJobId } from "../command";
+import { CliError } from "../errors";
+import { formatClawd, formatDuration, nowSeconds, print, serializeJob } from "../output";
+import { type Job, JobStatus, parseJobDescription, resolveArtifactUri, summarizeJob } from "@se-2/sdk";
+import { isAddress } from "viem";
+
+const DEFAULT_LIST_LIMIT = 20;
+
+export const show: Command = {
+  name: "show",
+  args: "<jobId>",
+  summary: "Show a job, including its live auction price while open",
+  async run(ctx, positionals) {
+    const jobId = parseJobId(positionals[0], "show <jobId>");
+    if (jobId >= (await ctx.board.getJobCount())) throw new CliError(`Job #${jobId} does not exist`);
+    const job = await ctx.board.getJob(jobId);
+    const currentPrice = job.status === JobStatus.Open ? await ctx.board.getCurrentPrice(jobId) : undefined;
+
+    print(ctx.config.json, serializeJob(job, currentPrice), () => {
+      console.log(`Job #${job.id} — ${JobStatus[job.status]}`);
+      printDescription(job.description);
+      console.log(`  Poster:        ${job.poster}`);
+      console.log(`  Price range:   ${formatClawd(job.minPrice)} → ${formatClawd(job.maxPrice)}`);
+      if (currentPrice !== undefined) console.log(`  Current price: ${formatClawd(currentPrice)}`);
+      console.log(
+        `  Auction:       ${formatDuration(job.auctionDuration)}, work deadline ${formatDuration(job.workDeadline)}`,
+      );
+      if (job.status === JobStatus.Open) return;
+      console.log(`  Agent:         ${job.agent} (#${job.agentId})`);
+      console.log(`  Paid:          ${formatClawd(job.paidAmount)}`);
+      if (job.status === JobStatus.Claimed) {
+        const remaining = job.claimedAt + job.workDeadline - nowSeconds();
+        console.log(`  Deadline:      ${remaining > 0n ? `${formatDuration(remaining)} left` : "passed"}`);
+      }
+      if (job.submissionURI) {
+        console.log(`  Submission:    ${job.submissionURI}`);
+        const url = resolveArtifactUri(job.submissionURI, ctx.config.ipfsGateway);
+        if (url !== job.submissionURI) console.log(`                 ${url}`);
+      }
+      if (job.status === JobStatus.Completed) console.log(`  Rating:        ${job.rating}/100`);
+    });
+  },
+};
+
+export const list: Command = {
+  name: "list",
+  summary: "List jobs, newest first",
+  options: {
+    status: { type: "string" },
+    poster: { type: "string" },
+    agent: { type: "string" },
+    limit: { type: "string", default: String(DEFAULT_LIST_LIMIT) },
+  },
+  optionsHelp: [
+    "--status <name>            Only jobs in this status (open, claimed, submitted, ...)",
+    "--poster <address>         Only jobs posted by this address",
+    "--agent <address>          Only jobs claimed by this address",
+    `--limit <n>                Maximum number of jobs to print (default ${DEFAULT_LIST_LIMIT})`,
+  ],
+  async run(ctx, _positionals, values) {
+    const status = values.status === undefined ? undefined : parseStatus(String(values.status));
+    const poster = parseAddressFilter("--poster", values.poster);
+    const agent = parseAddressFilter("--agent", values.agent);
+    const limit = Number(values.limit);
+    if (!Number.isInteger(limit) || limit <= 0) throw new CliError("--limit must be a positive integer");
+
+    const count = await ctx.board.getJobCount();
+    const ids = Array.from({ length: Number(count) }, (_, i) => count - 1n - BigInt(i));
+    const jobs = (await Promise.all(ids.map(id => ctx.board.getJob(id))))
+      .filter(job => status === undefined || job.status === status)
+      .filter(job => !poster || job.poster.toLowerCase() === poster)
+      .filter(job => !agent || job.agent.toLowerCase() === agent)
+      .slice(0, limit);
+
+    print(
+      ctx.config.json,
+      jobs.map(job => serializeJob(job)),
+      () => {
+        if (jobs.length === 0) return console.log("No jobs found.");
+        jobs.forEach(job => console.log(formatJobLine(job)));
+      },
+    );
+  },
+};
+
+export const stats: Command = {
+  name: "stats",
+  summary: "Show platform-wide statistics",
+  async run(ctx) {
+    const [platform, jobCount] = await Promise.all([ctx.board.getPlatformStats(), ctx.board.getJobCount()]);
+    print(ctx.config.json, { ...platform, jobCount }, result => {
+      console.log(`📊 AgentBountyBoard ${ctx.board.address}`);
+      console.log(`  Jobs posted:    ${result.jobsPosted}`);
+      console.log(`  Jobs completed: ${result.jobsCompleted}`);
+      console.log(`  Disputes:       ${result.disputes}`);
+      console.log(`  Total paid:     ${formatClawd(result.totalPaid)}`);
+      console.log(`  Fee balance:    ${formatClawd(result.feeBalance)}`);
+    });
+  },
+};
+
+export const agent: Command = {
+  name: "agent",
+  args: "<address>",
+  summary: "Show an agent's track record",
+  async run(ctx, positionals) {
+    const address = positionals[0];
+    if (!address || !isAddress(address)) throw new CliError("Usage: bounty agent <address>");
+    const agentStats = await ctx.board.getAgentStats(address);
+    print(ctx.config.json, { address, ...agentStats }, result => {
+      console.log(`🤖 Agent ${result.address}`);
+      console.log(`  Completed:  ${result.completedJobs}`);
+      console.log(`  Disputed:   ${result.disputedJobs}`);
+      console.log(`  Earned:     ${formatClawd(result.totalEarned)}`);
+      console.log(`  Avg rating: ${result.avgRating}/100`);
+      console.log(`  Seniority:  ${result.seniorityDays} days`);
+    });
+  },
+};
+
+function parseStatus(value: string): JobStatus {
+  const name = Object.keys(JobStatus).find(key => key.toLowerCase() === value.toLowerCase());
+  if (!name || !Number.isNaN(Number(name))) {
+    throw new CliError(
+      `Unknown status "${value}". Use one of: open, claimed, submitted, completed, disputed, expired, cancelled`,
+    );
+  }
+  return JobStatus[name as keyof typeof JobStatus];
+}
+
+function parseAddressFilter(flag: string, value: CommandValues[string]): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !isAddress(value)) throw new CliError(`${flag} must be an address`);
+  return value.toLowerCase();
+}
+
+/** A spec's fields one per line, or the legacy description as it is */
+function printDescription(description: string) {
+  const parsed = parseJobDescription(description);
+  if (parsed.kind === "invalid") {
+    console.log(`  Invalid job spec: ${parsed.errors.join("; ")}`);
+    return;
+  }
+  if (parsed.kind !== "spec") {
+    console.log(`  ${description}`);
+    return;
+  }
+  const { title, category, tags, description: details, acceptanceCriteria, attachments, output } = parsed.spec;
+  console.log(`  ${title}${category ? ` [${category}]` : ""}`);
+  if (tags.length) console.log(`  Tags:          ${tags.join(", ")}`);
+  if (details) console.log(`  ${details.replace(/\n/g, "\n  ")}`);
+  for (const criterion of acceptanceCriteria) console.log(`  ✓ ${criterion}`);
+  for (const attachment of attachments) console.log(`  Attachment:    ${attachment.name ?? attachment.uri}`);
+  if (output?.mimeType) console.log(`  Output:        ${output.mimeType}${output.schema ? " (with JSON schema)" : ""}`);
+}
+
+function formatJobLine(job: Job): string {
+  const { title, tags } = summarizeJob(parseJobDescription(job.description));
+  const label = tags.length ? `${title} [${tags.join(", ")}]` : title;
+  const description = label.length > 60 ? `${label.slice(0, 57)}...` : label;
+  return `#${job.id}  ${JobStatus[job.status].padEnd(9)}  ${formatClawd(job.maxPrice).padStart(18)}  ${description}`;
+}
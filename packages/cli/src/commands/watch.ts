@@ -0,0 +1,41 @@
+import type { Command } from "../command";
+import { CliError } from "../errors";
+import { print } from "../output";
+import { bountyBoardAbi } from "@se-2/sdk";
+
+export const watch: Command = {
+  name: "watch",
+  args: "[jobId]",
+  summary: "Stream board events as they happen (one JSON object per line with --json)",
+  async run(ctx, positionals) {
+    const filter = positionals[0];
+    if (filter !== undefined && !/^\d+$/.test(filter)) throw new CliError("Usage: bounty watch [jobId]");
+    const jobId = filter === undefined ? undefined : BigInt(filter);
+
+    if (!ctx.config.json) {
+      console.log(`👀 Watching ${ctx.board.address}${jobId !== undefined ? ` for job #${jobId}` : ""}...`);
+    }
+
+    ctx.watchClient.watchContractEvent({
+      address: ctx.board.address,
+      abi: bountyBoardAbi,
+      onLogs: logs => {
+        for (const log of logs) {
+          const args = log.args as Record<string, unknown>;
+          if (jobId !== undefined && args.jobId !== jobId) continue;
+          const event = {
+            event: log.eventName,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+            args,
+          };
+          print(ctx.config.json, event, e => {
+            const fields = Object.entries(e.args).map(([key, value]) => `${key}=${value}`);
+            console.log(`[block ${e.blockNumber}] ${e.event} ${fields.join(" ")}`);
+          });
+        }
+      },
+      onError: e => console.error(`❌ ${e.message}`),
+    });
+  },
+};
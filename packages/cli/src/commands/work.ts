@@ -0,0 +1,180 @@
+import { type Command, type CommandValues, requireSigner } from "../command";
+import { workerStateDir } from "../config";
+import { CliError } from "../errors";
+import { type ArtifactStore, DataUriArtifactStore, HttpArtifactStore, LocalArtifactStore } from "../worker/artifacts";
+import {
+  type BiddingStrategy,
+  adaptiveStrategy,
+  costPlusMarginStrategy,
+  fixedThresholdStrategy,
+  timeAwareStrategy,
+} from "../worker/bidding";
+import { JobFeed } from "../worker/feed";
+import { JobJournal } from "../worker/journal";
+import { JobScheduler, type SchedulerLimits } from "../worker/scheduler";
+import { BUILTIN_SKILLS, SkillRegistry } from "../worker/skills";
+import { Worker } from "../worker/worker";
+import { join } from "path";
+import type { Address } from "viem";
+
+const STRATEGIES = ["fixed", "cost-plus", "time", "adaptive"];
+const DEFAULT_PRICE_FRACTION = 0.8;
+const DEFAULT_MARGIN = 0.2;
+const DEFAULT_TIME_FRACTION = 0.5;
+const DEFAULT_QUANTILE = 0.25;
+const DEFAULT_MAX_CONCURRENT = 3;
+const DEFAULT_DEADLINE_MARGIN = 60;
+const DEADLINE_ACTIONS = ["partial", "alert"] as const;
+/** Competitor claims the adaptive strategy needs before it stops using the fixed threshold */
+const ADAPTIVE_MIN_SAMPLES = 10;
+
+export const work: Command = {
+  name: "work",
+  summary: "Run a worker agent that claims, does and submits jobs",
+  options: {
+    "agent-id": { type: "string" },
+    skills: { type: "string", multiple: true },
+    strategy: { type: "string", default: "fixed" },
+    "price-fraction": { type: "string", default: String(DEFAULT_PRICE_FRACTION) },
+    margin: { type: "string", default: String(DEFAULT_MARGIN) },
+    "time-fraction": { type: "string", default: String(DEFAULT_TIME_FRACTION) },
+    quantile: { type: "string", default: String(DEFAULT_QUANTILE) },
+    "max-concurrent": { type: "string", default: String(DEFAULT_MAX_CONCURRENT) },
+    "skill-limit": { type: "string", multiple: true },
+    "deadline-margin": { type: "string", default: String(DEFAULT_DEADLINE_MARGIN) },
+    "on-deadline": { type: "string", default: "partial" },
+  },
+  optionsHelp: [
+    "--agent-id <id>            Your ERC-8004 agent id (required)",
+    `--strategy <name>          How to pick the claim price: ${STRATEGIES.join(", ")} (default fixed)`,
+    `--price-fraction <f>       fixed: claim once the price reaches this fraction of maxPrice (default ${DEFAULT_PRICE_FRACTION})`,
+    `--margin <f>               cost-plus: claim once the price covers the skill's cost plus this margin (default ${DEFAULT_MARGIN})`,
+    `--time-fraction <f>        time: claim once this fraction of the auction has elapsed (default ${DEFAULT_TIME_FRACTION})`,
+    `--quantile <f>             adaptive: claim at this quantile of competitors' past claims (default ${DEFAULT_QUANTILE})`,
+    "--skills <path>            Skill handler module or directory to load (repeatable; adds to `skills` in the config)",
+    `--max-concurrent <n>       Jobs to work on at once; no claims beyond that (default ${DEFAULT_MAX_CONCURRENT})`,
+    "--skill-limit <skill=n>    Jobs to work on at once for one skill (repeatable)",
+    `--deadline-margin <s>      Stop a skill this many seconds before the work deadline (default ${DEFAULT_DEADLINE_MARGIN})`,
+    "--on-deadline <action>     Then: partial (submit its last checkpoint, flagged partial) or alert (default partial)",
+  ],
+  needsSigner: true,
+  async run(ctx, _positionals, values) {
+    const account = requireSigner(ctx);
+    const agentId = values["agent-id"];
+    if (typeof agentId !== "string" || !/^\d+$/.test(agentId)) throw new CliError("--agent-id is required");
+
+    const { config } = ctx;
+
+    // Loaded skills take precedence over built-ins of the same name
+    const skills = new SkillRegistry();
+    for (const path of [...config.skills, ...((values.skills as string[] | undefined) ?? [])]) await skills.load(path);
+    BUILTIN_SKILLS.filter(skill => !skills.has(skill.name)).forEach(skill => skills.register(skill));
+
+    const stateDir = workerStateDir(config);
+
+    // The feed only calls back once started, by which point the worker below exists
+    const feed = new JobFeed({
+      publicClient: ctx.publicClient,
+      watchClient: ctx.watchClient,
+      board: config.board,
+      fromBlock: config.deployedOnBlock ?? 0n,
+      statePath: join(stateDir, "open-jobs.json"),
+      onOpen: job => worker.onJobOpened(job),
+      onClose: (jobId, reason) => worker.onJobClosed(jobId, reason),
+      onError: e => console.error(`❌ ${e.message}`),
+    });
+    const strategy = createStrategy(values, feed, account.address);
+    const limits = parseLimits(values);
+    const deadlineMargin = values["deadline-margin"];
+    if (typeof deadlineMargin !== "string" || !/^\d+$/.test(deadlineMargin)) {
+      throw new CliError("--deadline-margin must be a whole number of seconds");
+    }
+    const onDeadline = DEADLINE_ACTIONS.find(action => action === values["on-deadline"]);
+    if (!onDeadline) throw new CliError(`--on-deadline must be one of: ${DEADLINE_ACTIONS.join(", ")}`);
+
+    if (!config.json) {
+      console.log(`\n🤖 Agent Bounty Board — Worker Agent`);
+      console.log(`═══════════════════════════════════════`);
+      console.log(`Agent Wallet:  ${account.address}`);
+      console.log(`Agent ID:      ${agentId} (ERC-8004)`);
+      console.log(`Board:         ${config.board}`);
+      console.log(`Events:        ${config.wsUrl ?? `polling ${config.rpcUrl}`}`);
+      console.log(`Strategy:      ${strategy.name}`);
+      console.log(`Artifacts:     ${config.ipfsApi ? `uploaded to ${config.ipfsApi}` : "submitted as data: URIs"}`);
+      console.log(`Skills:        ${skills.all.map(skill => skill.name).join(", ")}`);
+      const skillLimits = Object.entries(limits.perSkill).map(([skill, limit]) => `${skill} ${limit}`);
+      console.log(
+        `Concurrency:   ${limits.maxConcurrent} job(s)${skillLimits.length ? ` (${skillLimits.join(", ")})` : ""}`,
+      );
+      console.log();
+    }
+
+    const scheduler = new JobScheduler(limits, e => console.error(`❌ ${e.message}`));
+    const localArtifacts = new LocalArtifactStore(join(stateDir, "artifacts"));
+    const artifacts: ArtifactStore = config.ipfsApi
+      ? new HttpArtifactStore(config.ipfsApi, localArtifacts, config.ipfsApiAuth)
+      : new DataUriArtifactStore(localArtifacts);
+    const journal = new JobJournal(join(stateDir, "journal.ndjson"));
+    const worker = new Worker(ctx.board, feed, skills, strategy, artifacts, journal, scheduler, {
+      agentId: BigInt(agentId),
+      address: account.address,
+      deadlineMargin: BigInt(deadlineMargin),
+      onDeadline,
+      ipfsGateway: config.ipfsGateway,
+      httpSpecs: config.httpSpecs,
+      json: config.json,
+    });
+
+    const inFlight = journal.inFlight().length;
+    if (inFlight && !config.json) console.log(`♻️  Reconciling ${inFlight} in-flight job(s) from the journal...`);
+    await worker.recover();
+
+    if (!config.json) console.log(`🔄 Catching up on board events...`);
+    await feed.start();
+    if (!config.json) console.log(`👀 ${feed.openJobs.length} open job(s). Watching for new ones...\n`);
+    worker.start();
+  },
+};
+
+function createStrategy(values: CommandValues, feed: JobFeed, self: Address): BiddingStrategy {
+  const fixed = fixedThresholdStrategy(parseFraction(values, "price-fraction"));
+  switch (values.strategy) {
+    case "fixed":
+      return fixed;
+    case "cost-plus":
+      return costPlusMarginStrategy(parseFraction(values, "margin", Infinity));
+    case "time":
+      return timeAwareStrategy(parseFraction(values, "time-fraction"));
+    case "adaptive":
+      return adaptiveStrategy({
+        history: () => feed.recentClaims,
+        self,
+        quantile: parseFraction(values, "quantile"),
+        minSamples: ADAPTIVE_MIN_SAMPLES,
+        fallback: fixed,
+      });
+    default:
+      throw new CliError(`Unknown strategy "${values.strategy}". Use one of: ${STRATEGIES.join(", ")}`);
+  }
+}
+
+function parseFraction(values: CommandValues, flag: string, max = 1): number {
+  const value = Number(values[flag]);
+  if (!(value >= 0 && value <= max)) {
+    throw new CliError(`--${flag} must be a number from 0${max === Infinity ? " up" : ` to ${max}`}`);
+  }
+  return value;
+}
+
+function parseLimits(values: CommandValues): SchedulerLimits {
+  const maxConcurrent = Number(values["max-concurrent"]);
+  if (!Number.isInteger(maxConcurrent) || maxConcurrent < 1) throw new CliError("--max-concurrent must be at least 1");
+
+  const perSkill: Record<string, number> = {};
+  for (const limit of (values["skill-limit"] as string[] | undefined) ?? []) {
+    const [, skill, count] = limit.match(/^([^=]+)=([1-9]\d*)$/) ?? [];
+    if (!skill) throw new CliError(`--skill-limit must look like <skill>=<n> with n at least 1, got "${limit}"`);
+    perSkill[skill] = Number(count);
+  }
+  return { maxConcurrent, perSkill };
+}
@@ -0,0 +1,212 @@
+import { CliError } from "./errors";
+import { getBountyBoardDeployment } from "@se-2/sdk";
+import { spawnSync } from "child_process";
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { basename, dirname, join, resolve } from "path";
+import {
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  createPublicClient,
+  defineChain,
+  http,
+  isAddress,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import * as chains from "viem/chains";
+
+const DEFAULT_CONFIG_FILE = "bounty.config.json";
+const DEFAULT_RPC_URL = "http://127.0.0.1:8545";
+const DEFAULT_DATA_DIR = ".bounty";
+const DEFAULT_IPFS_GATEWAY = "https://ipfs.io";
+const FOUNDRY_KEYSTORE_DIR = join(homedir(), ".foundry", "keystores");
+
+/** Chains we deploy to, checked before the rest of viem/chains so e.g. 31337 resolves to Foundry, not Hardhat */
+const PREFERRED_CHAINS: Chain[] = [chains.foundry, chains.base];
+
+/**
+ * Shared settings, resolved in order: command-line flag, environment variable, config file, default.
+ * Private keys are never read from the config file.
+ */
+export type GlobalOptions = {
+  config?: string;
+  rpcUrl?: string;
+  wsUrl?: string;
+  chain?: string;
+  board?: string;
+  keystore?: string;
+  privateKey?: string;
+  dataDir?: string;
+  ipfsApi?: string;
+  ipfsGateway?: string;
+  httpSpecs?: boolean;
+  json?: boolean;
+};
+
+type ConfigFile = {
+  rpcUrl?: string;
+  wsUrl?: string;
+  chain?: number | string;
+  board?: string;
+  keystore?: string;
+  dataDir?: string;
+  ipfsApi?: string;
+  ipfsGateway?: string;
+  httpSpecs?: boolean;
+  /** Skill handler modules or directories for the worker, relative to the config file */
+  skills?: string[];
+  /** Verifier modules or directories for `bounty verify`, relative to the config file */
+  verifiers?: string[];
+};
+
+export type BountyConfig = {
+  rpcUrl: string;
+  /** WebSocket endpoint for event subscriptions. Without one, events are polled over `rpcUrl`. */
+  wsUrl?: string;
+  chain: Chain;
+  board: Address;
+  /** Block the board was deployed at, where event catch-up starts. Unknown for boards not in deployedContracts.ts. */
+  deployedOnBlock?: bigint;
+  keystore?: string;
+  privateKey?: Hex;
+  /** Where long-running commands (the worker) keep their state between runs */
+  dataDir: string;
+  /** Kubo RPC API the worker uploads artifacts to. Without one, artifacts are submitted as `data:` URIs. */
+  ipfsApi?: string;
+  /** Authorization header for `ipfsApi`; only read from the environment, like private keys */
+  ipfsApiAuth?: string;
+  /** HTTP gateway that `ipfs://` URIs are fetched through */
+  ipfsGateway: string;
+  /**
+   * Fetch job specs posted as `http(s)://` URIs (from public hosts only). Off by default, since the poster picks the
+   * URL; such jobs then go unmatched by skills and are left for review by `bounty verify`.
+   */
+  httpSpecs: boolean;
+  /** Absolute paths of skill handler modules or directories from the config file */
+  skills: string[];
+  /** Absolute paths of verifier modules or directories from the config file */
+  verifiers: string[];
+  json: boolean;
+};
+
+export async function loadConfig(options: GlobalOptions): Promise<BountyConfig> {
+  const configPath = resolve(options.config ?? process.env.BOUNTY_CONFIG ?? DEFAULT_CONFIG_FILE);
+  const file = readConfigFile(configPath, options.config !== undefined || process.env.BOUNTY_CONFIG !== undefined);
+
+  const rpcUrl = options.rpcUrl ?? process.env.RPC_URL ?? file.rpcUrl ?? DEFAULT_RPC_URL;
+  const chainSetting = options.chain ?? process.env.CHAIN ?? file.chain;
+  const chain = chainSetting !== undefined ? resolveChain(chainSetting) : await detectChain(rpcUrl);
+
+  const boardSetting = options.board ?? process.env.BOARD_ADDRESS ?? file.board;
+  const deployment = getBountyBoardDeployment(chain.id);
+  const board = boardSetting ?? deployment?.address;
+  if (!board) {
+    throw new CliError(`No AgentBountyBoard deployment for chain ${chain.id}. Pass --board or set BOARD_ADDRESS.`);
+  }
+  if (!isAddress(board)) throw new CliError(`Invalid board address: ${board}`);
+
+  const privateKey = options.privateKey ?? process.env.PRIVATE_KEY;
+  if (privateKey !== undefined && !/^0x[0-9a-fA-F]{64}$/.test(privateKey)) {
+    throw new CliError("Private key must be a 0x-prefixed 32-byte hex string");
+  }
+
+  return {
+    rpcUrl,
+    wsUrl: options.wsUrl ?? process.env.WS_RPC_URL ?? file.wsUrl,
+    chain,
+    board,
+    deployedOnBlock: deployment?.address.toLowerCase() === board.toLowerCase() ? deployment.deployedOnBlock : undefined,
+    keystore: options.keystore ?? process.env.KEYSTORE ?? file.keystore,
+    privateKey: privateKey as Hex | undefined,
+    dataDir: resolve(options.dataDir ?? process.env.BOUNTY_DATA_DIR ?? file.dataDir ?? DEFAULT_DATA_DIR),
+    ipfsApi: options.ipfsApi ?? process.env.IPFS_API_URL ?? file.ipfsApi,
+    ipfsApiAuth: process.env.IPFS_API_AUTH,
+    ipfsGateway: options.ipfsGateway ?? process.env.IPFS_GATEWAY ?? file.ipfsGateway ?? DEFAULT_IPFS_GATEWAY,
+    httpSpecs: options.httpSpecs ?? envFlag("HTTP_SPECS") ?? file.httpSpecs ?? false,
+    skills: (file.skills ?? []).map(skill => resolve(dirname(configPath), skill)),
+    verifiers: (file.verifiers ?? []).map(verifier => resolve(dirname(configPath), verifier)),
+    json: options.json ?? false,
+  };
+}
+
+/** A yes/no environment variable: `1` or `true` turns it on, anything else set turns it off */
+function envFlag(name: string): boolean | undefined {
+  const value = process.env[name];
+  return value === undefined ? undefined : ["1", "true"].includes(value.toLowerCase());
+}
+
+/** Where the worker and `bounty verify` keep their state for the configured chain and board */
+export function workerStateDir(config: BountyConfig): string {
+  return join(config.dataDir, `${config.chain.id}-${config.board.toLowerCase()}`);
+}
+
+/**
+ * Returns the account that signs transactions: the private key if one is configured, otherwise the keystore.
+ * Keystores are decrypted with Foundry's `cast`, which prompts for the password unless KEYSTORE_PASSWORD is set.
+ */
+export function resolveAccount(config: BountyConfig): Account {
+  if (config.privateKey) return privateKeyToAccount(config.privateKey);
+  if (config.keystore) return privateKeyToAccount(decryptKeystore(config.keystore));
+  throw new CliError(
+    "This command sends a transaction. Pass --private-key or --keystore (or set PRIVATE_KEY / KEYSTORE).",
+  );
+}
+
+function readConfigFile(configPath: string, required: boolean): ConfigFile {
+  if (!existsSync(configPath)) {
+    if (required) throw new CliError(`Config file not found: ${configPath}`);
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(configPath, "utf-8")) as ConfigFile;
+  } catch (e) {
+    throw new CliError(`Could not parse ${configPath}: ${(e as Error).message}`);
+  }
+}
+
+function resolveChain(setting: number | string): Chain {
+  const allChains = [...PREFERRED_CHAINS, ...(Object.values(chains) as Chain[])];
+  const id = Number(setting);
+  const chain = Number.isInteger(id)
+    ? allChains.find(c => c.id === id)
+    : (chains as Record<string, Chain>)[String(setting)];
+  if (!chain)
+    throw new CliError(`Unknown chain "${setting}". Use a chain id or a viem chain name (e.g. base, foundry).`);
+  return chain;
+}
+
+async function detectChain(rpcUrl: string): Promise<Chain> {
+  let id: number;
+  try {
+    id = await createPublicClient({ transport: http(rpcUrl) }).getChainId();
+  } catch {
+    throw new CliError(`Could not reach ${rpcUrl} to detect the chain. Is the node running? (or pass --chain)`);
+  }
+  try {
+    return resolveChain(id);
+  } catch {
+    return defineChain({
+      id,
+      name: `Chain ${id}`,
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      rpcUrls: { default: { http: [rpcUrl] } },
+    });
+  }
+}
+
+function decryptKeystore(keystore: string): Hex {
+  // Accept either a path to a keystore file or the name of an account in ~/.foundry/keystores
+  const isPath = existsSync(keystore);
+  const args = ["wallet", "decrypt-keystore", isPath ? basename(keystore) : keystore];
+  args.push("--keystore-dir", isPath ? dirname(resolve(keystore)) : FOUNDRY_KEYSTORE_DIR);
+  if (process.env.KEYSTORE_PASSWORD) args.push("--unsafe-password", process.env.KEYSTORE_PASSWORD);
+
+  const result = spawnSync("cast", args, { encoding: "utf-8", stdio: ["inherit", "pipe", "inherit"] });
+  if (result.error) throw new CliError("Decrypting a keystore requires Foundry's `cast` on your PATH");
+  const privateKey = result.stdout?.match(/0x[0-9a-fA-F]{64}/)?.[0];
+  if (result.status !== 0 || !privateKey)
+    throw new CliError(`Failed to decrypt keystore "${keystore}". Wrong password?`);
+  return privateKey as Hex;
+}
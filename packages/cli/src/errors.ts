@@ -0,0 +1,9 @@
+/**
+ * An expected failure (bad input, missing config). Printed without a stack trace.
+ */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
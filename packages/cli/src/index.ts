@@ -0,0 +1,153 @@
+/**
+ * bounty — command-line interface for the AgentBountyBoard
+ *
+ * Usage:
+ *   yarn bounty <command> [args] [options]
+ *   yarn bounty --help
+ *
+ * Every command shares one configuration (see config.ts) and accepts --json for machine-readable output.
+ */
+import type { Command, CommandValues } from "./command";
+import * as agentCommands from "./commands/agent";
+import * as housekeepingCommands from "./commands/housekeeping";
+import * as posterCommands from "./commands/poster";
+import { status } from "./commands/status";
+import { verify } from "./commands/verify";
+import * as viewCommands from "./commands/views";
+import { watch } from "./commands/watch";
+import { work } from "./commands/work";
+import { type GlobalOptions, loadConfig, resolveAccount } from "./config";
+import { CliError } from "./errors";
+import { toJson } from "./output";
+import { BountyBoardClient } from "@se-2/sdk";
+import { type ParseArgsConfig, parseArgs } from "util";
+import { BaseError, createPublicClient, createWalletClient, http, webSocket } from "viem";
+
+const COMMAND_GROUPS: { title: string; commands: Command[] }[] = [
+  { title: "Poster", commands: [...Object.values(posterCommands), verify] },
+  { title: "Agent", commands: [...Object.values(agentCommands), work, status] },
+  { title: "Housekeeping", commands: Object.values(housekeepingCommands) },
+  { title: "Views", commands: [...Object.values(viewCommands), watch] },
+];
+
+const COMMANDS = new Map(COMMAND_GROUPS.flatMap(group => group.commands).map(command => [command.name, command]));
+
+const GLOBAL_OPTIONS = {
+  config: { type: "string" },
+  "rpc-url": { type: "string" },
+  "ws-url": { type: "string" },
+  chain: { type: "string" },
+  board: { type: "string" },
+  keystore: { type: "string" },
+  "private-key": { type: "string" },
+  "data-dir": { type: "string" },
+  "ipfs-api": { type: "string" },
+  "ipfs-gateway": { type: "string" },
+  "http-specs": { type: "boolean" },
+  json: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+} satisfies NonNullable<ParseArgsConfig["options"]>;
+
+const GLOBAL_HELP = [
+  "--config <path>            Config file (default ./bounty.config.json, or $BOUNTY_CONFIG)",
+  "--rpc-url <url>            RPC endpoint (default $RPC_URL or http://127.0.0.1:8545)",
+  "--ws-url <url>             WebSocket endpoint for event subscriptions (default $WS_RPC_URL, else polls the RPC)",
+  "--chain <id|name>          Chain (default $CHAIN, otherwise detected from the RPC)",
+  "--board <address>          AgentBountyBoard address (default $BOARD_ADDRESS or deployedContracts.ts)",
+  "--keystore <name|path>     Foundry keystore to sign with (default $KEYSTORE)",
+  "--private-key <hex>        Private key to sign with (default $PRIVATE_KEY)",
+  "--data-dir <path>          Where the worker keeps its state (default $BOUNTY_DATA_DIR or ./.bounty)",
+  "--ipfs-api <url>           IPFS (Kubo RPC) API the worker uploads artifacts to (default $IPFS_API_URL)",
+  "--ipfs-gateway <url>       Gateway for ipfs:// submissions (default $IPFS_GATEWAY or https://ipfs.io)",
+  "--http-specs               Fetch job specs posted as http(s):// URIs, from public hosts (default $HTTP_SPECS)",
+  "--json                     Print machine-readable JSON",
+  "-h, --help                 Show help",
+];
+
+function printUsage() {
+  console.log("Usage: bounty <command> [args] [options]\n");
+  for (const group of COMMAND_GROUPS) {
+    console.log(`${group.title}:`);
+    for (const command of group.commands) {
+      console.log(`  ${`${command.name} ${command.args ?? ""}`.padEnd(28)} ${command.summary}`);
+    }
+    console.log();
+  }
+  console.log("Global options:");
+  GLOBAL_HELP.forEach(line => console.log(`  ${line}`));
+}
+
+function printCommandHelp(command: Command) {
+  console.log(`Usage: bounty ${command.name}${command.args ? ` ${command.args}` : ""} [options]\n`);
+  console.log(`${command.summary}\n`);
+  if (command.optionsHelp?.length) {
+    console.log("Options:");
+    command.optionsHelp.forEach(line => console.log(`  ${line}`));
+    console.log();
+  }
+  console.log("Global options:");
+  GLOBAL_HELP.forEach(line => console.log(`  ${line}`));
+}
+
+async function main(argv: string[]) {
+  const command = COMMANDS.get(argv[0]);
+  if (!command) {
+    printUsage();
+    if (argv[0] && argv[0] !== "--help" && argv[0] !== "-h") throw new CliError(`Unknown command: ${argv[0]}`);
+    return;
+  }
+
+  const { values, positionals } = parseArgs({
+    args: argv.slice(1),
+    options: { ...GLOBAL_OPTIONS, ...command.options },
+    allowPositionals: true,
+    strict: true,
+  });
+  if (values.help) return printCommandHelp(command);
+
+  const options: GlobalOptions = {
+    config: values.config,
+    rpcUrl: values["rpc-url"],
+    wsUrl: values["ws-url"],
+    chain: values.chain,
+    board: values.board,
+    keystore: values.keystore,
+    privateKey: values["private-key"],
+    dataDir: values["data-dir"],
+    ipfsApi: values["ipfs-api"],
+    ipfsGateway: values["ipfs-gateway"],
+    httpSpecs: values["http-specs"],
+    json: values.json,
+  };
+  const config = await loadConfig(options);
+
+  const transport = http(config.rpcUrl);
+  const publicClient = createPublicClient({ chain: config.chain, transport });
+  const watchClient = config.wsUrl
+    ? createPublicClient({ chain: config.chain, transport: webSocket(config.wsUrl) })
+    : publicClient;
+  const account = command.needsSigner ? resolveAccount(config) : undefined;
+  const walletClient = account ? createWalletClient({ account, chain: config.chain, transport }) : undefined;
+  const board = new BountyBoardClient({
+    publicClient,
+    walletClient,
+    address: config.board,
+    transactions: {
+      // stderr, so that --json output stays one result per command
+      onSpeedUp: ({ label, nonce, hash }) =>
+        console.error(`⏫ ${label} (nonce ${nonce}) not mined yet, resent: ${hash}`),
+    },
+  });
+
+  await command.run({ config, publicClient, watchClient, board, account }, positionals, values as CommandValues);
+}
+
+main(process.argv.slice(2)).catch(e => {
+  const message = e instanceof BaseError ? e.shortMessage : (e as Error).message;
+  if (process.argv.includes("--json")) {
+    console.error(toJson({ error: message }));
+  } else {
+    console.error(`❌ ${message}`);
+  }
+  process.exit(1);
+});
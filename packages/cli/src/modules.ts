@@ -0,0 +1,49 @@
+import { CliError } from "./errors";
+import { readdirSync, statSync } from "fs";
+import { extname, join, resolve } from "path";
+import { pathToFileURL } from "url";
+
+const MODULE_EXTENSIONS = [".ts", ".mts", ".cts", ".js", ".mjs", ".cjs"];
+
+/**
+ * Imports the module at `path`, or each module in the directory at `path`, and returns every export that passes
+ * `isPlugin`: the default export (one plugin or an array) or named exports. Used for skill handlers and verifiers,
+ * so a team can ship one as a single file. `kind` names them in errors.
+ */
+export async function loadPlugins<T>(path: string, isPlugin: (value: unknown) => value is T, kind: string) {
+  const absolute = resolve(path);
+  let files: string[];
+  try {
+    files = statSync(absolute).isDirectory()
+      ? readdirSync(absolute)
+          .filter(file => MODULE_EXTENSIONS.includes(extname(file)) && !file.endsWith(".d.ts"))
+          .sort()
+          .map(file => join(absolute, file))
+      : [absolute];
+  } catch {
+    throw new CliError(`${kind[0].toUpperCase()}${kind.slice(1)} path not found: ${absolute}`);
+  }
+
+  const plugins: T[] = [];
+  for (const file of files) {
+    const exported = exportedPlugins(await import(pathToFileURL(file).href), isPlugin);
+    if (exported.length === 0) throw new CliError(`${file} does not export a ${kind}`);
+    plugins.push(...exported);
+  }
+  return plugins;
+}
+
+/**
+ * Collects plugins from a module namespace. TypeScript sources load as CommonJS, so a default export can arrive
+ * wrapped in a second `default`; both levels are searched.
+ */
+function exportedPlugins<T>(namespace: Record<string, unknown>, isPlugin: (value: unknown) => value is T): T[] {
+  const found = new Set<T>();
+  const visit = (value: unknown, depth: number) => {
+    if (isPlugin(value)) return found.add(value);
+    if (Array.isArray(value)) return value.filter(isPlugin).forEach(plugin => found.add(plugin));
+    if (depth < 2 && value && typeof value === "object") Object.values(value).forEach(v => visit(v, depth + 1));
+  };
+  visit(namespace, 0);
+  return [...found];
+}
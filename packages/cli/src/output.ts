@@ -0,0 +1,45 @@
+import { type Job, JobStatus } from "@se-2/sdk";
+import { formatEther } from "viem";
+
+/**
+ * JSON.stringify that writes bigints as decimal strings, so wei amounts survive `jq` and JavaScript consumers.
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+/**
+ * Prints `value` as a single JSON line in --json mode, otherwise hands it to the human-readable renderer.
+ */
+export function print<T>(json: boolean, value: T, render: (value: T) => void) {
+  if (json) {
+    console.log(toJson(value));
+  } else {
+    render(value);
+  }
+}
+
+export function serializeJob(job: Job, currentPrice?: bigint) {
+  return { ...job, status: JobStatus[job.status], ...(currentPrice !== undefined && { currentPrice }) };
+}
+
+export function formatClawd(wei: bigint): string {
+  return `${formatEther(wei)} CLAWD`;
+}
+
+export function formatDuration(seconds: bigint | number): string {
+  const total = Number(seconds);
+  if (total <= 0) return "0s";
+  const d = Math.floor(total / 86400);
+  const h = Math.floor((total % 86400) / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = Math.floor(total % 60);
+  if (d > 0) return `${d}d ${h}h ${m}m`;
+  if (h > 0) return `${h}h ${m}m ${s}s`;
+  if (m > 0) return `${m}m ${s}s`;
+  return `${s}s`;
+}
+
+export function nowSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
@@ -0,0 +1,20 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+
+/**
+ * Reads a JSON state file, or returns undefined if it does not exist yet.
+ */
+export function readJsonFile<T>(path: string): T | undefined {
+  if (!existsSync(path)) return undefined;
+  return JSON.parse(readFileSync(path, "utf-8")) as T;
+}
+
+/**
+ * Writes a JSON state file through a temporary file and a rename, so a crash mid-write never leaves it truncated.
+ */
+export function writeJsonFile(path: string, value: unknown) {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(value, null, 2));
+  renameSync(tmp, path);
+}
@@ -0,0 +1,36 @@
+import { toJson } from "../output";
+import type { Decision, NamedCheck } from "./pipeline";
+import { appendFileSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import type { Address, Hash } from "viem";
+
+export type AuditEntry = {
+  /** ISO timestamp of the decision */
+  at: string;
+  jobId: bigint;
+  agent: Address;
+  submissionURI: string;
+  /** `fetchFailed` when the submission couldn't be fetched and will be checked again */
+  decision: Decision | "fetchFailed";
+  rating?: number;
+  reason: string;
+  checks: NamedCheck[];
+  /** Nothing was sent: `--dry-run` */
+  dryRun: boolean;
+  tx?: Hash;
+  /** Why the approve or dispute transaction failed */
+  error?: string;
+};
+
+/**
+ * Every decision the verifier pipeline makes, appended as JSON lines, so a poster can see afterwards why each job
+ * was paid or disputed. Never rewritten: entries are a record, not state.
+ */
+export class AuditLog {
+  constructor(private readonly path: string) {}
+
+  record(entry: Omit<AuditEntry, "at">) {
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, `${toJson({ at: new Date().toISOString(), ...entry })}\n`);
+  }
+}
@@ -0,0 +1,126 @@
+import type { Verifier } from "./types";
+import { computeCid, parseIpfsUri, validateJsonSchema } from "@se-2/sdk";
+
+/** Types `sniffMimeType` recognises from the content itself, so a submission declaring one must sniff as it */
+const SNIFFABLE_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/svg+xml",
+  "application/pdf",
+  "application/json",
+  "text/html",
+];
+
+/** Schema errors shown in a report; the audit log gets the same */
+const MAX_SCHEMA_ERRORS = 5;
+
+/** `image/*` style wildcards match any subtype */
+const mimeTypeMatches = (expected: string, actual: string) => {
+  const [type, subtype] = expected.toLowerCase().split("/");
+  return subtype === "*" ? actual.startsWith(`${type}/`) : actual === expected.toLowerCase();
+};
+
+/** Not empty, and within `--max-size` */
+export const sizeVerifier: Verifier = {
+  name: "size",
+  verify({ submission, maxSize }) {
+    const size = submission.bytes.length;
+    if (size === 0) return { passed: false, message: "empty" };
+    if (size > maxSize) return { passed: false, message: `${size} bytes, over the ${maxSize}-byte limit` };
+    return { passed: true, message: `${size} bytes` };
+  },
+};
+
+/** The MIME type the spec asks for in `output.mimeType` */
+export const mimeTypeVerifier: Verifier = {
+  name: "mimeType",
+  verify({ spec, submission }) {
+    const expected = spec?.output?.mimeType;
+    if (!expected) return { passed: true, skipped: true, message: "the job doesn't ask for a type" };
+    return mimeTypeMatches(expected, submission.mimeType)
+      ? { passed: true, message: submission.mimeType }
+      : { passed: false, message: `${submission.mimeType}, expected ${expected}` };
+  },
+};
+
+/** The content is what its type says: image bytes for images, parseable JSON for JSON, UTF-8 for text */
+export const formatVerifier: Verifier = {
+  name: "format",
+  verify({ submission: { mimeType, sniffedMimeType, text } }) {
+    const isJson = mimeType === "application/json" || mimeType.endsWith("+json");
+    if (isJson) {
+      return sniffedMimeType === "application/json"
+        ? { passed: true, message: "valid JSON" }
+        : { passed: false, message: `declared ${mimeType} but isn't valid JSON` };
+    }
+    if (SNIFFABLE_TYPES.includes(mimeType)) {
+      return sniffedMimeType === mimeType
+        ? { passed: true, message: `content is ${mimeType}` }
+        : { passed: false, message: `declared ${mimeType} but the content looks like ${sniffedMimeType}` };
+    }
+    if (mimeType.startsWith("text/")) {
+      return text !== undefined
+        ? { passed: true, message: "valid UTF-8 text" }
+        : { passed: false, message: `declared ${mimeType} but isn't UTF-8 text` };
+    }
+    return { passed: true, skipped: true, message: `no format check for ${mimeType}` };
+  },
+};
+
+/** JSON output against the spec's `output.schema` */
+export const schemaVerifier: Verifier = {
+  name: "schema",
+  verify({ spec, submission }) {
+    const schema = spec?.output?.schema;
+    if (!schema) return { passed: true, skipped: true, message: "the job has no output schema" };
+    if (submission.json === undefined) return { passed: false, message: "not JSON, so can't match the schema" };
+    const errors = validateJsonSchema(submission.json, schema);
+    if (errors.length === 0) return { passed: true, message: "matches the output schema" };
+    const shown = errors.slice(0, MAX_SCHEMA_ERRORS).join("; ");
+    return {
+      passed: false,
+      message: errors.length > MAX_SCHEMA_ERRORS ? `${shown}; and ${errors.length - MAX_SCHEMA_ERRORS} more` : shown,
+    };
+  },
+};
+
+/** Not the manifest a worker submits when its deadline guard stopped the job before it finished */
+export const completeVerifier: Verifier = {
+  name: "complete",
+  verify({ submission: { json } }) {
+    const manifest = json as { partial?: unknown; reason?: unknown } | undefined;
+    if (manifest?.partial === true) {
+      return { passed: false, message: `a partial result${manifest.reason ? `: ${String(manifest.reason)}` : ""}` };
+    }
+    return { passed: true, message: "not marked partial" };
+  },
+};
+
+/**
+ * For `ipfs://` submissions with a single-block raw CID (`bafkrei...`, what the worker computes), the content hashes
+ * to that CID, so a gateway can't have served something else.
+ */
+export const cidVerifier: Verifier = {
+  name: "cid",
+  verify({ submission }) {
+    const ipfs = parseIpfsUri(submission.uri);
+    if (!ipfs || ipfs.path || !ipfs.cid.startsWith("bafkrei")) {
+      return { passed: true, skipped: true, message: "not a raw-block ipfs:// CID" };
+    }
+    const cid = computeCid(submission.bytes);
+    return cid === ipfs.cid
+      ? { passed: true, message: "content matches the CID" }
+      : { passed: false, message: `content hashes to ${cid}` };
+  },
+};
+
+export const BUILTIN_VERIFIERS: Verifier[] = [
+  sizeVerifier,
+  mimeTypeVerifier,
+  formatVerifier,
+  schemaVerifier,
+  completeVerifier,
+  cidVerifier,
+];
@@ -0,0 +1,3 @@
+export { BUILTIN_VERIFIERS } from "./builtin";
+export { type Decision, type NamedCheck, type Verdict, VerifierPipeline } from "./pipeline";
+export type { CheckResult, Submission, Verifier, VerifierContext } from "./types";
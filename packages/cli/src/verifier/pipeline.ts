@@ -0,0 +1,89 @@
+import { CliError } from "../errors";
+import { loadPlugins } from "../modules";
+import type { CheckResult, Verifier, VerifierContext } from "./types";
+import { MAX_RATING } from "@se-2/sdk";
+
+/**
+ * What to do with a submission. `review` leaves it for the poster: a verifier crashed or the job has no spec, so the
+ * checks are incomplete and neither paying nor disputing is safe.
+ */
+export type Decision = "approve" | "dispute" | "review";
+
+export type NamedCheck = CheckResult & { verifier: string };
+
+export type Verdict = {
+  decision: Decision;
+  /** The rating `approveWork` gets: the mean score of the checks that ran, out of 100 */
+  rating: number;
+  checks: NamedCheck[];
+  /** One line on why */
+  reason: string;
+};
+
+/**
+ * The acceptance checks a poster runs on submissions, by name.
+ *
+ * Custom verifiers come from modules that export them, the same way as skill handlers: the default export (one
+ * verifier or an array) or named exports. `load` takes a module or a directory of modules.
+ */
+export class VerifierPipeline {
+  private readonly verifiers = new Map<string, Verifier>();
+
+  constructor(verifiers: Verifier[] = []) {
+    verifiers.forEach(verifier => this.register(verifier));
+  }
+
+  get all(): Verifier[] {
+    return [...this.verifiers.values()];
+  }
+
+  has(name: string): boolean {
+    return this.verifiers.has(name);
+  }
+
+  register(verifier: Verifier) {
+    if (this.verifiers.has(verifier.name)) throw new CliError(`Verifier "${verifier.name}" is registered twice`);
+    this.verifiers.set(verifier.name, verifier);
+  }
+
+  /** Registers every verifier exported by the module at `path`, or by each module in the directory at `path` */
+  async load(path: string) {
+    (await loadPlugins(path, isVerifier, "verifier")).forEach(verifier => this.register(verifier));
+  }
+
+  /**
+   * Runs every verifier on the submission. Any failed check disputes it, as does a rating under `minRating`;
+   * otherwise it is approved at the computed rating.
+   */
+  async run(ctx: VerifierContext, minRating = 0): Promise<Verdict> {
+    const checks: NamedCheck[] = [];
+    const crashed: string[] = [];
+    for (const verifier of this.verifiers.values()) {
+      try {
+        checks.push({ ...(await verifier.verify(ctx)), verifier: verifier.name });
+      } catch (e) {
+        crashed.push(verifier.name);
+        checks.push({ verifier: verifier.name, passed: false, message: `threw: ${(e as Error).message}` });
+      }
+    }
+
+    const ran = checks.filter(check => !check.skipped && !crashed.includes(check.verifier));
+    const scores = ran.map(check => Math.min(1, Math.max(0, check.score ?? (check.passed ? 1 : 0))));
+    const rating = scores.length
+      ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * MAX_RATING)
+      : MAX_RATING;
+    const failed = ran.filter(check => !check.passed).map(check => check.verifier);
+
+    if (crashed.length) return { decision: "review", rating, checks, reason: `${crashed.join(", ")} crashed` };
+    if (failed.length) return { decision: "dispute", rating, checks, reason: `failed ${failed.join(", ")}` };
+    if (rating < minRating) {
+      return { decision: "dispute", rating, checks, reason: `rated ${rating}, under the minimum of ${minRating}` };
+    }
+    return { decision: "approve", rating, checks, reason: `passed ${ran.length} checks` };
+  }
+}
+
+function isVerifier(value: unknown): value is Verifier {
+  const verifier = value as Verifier;
+  return typeof verifier?.name === "string" && typeof verifier.verify === "function";
+}
@@ -0,0 +1,101 @@
+import type { Submission } from "./types";
+import {
+  GENERIC_MIME_TYPES,
+  decodeUtf8,
+  parseDataUri,
+  parseIpfsUri,
+  resolveArtifactUri,
+  sniffMimeType,
+} from "@se-2/sdk";
+
+/** How long a gateway gets to answer before the submission counts as unreachable for now */
+const FETCH_TIMEOUT_MS = 30_000;
+
+/**
+ * Why a submission couldn't be fetched. `retryable` failures (network errors, timeouts, rate limits, any HTTP error
+ * but a definite 404 or 410) say nothing about the work, so the submission is checked again later instead of being
+ * disputed.
+ */
+export class SubmissionFetchError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = "SubmissionFetchError";
+  }
+}
+
+/**
+ * Fetches a submission: `data:` URIs are decoded in place, `ipfs://` URIs fetched through `gateway`, and `http(s)://`
+ * URIs fetched directly. Content over `maxSize` bytes is refused without being read in full.
+ */
+export async function fetchSubmission(uri: string, gateway: string, maxSize: number): Promise<Submission> {
+  let bytes: Uint8Array;
+  let declared: string;
+
+  if (uri.startsWith("data:")) {
+    const parsed = parseDataUri(uri);
+    if (!parsed) throw new SubmissionFetchError("Malformed data: URI", false);
+    ({ bytes, mimeType: declared } = parsed);
+  } else {
+    if (!parseIpfsUri(uri) && !/^https?:\/\//i.test(uri)) {
+      throw new SubmissionFetchError(`Not a data:, ipfs:// or http(s):// URI: ${uri}`, false);
+    }
+    const url = resolveArtifactUri(uri, gateway);
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    } catch (e) {
+      throw new SubmissionFetchError(`Fetching ${url} failed: ${(e as Error).message}`, true);
+    }
+    if (!response.ok) {
+      // Only a 404 or 410 says the content is missing: a gateway's 429 or 504 is about the gateway, not the work
+      const missing = response.status === 404 || response.status === 410;
+      throw new SubmissionFetchError(`Fetching ${url} failed: HTTP ${response.status}`, !missing);
+    }
+    if (Number(response.headers.get("content-length") ?? 0) > maxSize) {
+      throw new SubmissionFetchError(`Larger than the ${maxSize}-byte limit`, false);
+    }
+    bytes = await readLimited(response, maxSize);
+    declared = (response.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+  }
+  if (bytes.length > maxSize) throw new SubmissionFetchError(`Larger than the ${maxSize}-byte limit`, false);
+
+  const sniffedMimeType = sniffMimeType(bytes);
+  const text = decodeUtf8(bytes);
+  let json: unknown;
+  if (text !== undefined && sniffedMimeType === "application/json") json = JSON.parse(text);
+  return {
+    uri,
+    bytes,
+    mimeType: GENERIC_MIME_TYPES.includes(declared) ? sniffedMimeType : declared,
+    sniffedMimeType,
+    text,
+    json,
+  };
+}
+
+/** The response body, or a non-retryable error as soon as it passes `maxSize` bytes */
+async function readLimited(response: Response, maxSize: number): Promise<Uint8Array> {
+  if (!response.body) return new Uint8Array(await response.arrayBuffer());
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > maxSize) {
+        await reader.cancel();
+        throw new SubmissionFetchError(`Larger than the ${maxSize}-byte limit`, false);
+      }
+      chunks.push(value);
+    }
+  } catch (e) {
+    if (e instanceof SubmissionFetchError) throw e;
+    throw new SubmissionFetchError(`Reading the submission failed: ${(e as Error).message}`, true);
+  }
+  return Buffer.concat(chunks);
+}
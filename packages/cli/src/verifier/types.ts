@@ -0,0 +1,45 @@
+import type { Job, JobSpec } from "@se-2/sdk";
+
+/** A job's submission as fetched for checking */
+export type Submission = {
+  uri: string;
+  bytes: Uint8Array;
+  /** What the source declared, or sniffed from the content when it declared nothing useful */
+  mimeType: string;
+  /** Sniffed from the content, whatever the source declared */
+  sniffedMimeType: string;
+  /** The content as UTF-8, unless it isn't valid UTF-8 */
+  text?: string;
+  /** The content parsed as JSON, if it is JSON */
+  json?: unknown;
+};
+
+export type VerifierContext = {
+  job: Job;
+  /** The job's spec, when its description is one. Plain-text jobs have no expectations to check against. */
+  spec?: JobSpec;
+  submission: Submission;
+  /** `--max-size`, in bytes */
+  maxSize: number;
+};
+
+/**
+ * What one verifier found. A failed check disputes the work; `score` (0–1, default 1 when passed and 0 when not)
+ * goes into the rating. `skipped` checks don't apply to this job and count for neither.
+ */
+export type CheckResult = {
+  passed: boolean;
+  score?: number;
+  skipped?: boolean;
+  message: string;
+};
+
+/**
+ * One acceptance check a poster runs on submissions before paying for them. The pipeline runs every registered
+ * verifier on each submission and approves only if none fails.
+ */
+export type Verifier = {
+  /** Unique name, shown in the report and the audit log */
+  name: string;
+  verify(ctx: VerifierContext): CheckResult | Promise<CheckResult>;
+};
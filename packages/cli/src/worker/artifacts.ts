@@ -0,0 +1,98 @@
+import { computeCid } from "@se-2/sdk";
+import { existsSync, mkdirSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+
+/** Kubo's default chunk size; content up to it is added as a single raw block */
+const MAX_SINGLE_BLOCK_SIZE = 256 * 1024;
+
+/** A file a skill produced. `uri` is what gets submitted on-chain. */
+export type Artifact = {
+  /** `ipfs://<cid>` once published, otherwise a `data:` URI holding the content */
+  uri: string;
+  /** CIDv1 of the content, which doubles as its sha2-256 hash */
+  cid: string;
+  /** The name the skill gave it */
+  name: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  /** Local copy, kept for the operator */
+  path: string;
+};
+
+/**
+ * Where skills put what they produce. Artifacts are content-addressed, so only a short `ipfs://` URI goes on-chain
+ * and anyone can check the content against it.
+ */
+export type ArtifactStore = {
+  write(name: string, content: string | Uint8Array, mimeType: string): Promise<Artifact>;
+};
+
+/**
+ * Keeps each artifact under `dir`, named by its CID. Nothing is published, so the `ipfs://` URIs it returns only
+ * resolve once the files are added to IPFS (`ipfs add --cid-version 1 --raw-leaves`); the worker wraps it in a
+ * `DataUriArtifactStore` or an `HttpArtifactStore` rather than submitting them as they are.
+ */
+export class LocalArtifactStore implements ArtifactStore {
+  constructor(private readonly dir: string) {}
+
+  async write(name: string, content: string | Uint8Array, mimeType: string): Promise<Artifact> {
+    const bytes = Buffer.from(content);
+    const cid = computeCid(bytes);
+    const path = join(this.dir, cid);
+    if (!existsSync(path)) {
+      mkdirSync(this.dir, { recursive: true });
+      writeFileSync(`${path}.tmp`, bytes);
+      renameSync(`${path}.tmp`, path);
+    }
+    return { uri: `ipfs://${cid}`, cid, name, mimeType, size: bytes.length, path };
+  }
+}
+
+/**
+ * For workers with nowhere to publish artifacts: keeps each one in `local` and submits the content itself as a base64
+ * `data:` URI. A CID that only the worker's disk holds can't be fetched by the poster, who would then never review it.
+ */
+export class DataUriArtifactStore implements ArtifactStore {
+  constructor(private readonly local: LocalArtifactStore) {}
+
+  async write(name: string, content: string | Uint8Array, mimeType: string): Promise<Artifact> {
+    const artifact = await this.local.write(name, content, mimeType);
+    return { ...artifact, uri: `data:${mimeType};base64,${Buffer.from(content).toString("base64")}` };
+  }
+}
+
+/**
+ * Uploads each artifact to an IPFS node or pinning service through the Kubo RPC API (`POST /api/v0/add`), keeping a
+ * local copy in `local`. The CID the node returns is checked against the one computed locally, so a misbehaving
+ * service cannot substitute other content.
+ */
+export class HttpArtifactStore implements ArtifactStore {
+  constructor(
+    private readonly apiUrl: string,
+    private readonly local: LocalArtifactStore,
+    /** Sent as the Authorization header, for pinning services that need one */
+    private readonly authorization?: string,
+  ) {}
+
+  async write(name: string, content: string | Uint8Array, mimeType: string): Promise<Artifact> {
+    const artifact = await this.local.write(name, content, mimeType);
+
+    const body = new FormData();
+    body.append("file", new Blob([Buffer.from(content)], { type: mimeType }), name);
+    const url = `${this.apiUrl.replace(/\/+$/, "")}/api/v0/add?cid-version=1&raw-leaves=true&pin=true`;
+    const response = await fetch(url, {
+      method: "POST",
+      body,
+      headers: this.authorization ? { Authorization: this.authorization } : undefined,
+    });
+    if (!response.ok) throw new Error(`Uploading ${name} to ${this.apiUrl} failed: HTTP ${response.status}`);
+    const { Hash: cid } = (await response.json()) as { Hash: string };
+
+    // Content over one chunk is split by the node, so its CID legitimately differs from the single-block one
+    if (cid !== artifact.cid && artifact.size <= MAX_SINGLE_BLOCK_SIZE) {
+      throw new Error(`${this.apiUrl} stored ${name} as ${cid}, expected ${artifact.cid}`);
+    }
+    return { ...artifact, uri: `ipfs://${cid}`, cid };
+  }
+}
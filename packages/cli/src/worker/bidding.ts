@@ -0,0 +1,89 @@
+import type { ClaimRecord, OpenJob } from "./feed";
+import { getAuctionPrice } from "@se-2/sdk";
+import type { Address } from "viem";
+
+const BPS = 10_000n;
+
+/**
+ * Decides the lowest price a worker accepts for a job. The auction price only rises, so the worker claims at the
+ * moment it reaches that price, and passes on the job if the strategy returns undefined.
+ */
+export type BiddingStrategy = {
+  name: string;
+  /** @param cost The skill handler's cost estimate for the job, in CLAWD wei */
+  targetPrice(job: OpenJob, cost: bigint): bigint | undefined;
+};
+
+/** Claims once the price reaches `fraction` of maxPrice */
+export function fixedThresholdStrategy(fraction: number): BiddingStrategy {
+  const bps = toBps(fraction);
+  return {
+    name: `fixed ${fraction * 100}% of maxPrice`,
+    targetPrice: job => (job.maxPrice * bps) / BPS,
+  };
+}
+
+/** Claims once the price covers the cost estimate plus `margin` (0.2 = 20% on top) */
+export function costPlusMarginStrategy(margin: number): BiddingStrategy {
+  const bps = toBps(margin);
+  return {
+    name: `cost + ${margin * 100}%`,
+    targetPrice: (_job, cost) => cost + (cost * bps) / BPS,
+  };
+}
+
+/** Claims once `fraction` of the auction has elapsed, whatever the price is then */
+export function timeAwareStrategy(fraction: number): BiddingStrategy {
+  const bps = toBps(fraction);
+  return {
+    name: `at ${fraction * 100}% of the auction`,
+    targetPrice: job => getAuctionPrice(job, job.auctionStart + (job.auctionDuration * bps) / BPS),
+  };
+}
+
+export type AdaptiveStrategyConfig = {
+  /** Recent claims on the board; see `JobFeed.recentClaims` */
+  history: () => ClaimRecord[];
+  /** Our own address, so our claims are not mistaken for competition */
+  self: Address;
+  /**
+   * Which point of the competitors' claims to bid at, from 0 (earliest claim seen) to 1 (latest). 0.25 claims
+   * before three quarters of them would have.
+   */
+  quantile: number;
+  /** Needed before the history is trusted */
+  minSamples: number;
+  /** Used until there are enough samples */
+  fallback: BiddingStrategy;
+};
+
+/**
+ * Learns how far up the price ramp competitors let jobs go before claiming them, and claims at the configured
+ * quantile of that, a little ahead of the typical competitor.
+ */
+export function adaptiveStrategy({
+  history,
+  self,
+  quantile,
+  minSamples,
+  fallback,
+}: AdaptiveStrategyConfig): BiddingStrategy {
+  return {
+    name: `adaptive (quantile ${quantile}, until ${minSamples} claims: ${fallback.name})`,
+    targetPrice(job, cost) {
+      // Position of each competitor claim along its job's ramp, in basis points from minPrice to maxPrice
+      const positions = history()
+        .filter(claim => claim.agent.toLowerCase() !== self.toLowerCase() && claim.maxPrice > claim.minPrice)
+        .map(claim => ((claim.paidAmount - claim.minPrice) * BPS) / (claim.maxPrice - claim.minPrice))
+        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      if (positions.length < minSamples) return fallback.targetPrice(job, cost);
+
+      const position = positions[Math.min(Math.floor(quantile * positions.length), positions.length - 1)];
+      return job.minPrice + ((job.maxPrice - job.minPrice) * position) / BPS;
+    },
+  };
+}
+
+function toBps(fraction: number): bigint {
+  return BigInt(Math.round(fraction * Number(BPS)));
+}
@@ -0,0 +1,274 @@
+import { readJsonFile, writeJsonFile } from "../storage";
+import { type BountyBoardAbi, type Job, bountyBoardAbi } from "@se-2/sdk";
+import type { Address, PublicClient, WatchContractEventOnLogsParameter } from "viem";
+
+/** Many public RPCs cap the block range of a single eth_getLogs call */
+const LOG_RANGE = 5_000n;
+const MAX_CLAIM_HISTORY = 500;
+
+/** The part of a job that is fixed at posting time, which is all the worker needs to decide whether to claim it */
+export type OpenJob = Pick<
+  Job,
+  "id" | "poster" | "description" | "minPrice" | "maxPrice" | "auctionStart" | "auctionDuration" | "workDeadline"
+>;
+
+/** A claim on a job whose posting the feed saw, kept so bidding strategies can learn what competitors accept */
+export type ClaimRecord = Pick<OpenJob, "minPrice" | "maxPrice"> & {
+  jobId: bigint;
+  agent: Address;
+  paidAmount: bigint;
+};
+
+export type JobFeedConfig = {
+  /** Used for the getLogs catch-up and block timestamps */
+  publicClient: PublicClient;
+  /** Used for the live subscription; a WebSocket client if one is configured */
+  watchClient: PublicClient;
+  board: Address;
+  /** Where the catch-up starts when there is no saved state */
+  fromBlock: bigint;
+  statePath: string;
+  onOpen?: (job: OpenJob) => void;
+  onClose?: (jobId: bigint, reason: "claimed" | "cancelled") => void;
+  onError?: (error: Error) => void;
+};
+
+type BoardLog = WatchContractEventOnLogsParameter<BountyBoardAbi>[number];
+type PostedLog = Extract<BoardLog, { eventName: "JobPosted" }>;
+type ClaimedLog = Extract<BoardLog, { eventName: "JobClaimed" }>;
+
+/** Position of the last applied log. Logs at or before it have already been applied. */
+type LogCursor = { blockNumber: bigint; logIndex: number };
+
+type StoredJob = { [K in keyof OpenJob]: string };
+type StoredClaim = { [K in keyof ClaimRecord]: string };
+
+type FeedState = {
+  cursor?: { blockNumber: string; logIndex: number };
+  openJobs: StoredJob[];
+  claims?: StoredClaim[];
+};
+
+/**
+ * The set of Open jobs on the board, kept up to date from `JobPosted`, `JobClaimed` and `JobCancelled` events.
+ *
+ * On start the feed loads its saved set, replays the logs since the saved cursor with `getLogs`, then follows new
+ * logs with `watchContractEvent`. The set and cursor are saved after every batch, so a restart only replays the
+ * blocks it missed. Callbacks fire for changes after the catch-up; read `openJobs` once `start` resolves for the rest.
+ *
+ * The feed also keeps the most recent claims, with the price range of the job they claimed.
+ */
+export class JobFeed {
+  private readonly open = new Map<bigint, OpenJob>();
+  private readonly claims = new Map<bigint, ClaimRecord>();
+  private cursor?: LogCursor;
+  private unwatch?: () => void;
+
+  constructor(private readonly config: JobFeedConfig) {}
+
+  get openJobs(): OpenJob[] {
+    return [...this.open.values()];
+  }
+
+  get recentClaims(): ClaimRecord[] {
+    return [...this.claims.values()];
+  }
+
+  has(jobId: bigint): boolean {
+    return this.open.has(jobId);
+  }
+
+  async start() {
+    this.load();
+
+    // Subscribe before catching up so nothing emitted in between is missed. Live logs wait until the catch-up is done
+    // and then go through the cursor check like any other, which drops the ones the catch-up already applied.
+    let buffered: BoardLog[] | undefined = [];
+    let queue = Promise.resolve();
+    const enqueue = (logs: BoardLog[]) => {
+      queue = queue.then(() => this.applyLive(logs)).catch(e => this.config.onError?.(e as Error));
+    };
+    this.unwatch = this.config.watchClient.watchContractEvent({
+      address: this.config.board,
+      abi: bountyBoardAbi,
+      onLogs: logs => (buffered ? buffered.push(...logs) : enqueue(logs)),
+      onError: e => this.config.onError?.(e),
+    });
+
+    await this.catchUp();
+    enqueue(buffered);
+    buffered = undefined;
+    await queue;
+  }
+
+  stop() {
+    this.unwatch?.();
+  }
+
+  private async catchUp() {
+    const { publicClient, board } = this.config;
+    const head = await publicClient.getBlockNumber();
+    // Jobs posted during the catch-up get their auctionStart once it is done, and only if they are still open
+    const posted = new Map<bigint, PostedLog>();
+
+    for (let from = this.cursor?.blockNumber ?? this.config.fromBlock; from <= head; from += LOG_RANGE) {
+      const to = from + LOG_RANGE - 1n < head ? from + LOG_RANGE - 1n : head;
+      const logs = await publicClient.getContractEvents({
+        address: board,
+        abi: bountyBoardAbi,
+        fromBlock: from,
+        toBlock: to,
+      });
+      for (const log of logs as BoardLog[]) {
+        if (!this.advance(log)) continue;
+        if (log.eventName === "JobPosted") posted.set(log.args.jobId!, log);
+        if (log.eventName === "JobClaimed") {
+          this.recordClaim(log, posted.get(log.args.jobId!)?.args ?? this.open.get(log.args.jobId!));
+        }
+        if (log.eventName === "JobClaimed" || log.eventName === "JobCancelled") {
+          posted.delete(log.args.jobId!);
+          this.open.delete(log.args.jobId!);
+        }
+      }
+      // Jobs still waiting for a timestamp are not saved, so the saved cursor stops just before the oldest of them
+      const oldest = posted.values().next().value;
+      this.save(oldest ? cursorBefore(oldest) : this.cursor);
+    }
+
+    const timestamps = new Map<bigint, bigint>();
+    for (const log of posted.values()) {
+      const blockNumber = log.blockNumber!;
+      if (!timestamps.has(blockNumber)) timestamps.set(blockNumber, await this.getBlockTimestamp(blockNumber));
+      const job = toOpenJob(log, timestamps.get(blockNumber)!);
+      this.open.set(job.id, job);
+    }
+    this.save();
+  }
+
+  private async applyLive(logs: BoardLog[]) {
+    for (const log of logs) {
+      if (!this.advance(log)) continue;
+      switch (log.eventName) {
+        case "JobPosted": {
+          const job = toOpenJob(log, await this.getBlockTimestamp(log.blockNumber!));
+          this.open.set(job.id, job);
+          this.config.onOpen?.(job);
+          break;
+        }
+        case "JobClaimed":
+        case "JobCancelled":
+          if (log.eventName === "JobClaimed") this.recordClaim(log, this.open.get(log.args.jobId!));
+          if (this.open.delete(log.args.jobId!)) {
+            this.config.onClose?.(log.args.jobId!, log.eventName === "JobClaimed" ? "claimed" : "cancelled");
+          }
+          break;
+      }
+    }
+    this.save();
+  }
+
+  /** Moves the cursor to `log` and returns true, or returns false if the log was already applied or is pending */
+  private advance(log: BoardLog): boolean {
+    if (log.blockNumber === null || log.logIndex === null || log.removed) return false;
+    const { blockNumber, logIndex } = log;
+    if (this.cursor) {
+      const { blockNumber: lastBlock, logIndex: lastIndex } = this.cursor;
+      if (blockNumber < lastBlock || (blockNumber === lastBlock && logIndex <= lastIndex)) return false;
+    }
+    this.cursor = { blockNumber, logIndex };
+    return true;
+  }
+
+  /** @param job Price range of the claimed job, if the feed saw it posted */
+  private recordClaim(log: ClaimedLog, job: Partial<Pick<OpenJob, "minPrice" | "maxPrice">> | undefined) {
+    if (!job) return;
+    const { jobId, agent, paidAmount } = log.args;
+    const { minPrice, maxPrice } = job;
+    this.claims.set(jobId!, {
+      jobId: jobId!,
+      agent: agent!,
+      paidAmount: paidAmount!,
+      minPrice: minPrice!,
+      maxPrice: maxPrice!,
+    });
+    if (this.claims.size > MAX_CLAIM_HISTORY) this.claims.delete(this.claims.keys().next().value!);
+  }
+
+  private async getBlockTimestamp(blockNumber: bigint): Promise<bigint> {
+    return (await this.config.publicClient.getBlock({ blockNumber })).timestamp;
+  }
+
+  private load() {
+    const state = readJsonFile<FeedState>(this.config.statePath);
+    if (!state) return;
+    if (state.cursor) {
+      this.cursor = { blockNumber: BigInt(state.cursor.blockNumber), logIndex: state.cursor.logIndex };
+    }
+    for (const stored of state.openJobs) {
+      const job: OpenJob = {
+        id: BigInt(stored.id),
+        poster: stored.poster as Address,
+        description: stored.description,
+        minPrice: BigInt(stored.minPrice),
+        maxPrice: BigInt(stored.maxPrice),
+        auctionStart: BigInt(stored.auctionStart),
+        auctionDuration: BigInt(stored.auctionDuration),
+        workDeadline: BigInt(stored.workDeadline),
+      };
+      this.open.set(job.id, job);
+    }
+    for (const stored of state.claims ?? []) {
+      this.claims.set(BigInt(stored.jobId), {
+        jobId: BigInt(stored.jobId),
+        agent: stored.agent as Address,
+        paidAmount: BigInt(stored.paidAmount),
+        minPrice: BigInt(stored.minPrice),
+        maxPrice: BigInt(stored.maxPrice),
+      });
+    }
+  }
+
+  private save(cursor = this.cursor) {
+    const state: FeedState = {
+      cursor: cursor && { blockNumber: cursor.blockNumber.toString(), logIndex: cursor.logIndex },
+      openJobs: this.openJobs.map(job => ({
+        id: job.id.toString(),
+        poster: job.poster,
+        description: job.description,
+        minPrice: job.minPrice.toString(),
+        maxPrice: job.maxPrice.toString(),
+        auctionStart: job.auctionStart.toString(),
+        auctionDuration: job.auctionDuration.toString(),
+        workDeadline: job.workDeadline.toString(),
+      })),
+      claims: this.recentClaims.map(claim => ({
+        jobId: claim.jobId.toString(),
+        agent: claim.agent,
+        paidAmount: claim.paidAmount.toString(),
+        minPrice: claim.minPrice.toString(),
+        maxPrice: claim.maxPrice.toString(),
+      })),
+    };
+    writeJsonFile(this.config.statePath, state);
+  }
+}
+
+function cursorBefore({ blockNumber, logIndex }: PostedLog): LogCursor {
+  return logIndex! > 0
+    ? { blockNumber: blockNumber!, logIndex: logIndex! - 1 }
+    : { blockNumber: blockNumber! - 1n, logIndex: Number.MAX_SAFE_INTEGER };
+}
+
+function toOpenJob(log: PostedLog, auctionStart: bigint): OpenJob {
+  const { jobId, poster, description, minPrice, maxPrice, auctionDuration, workDeadline } = log.args;
+  return {
+    id: jobId!,
+    poster: poster!,
+    description: description!,
+    minPrice: minPrice!,
+    maxPrice: maxPrice!,
+    auctionStart,
+    auctionDuration: auctionDuration!,
+    workDeadline: workDeadline!,
+  };
+}
@@ -0,0 +1,119 @@
+import type { Artifact } from "./artifacts";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import type { Hash } from "viem";
+
+/**
+ * Where a job is in the worker's hands, in lifecycle order. `failed` means the worker has given up on it.
+ */
+export type JobStage =
+  | "evaluated"
+  | "claimSent"
+  | "claimed"
+  | "artifactProduced"
+  | "submitSent"
+  | "submitted"
+  | "failed";
+
+/** Stages in which the job is claimed by us, or about to be, but the work is not on-chain yet */
+export const IN_FLIGHT_STAGES: JobStage[] = ["claimSent", "claimed", "artifactProduced", "submitSent"];
+
+export type JournalEntry = {
+  jobId: bigint;
+  stage: JobStage;
+  /** Skill chosen for the job */
+  skill?: string;
+  claimTx?: Hash;
+  /** `claimedAt + workDeadline`: the submission must land before this timestamp */
+  deadline?: bigint;
+  artifact?: Artifact;
+  /** The artifact is a manifest around what the skill had produced when the deadline guard stopped it */
+  partial?: boolean;
+  submitTx?: Hash;
+  /** Why the job failed */
+  error?: string;
+  /** ISO timestamp of the last change */
+  updatedAt: string;
+};
+
+type StoredEntry = Omit<JournalEntry, "jobId" | "deadline"> & { jobId: string; deadline?: string };
+
+/**
+ * The worker's record of every job it has worked on, kept as an append-only JSON-lines file.
+ *
+ * Each change appends the job's full entry, so the last line for a job is its current state and a crash can at most
+ * lose the line being written. The file is compacted to one line per job when it is loaded, unless it is opened
+ * read-only, e.g. by `bounty status` while the worker is running.
+ */
+export class JobJournal {
+  private readonly jobs = new Map<bigint, JournalEntry>();
+
+  constructor(
+    private readonly path: string,
+    private readonly options: { readOnly?: boolean } = {},
+  ) {
+    this.load();
+  }
+
+  get entries(): JournalEntry[] {
+    return [...this.jobs.values()];
+  }
+
+  get(jobId: bigint): JournalEntry | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  inFlight(): JournalEntry[] {
+    return this.entries.filter(entry => IN_FLIGHT_STAGES.includes(entry.stage));
+  }
+
+  /** Moves a job to `stage`, keeping what was recorded before unless `fields` overrides it */
+  record(jobId: bigint, stage: JobStage, fields: Partial<Omit<JournalEntry, "jobId" | "stage" | "updatedAt">> = {}) {
+    if (this.options.readOnly) throw new Error(`${this.path} was opened read-only`);
+    const entry: JournalEntry = {
+      ...this.jobs.get(jobId),
+      ...fields,
+      jobId,
+      stage,
+      updatedAt: new Date().toISOString(),
+    };
+    this.jobs.set(jobId, entry);
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, `${serialize(entry)}\n`);
+    return entry;
+  }
+
+  private load() {
+    if (!existsSync(this.path)) return;
+    const lines = readFileSync(this.path, "utf-8").split("\n").filter(Boolean);
+    for (const line of lines) {
+      let stored: StoredEntry;
+      try {
+        stored = JSON.parse(line) as StoredEntry;
+      } catch {
+        // A line cut short by a crash; everything before it is intact
+        continue;
+      }
+      const entry = { ...stored, jobId: BigInt(stored.jobId), deadline: toBigInt(stored.deadline) };
+      this.jobs.set(entry.jobId, entry);
+    }
+
+    if (!this.options.readOnly && lines.length > this.jobs.size) {
+      const tmp = `${this.path}.tmp`;
+      writeFileSync(tmp, this.entries.map(entry => `${serialize(entry)}\n`).join(""));
+      renameSync(tmp, this.path);
+    }
+  }
+}
+
+function serialize(entry: JournalEntry): string {
+  return JSON.stringify({
+    ...entry,
+    jobId: entry.jobId.toString(),
+    deadline: entry.deadline?.toString(),
+  } satisfies StoredEntry);
+}
+
+function toBigInt(value: string | undefined): bigint | undefined {
+  return value === undefined ? undefined : BigInt(value);
+}
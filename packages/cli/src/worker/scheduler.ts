@@ -0,0 +1,84 @@
+export type SchedulerLimits = {
+  /** Jobs worked on at once, across all skills */
+  maxConcurrent: number;
+  /** Lower limits for individual skills, by skill name */
+  perSkill: Record<string, number>;
+};
+
+type Task = { jobId: bigint; skill: string; run: () => Promise<void> };
+
+/**
+ * Runs the worker's jobs concurrently within a global and a per-skill limit. A job holds its slot from claim to
+ * submission; jobs over the limit wait in a first-in, first-out queue and start as slots free up.
+ */
+export class JobScheduler {
+  private readonly queue: Task[] = [];
+  private readonly running = new Map<string, number>();
+  private total = 0;
+
+  constructor(
+    private readonly limits: SchedulerLimits,
+    private readonly onError: (error: Error) => void,
+  ) {}
+
+  get active(): number {
+    return this.total;
+  }
+
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  hasCapacity(skill: string): boolean {
+    const skillLimit = this.limits.perSkill[skill] ?? Infinity;
+    return this.total < this.limits.maxConcurrent && (this.running.get(skill) ?? 0) < skillLimit;
+  }
+
+  /** Starts `run` at once, whatever the limits, for jobs already claimed. It still takes a slot while it runs. */
+  runNow(jobId: bigint, skill: string, run: () => Promise<void>) {
+    this.start({ jobId, skill, run });
+  }
+
+  /** Starts `run` when there is capacity for `skill`. Returns false if it had to wait in the queue. */
+  enqueue(jobId: bigint, skill: string, run: () => Promise<void>): boolean {
+    // Anything still queued is waiting on a limit, so a job with capacity does not jump ahead of one that could start
+    if (this.hasCapacity(skill)) {
+      this.start({ jobId, skill, run });
+      return true;
+    }
+    this.queue.push({ jobId, skill, run });
+    return false;
+  }
+
+  /** Drops a queued job. Returns false if it was not queued. */
+  cancel(jobId: bigint): boolean {
+    const index = this.queue.findIndex(task => task.jobId === jobId);
+    if (index === -1) return false;
+    this.queue.splice(index, 1);
+    return true;
+  }
+
+  private start(task: Task) {
+    this.total++;
+    this.running.set(task.skill, (this.running.get(task.skill) ?? 0) + 1);
+    task
+      .run()
+      .catch(e => this.onError(e as Error))
+      .finally(() => {
+        this.total--;
+        this.running.set(task.skill, this.running.get(task.skill)! - 1);
+        this.pump();
+      });
+  }
+
+  /** Starts queued jobs in order, skipping over ones whose skill is still at its limit */
+  private pump() {
+    for (let i = 0; i < this.queue.length; ) {
+      if (this.hasCapacity(this.queue[i].skill)) {
+        this.start(this.queue.splice(i, 1)[0]);
+      } else {
+        i++;
+      }
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import type { SkillHandler } from "../types";
+
+const KEYWORDS = ["image", "avatar", "generate"];
+const COLORS = ["#FF6B6B", "#4ECDC4", "#45B7D1", "#96CEB4", "#FFEAA7", "#DDA0DD", "#98D8C8"];
+
+/**
+ * Generates a simple SVG avatar as proof of concept
+ */
+export const avatarSkill: SkillHandler = {
+  name: "avatar",
+
+  match(job) {
+    const desc = job.matchText.toLowerCase();
+    return KEYWORDS.some(keyword => desc.includes(keyword)) ? 0.9 : 0;
+  },
+
+  // Rendered locally, so it costs nothing
+  estimateCost: () => 0n,
+
+  async execute(job, { artifacts }) {
+    const bgColor = COLORS[Number(job.id) % COLORS.length];
+    const fgColor = COLORS[(Number(job.id) + 3) % COLORS.length];
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400" viewBox="0 0 400 400">
+  <rect width="400" height="400" fill="${bgColor}" rx="40"/>
+  <circle cx="200" cy="160" r="80" fill="${fgColor}" opacity="0.8"/>
+  <circle cx="170" cy="145" r="12" fill="white"/>
+  <circle cx="230" cy="145" r="12" fill="white"/>
+  <circle cx="170" cy="145" r="6" fill="#333"/>
+  <circle cx="230" cy="145" r="6" fill="#333"/>
+  <path d="M 170 185 Q 200 215 230 185" stroke="#333" stroke-width="4" fill="none" stroke-linecap="round"/>
+  <rect x="120" y="260" width="160" height="120" fill="${fgColor}" opacity="0.6" rx="20"/>
+  <text x="200" y="340" font-family="monospace" font-size="14" fill="white" text-anchor="middle">Agent #${job.id}</text>
+  <text x="200" y="390" font-family="monospace" font-size="10" fill="white" text-anchor="middle" opacity="0.7">Generated by Worker</text>
+</svg>`;
+
+    return artifacts.write(`job-${job.id}-avatar.svg`, svg, "image/svg+xml");
+  },
+};
@@ -0,0 +1,5 @@
+import { avatarSkill } from "./avatar";
+import { proofSkill } from "./proof";
+import { researchSkill } from "./research";
+
+export const BUILTIN_SKILLS = [avatarSkill, researchSkill, proofSkill];
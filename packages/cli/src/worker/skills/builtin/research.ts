@@ -0,0 +1,35 @@
+import type { SkillHandler } from "../types";
+
+const KEYWORDS = ["research", "analyze", "summarize"];
+
+/**
+ * Writes a stub research report as proof of concept
+ */
+export const researchSkill: SkillHandler = {
+  name: "research",
+
+  match(job) {
+    const desc = job.matchText.toLowerCase();
+    return KEYWORDS.some(keyword => desc.includes(keyword)) ? 0.8 : 0;
+  },
+
+  estimateCost: () => 0n,
+
+  async execute(job, { agentId, artifacts }) {
+    const report = {
+      jobId: Number(job.id),
+      type: "research",
+      description: job.description,
+      completedAt: new Date().toISOString(),
+      findings: [
+        "Analysis completed based on available data",
+        "Key insights extracted and summarized",
+        "Recommendations provided below",
+      ],
+      summary: `Research completed for job #${job.id}: "${job.description}". This is a demo submission showing the worker can handle research tasks.`,
+      agent: `ERC-8004 Agent #${agentId}`,
+    };
+
+    return artifacts.write(`job-${job.id}-research.json`, JSON.stringify(report, null, 2), "application/json");
+  },
+};
@@ -0,0 +1,5 @@
+export type { Artifact, ArtifactStore } from "../artifacts";
+export type { OpenJob } from "../feed";
+export { BUILTIN_SKILLS } from "./builtin";
+export { SkillRegistry, type SkillMatch } from "./registry";
+export type { MatchableJob, SkillContext, SkillHandler } from "./types";
@@ -0,0 +1,61 @@
+import { CliError } from "../../errors";
+import { loadPlugins } from "../../modules";
+import type { MatchableJob, SkillHandler } from "./types";
+
+export type SkillMatch = { handler: SkillHandler; confidence: number };
+
+/**
+ * The skill handlers a worker can use, by name.
+ *
+ * Handlers come from modules that export them, either as the default export (one handler or an array) or as named
+ * exports. `load` takes a module or a directory of modules, so a team can ship a skill as a single file.
+ */
+export class SkillRegistry {
+  private readonly handlers = new Map<string, SkillHandler>();
+
+  constructor(handlers: SkillHandler[] = []) {
+    handlers.forEach(handler => this.register(handler));
+  }
+
+  get all(): SkillHandler[] {
+    return [...this.handlers.values()];
+  }
+
+  get(name: string): SkillHandler | undefined {
+    return this.handlers.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.handlers.has(name);
+  }
+
+  register(handler: SkillHandler) {
+    if (this.handlers.has(handler.name)) throw new CliError(`Skill "${handler.name}" is registered twice`);
+    this.handlers.set(handler.name, handler);
+  }
+
+  /** Registers every handler exported by the module at `path`, or by each module in the directory at `path` */
+  async load(path: string) {
+    (await loadPlugins(path, isSkillHandler, "skill")).forEach(handler => this.register(handler));
+  }
+
+  /** The handler most confident it can do `job`, or undefined if none can */
+  best(job: MatchableJob): SkillMatch | undefined {
+    let best: SkillMatch | undefined;
+    for (const handler of this.handlers.values()) {
+      const confidence = handler.match(job);
+      if (confidence > 0 && (!best || confidence > best.confidence)) best = { handler, confidence };
+    }
+    return best;
+  }
+}
+
+function isSkillHandler(value: unknown): value is SkillHandler {
+  const handler = value as SkillHandler;
+  return (
+    typeof handler?.name === "string" &&
+    typeof handler.match === "function" &&
+    typeof handler.estimateCost === "function" &&
+    typeof handler.execute === "function"
+  );
+}
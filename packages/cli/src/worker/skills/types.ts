@@ -0,0 +1,44 @@
+import type { Artifact, ArtifactStore } from "../artifacts";
+import type { OpenJob } from "../feed";
+import type { Job } from "@se-2/sdk";
+
+export type SkillContext = {
+  /** The job as claimed, with `agent`, `agentId` and `claimedAt` set */
+  job: Job;
+  agentId: bigint;
+  /**
+   * Aborts a safety margin before `claimedAt + workDeadline`, leaving time to submit before `submitWork` would revert.
+   * The worker stops waiting for the handler at that point.
+   */
+  signal: AbortSignal;
+  artifacts: ArtifactStore;
+  /**
+   * Records an intermediate result. If the handler is stopped at the deadline, the latest one is submitted in a
+   * manifest that flags it as partial.
+   */
+  checkpoint(artifact: Artifact): void;
+};
+
+/** An open job as handlers judge it */
+export type MatchableJob = OpenJob & {
+  /**
+   * The words to match the job on (`jobMatchText`): a spec's title, category, tags and details, with specs posted as
+   * `ipfs://` or `http(s)://` URIs already fetched, or the legacy text
+   */
+  matchText: string;
+};
+
+/**
+ * One capability of a worker agent. The worker asks every registered handler how well it matches an open job, claims
+ * the job if the best match is good enough, and hands it to that handler to execute.
+ */
+export type SkillHandler = {
+  /** Unique name, used in logs and for per-skill settings */
+  name: string;
+  /** Confidence from 0 (cannot do this job) to 1 (certain), judged from the job alone before claiming */
+  match(job: MatchableJob): number;
+  /** What doing the job would cost the agent, in CLAWD wei */
+  estimateCost(job: OpenJob): bigint | Promise<bigint>;
+  /** Does the work and returns the artifact to submit. Should stop promptly once `ctx.signal` aborts. */
+  execute(job: Job, ctx: SkillContext): Promise<Artifact>;
+};
@@ -0,0 +1,413 @@
+import { formatClawd, formatDuration, nowSeconds, toJson } from "../output";
+import type { Artifact, ArtifactStore } from "./artifacts";
+import type { BiddingStrategy } from "./bidding";
+import type { JobFeed, OpenJob } from "./feed";
+import type { JobJournal } from "./journal";
+import type { JobScheduler } from "./scheduler";
+import type { SkillHandler, SkillRegistry } from "./skills";
+import {
+  type BountyBoardClient,
+  type Job,
+  JobStatus,
+  TransactionError,
+  getAuctionPrice,
+  getAuctionTimeAtPrice,
+  jobMatchText,
+  loadJobSpec,
+  parseJobDescription,
+  summarizeJob,
+} from "@se-2/sdk";
+import { type Address, BaseError, type Hash } from "viem";
+
+/** setTimeout fires immediately for longer delays; claims further out are re-armed when this runs out */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+/** How long `recover` waits for a claim the previous run left pending before evaluating the job afresh */
+const PENDING_CLAIM_TIMEOUT_MS = 60_000;
+
+export type WorkerOptions = {
+  agentId: bigint;
+  /** The signer's address, which claims show up under */
+  address: Address;
+  /** Seconds before a job's work deadline at which its skill is stopped, leaving time to submit */
+  deadlineMargin: bigint;
+  /**
+   * What to do with a job whose skill the deadline guard stopped: submit its latest checkpoint as a partial result,
+   * or leave the job to the operator. Either way the operator is alerted when there is nothing to submit.
+   */
+  onDeadline: "partial" | "alert";
+  /** Where specs posted as `ipfs://` URIs are fetched from, so skills match on their words */
+  ipfsGateway: string;
+  /** Also fetch specs posted as `http(s)://` URIs (see `loadJobSpec`) */
+  httpSpecs: boolean;
+  json: boolean;
+};
+
+/**
+ * Claims open jobs it can do, does the work and submits it.
+ *
+ * Each open job in the feed is evaluated once: the skill most confident it can do the job estimates the cost, the
+ * bidding strategy turns that into the lowest acceptable price, and the claim is scheduled for the moment the rising
+ * auction price reaches it. A job claimed or cancelled by someone else in the meantime is dropped. When that moment
+ * comes the job goes to the scheduler, which only lets the claim through while there is capacity for its skill, so
+ * the worker never claims more than it can finish.
+ *
+ * Every step is recorded in the journal before and after it happens, so `recover` can pick up jobs a previous run
+ * left between claiming and submitting.
+ *
+ * Claimed jobs are guarded against their work deadline: `deadlineMargin` seconds before it the skill is aborted and
+ * the worker stops waiting for it, so there is still time to submit whatever it checkpointed.
+ */
+export class Worker {
+  /** Jobs already evaluated */
+  private readonly evaluated = new Set<bigint>();
+  private readonly scheduled = new Map<bigint, NodeJS.Timeout>();
+
+  constructor(
+    private readonly board: BountyBoardClient,
+    private readonly feed: JobFeed,
+    private readonly skills: SkillRegistry,
+    private readonly strategy: BiddingStrategy,
+    private readonly artifacts: ArtifactStore,
+    private readonly journal: JobJournal,
+    private readonly scheduler: JobScheduler,
+    private readonly options: WorkerOptions,
+  ) {}
+
+  start() {
+    this.feed.openJobs.forEach(job => void this.evaluate(job));
+  }
+
+  /**
+   * Reconciles the journal's in-flight jobs with the contract and starts whatever is left to do: the work for a job
+   * we hold without an artifact, the submission for one with an artifact. These start regardless of capacity, as the
+   * jobs are already ours. Jobs past their deadline or lost to a competitor are marked failed. A claim the previous run
+   * left pending is waited for first, so a job it is about to land on isn't taken for open.
+   */
+  async recover() {
+    for (const entry of this.journal.inFlight()) {
+      const { jobId } = entry;
+      let job = await this.board.getJob(jobId);
+      if (job.status === JobStatus.Open && entry.stage === "claimSent" && entry.claimTx) {
+        if (await this.claimLanded(entry.claimTx)) job = await this.board.getJob(jobId);
+      }
+
+      if (!this.isOurs(job)) {
+        if (job.status === JobStatus.Open) {
+          // The claim never landed; the job is evaluated again like any other open job
+          this.journal.record(jobId, "evaluated");
+        } else {
+          this.fail(jobId, "claimed by another agent");
+        }
+        continue;
+      }
+
+      if (job.status !== JobStatus.Claimed) {
+        if (job.status === JobStatus.Expired) {
+          this.fail(jobId, "expired before the work was submitted");
+        } else {
+          this.journal.record(jobId, "submitted");
+          this.report("recovered", { jobId, stage: "submitted" }, `   ♻️  Job #${jobId}: submission had landed`);
+        }
+        continue;
+      }
+
+      if (nowSeconds() >= job.claimedAt + job.workDeadline) {
+        this.fail(jobId, "work deadline passed while the worker was down");
+        continue;
+      }
+
+      const skill = entry.skill ? this.skills.get(entry.skill) : undefined;
+      if (!entry.artifact && !skill) {
+        this.fail(jobId, `skill "${entry.skill}" is no longer registered`);
+        continue;
+      }
+
+      this.journal.record(jobId, "claimed", { deadline: job.claimedAt + job.workDeadline });
+      this.report(
+        "recovered",
+        { jobId, stage: entry.stage },
+        `   ♻️  Job #${jobId}: resuming from ${entry.stage}${entry.artifact ? " (artifact ready)" : ""}`,
+      );
+      this.scheduler.runNow(jobId, entry.skill ?? "", () => this.work(job, skill, entry.artifact));
+    }
+  }
+
+  stop() {
+    this.scheduled.forEach(timer => clearTimeout(timer));
+    this.scheduled.clear();
+  }
+
+  onJobOpened(job: OpenJob) {
+    this.report("opened", { jobId: job.id }, `📥 Job #${job.id} posted: "${jobTitle(job).slice(0, 60)}"`);
+    void this.evaluate(job);
+  }
+
+  onJobClosed(jobId: bigint, reason: "claimed" | "cancelled") {
+    const timer = this.scheduled.get(jobId);
+    clearTimeout(timer);
+    this.scheduled.delete(jobId);
+    if (!timer && !this.scheduler.cancel(jobId)) return;
+    this.report("closed", { jobId, reason }, `   🚪 Job #${jobId} ${reason} before we claimed it`);
+  }
+
+  private async evaluate(job: OpenJob) {
+    if (this.evaluated.has(job.id)) return;
+    this.evaluated.add(job.id);
+    const stage = this.journal.get(job.id)?.stage;
+    if (stage && stage !== "evaluated") return;
+    try {
+      const loaded = await loadJobSpec(job.description, this.options.ipfsGateway, {
+        allowHttp: this.options.httpSpecs,
+      });
+      const matchText = jobMatchText(job.description, loaded);
+      const match = this.skills.best({ ...job, matchText });
+      if (!match) {
+        this.report(
+          "skipped",
+          { jobId: job.id },
+          `   ⏭️  Job #${job.id}: "${jobTitle(job).slice(0, 50)}..." — not in my skill set`,
+        );
+        return;
+      }
+      if (job.workDeadline <= this.options.deadlineMargin) {
+        this.report(
+          "skipped",
+          { jobId: job.id, workDeadline: job.workDeadline },
+          `   ⏭️  Job #${job.id}: work deadline of ${formatDuration(job.workDeadline)} is within the safety margin`,
+        );
+        return;
+      }
+
+      const cost = await match.handler.estimateCost(job);
+      const target = this.strategy.targetPrice(job, cost);
+      // Never claim below what the work costs
+      const price = target === undefined || target < cost ? cost : target;
+      const claimAt = target === undefined ? undefined : getAuctionTimeAtPrice(job, price);
+      if (claimAt === undefined) {
+        this.report(
+          "passed",
+          { jobId: job.id, skill: match.handler.name, cost, target },
+          `   💸 Job #${job.id}: maxPrice ${formatClawd(job.maxPrice)} is below our price (${this.strategy.name})`,
+        );
+        return;
+      }
+
+      const claimPrice = getAuctionPrice(job, claimAt);
+      const wait = claimAt - nowSeconds();
+      this.report(
+        "scheduled",
+        { jobId: job.id, skill: match.handler.name, cost, claimAt, price: claimPrice },
+        `   ⏰ Job #${job.id}: claiming at ${formatClawd(claimPrice)} ${wait > 0n ? `in ${formatDuration(wait)}` : "now"}`,
+      );
+      this.journal.record(job.id, "evaluated", { skill: match.handler.name });
+      this.schedule(job, match.handler, claimAt);
+    } catch (e) {
+      this.report("error", { jobId: job.id, error: errorMessage(e) }, `❌ Job #${job.id}: ${errorMessage(e)}`);
+    }
+  }
+
+  private schedule(job: OpenJob, skill: SkillHandler, claimAt: bigint) {
+    const delayMs = Number(claimAt) * 1000 - Date.now();
+    const timer = setTimeout(
+      () => {
+        this.scheduled.delete(job.id);
+        if (Number(claimAt) * 1000 > Date.now()) return this.schedule(job, skill, claimAt);
+        if (!this.feed.has(job.id)) return;
+        if (!this.scheduler.enqueue(job.id, skill.name, () => this.claimAndWork(job, skill))) {
+          const { active, queued } = this.scheduler;
+          this.report(
+            "queued",
+            { jobId: job.id, skill: skill.name, active, queued },
+            `   ⏳ Job #${job.id}: at capacity (${active} running), queued behind ${queued - 1} other(s)`,
+          );
+        }
+      },
+      Math.min(Math.max(delayMs, 0), MAX_TIMER_MS),
+    );
+    this.scheduled.set(job.id, timer);
+  }
+
+  private async claimAndWork(openJob: OpenJob, skill: SkillHandler) {
+    const { id: jobId } = openJob;
+    // It may have waited in the scheduler's queue while someone else claimed it
+    if (!this.feed.has(jobId)) return;
+    const currentPrice = getAuctionPrice(openJob, nowSeconds());
+    this.report(
+      "claiming",
+      { jobId, skill: skill.name, price: currentPrice },
+      `\n   🎯 Job #${jobId}: "${openJob.description.slice(0, 60)}"\n   💰 Claiming at ${formatClawd(currentPrice)} for ${skill.name}`,
+    );
+    let claimTx: Hash | undefined;
+    let job: Job;
+    try {
+      this.journal.record(jobId, "claimSent", { skill: skill.name });
+      try {
+        ({ hash: claimTx } = await this.board.claimJob(jobId, this.options.agentId, {
+          onSent: hash => this.journal.record(jobId, "claimSent", { claimTx: hash }),
+        }));
+      } catch (e) {
+        // Not necessarily lost: a claim of ours sent before a restart may be the one that got there first
+        if (!(e instanceof TransactionError && e.errorName === "JobNotOpen")) throw e;
+      }
+      job = await this.board.getJob(jobId);
+    } catch (e) {
+      if (!claimTx) return this.fail(jobId, `claim failed: ${errorMessage(e)}`);
+      // The claim landed, so the next run's `recover` resumes the job from here
+      this.journal.record(jobId, "claimed", { claimTx });
+      this.report("error", { jobId, error: errorMessage(e) }, `   ❌ Job #${jobId}: ${errorMessage(e)}`);
+      return;
+    }
+    if (!this.isOurs(job)) return this.fail(jobId, "claimed by another agent first");
+
+    const deadline = job.claimedAt + job.workDeadline;
+    this.journal.record(jobId, "claimed", claimTx ? { claimTx, deadline } : { deadline });
+    this.report(
+      "claimed",
+      { jobId, hash: claimTx },
+      claimTx ? `   ✅ Claimed! TX: ${claimTx}` : "   ✅ Claimed by a claim sent before the restart",
+    );
+    await this.work(job, skill);
+  }
+
+  /**
+   * Executes the skill unless an artifact already exists, then submits the artifact.
+   * On failure the job stays at its last recorded stage, so the next run's `recover` retries it, unless the contract
+   * refused the submission.
+   * @param skill Only needed without an artifact
+   */
+  private async work(job: Job, skill: SkillHandler | undefined, artifact?: Artifact) {
+    const jobId = job.id;
+    try {
+      if (!artifact) {
+        if (!skill) throw new Error("no skill to produce the artifact");
+        artifact = await this.execute(job, skill);
+        if (!artifact) return;
+      }
+
+      this.journal.record(jobId, "submitSent");
+      const { hash: submitTx } = await this.board.submitWork(jobId, artifact.uri);
+      this.journal.record(jobId, "submitted", { submitTx });
+      this.report(
+        "submitted",
+        { jobId, hash: submitTx, submissionURI: artifact.uri },
+        `   ✅ Work submitted! TX: ${submitTx}\n   📦 URI: ${artifact.uri}`,
+      );
+    } catch (e) {
+      if (e instanceof TransactionError && e.kind === "contract") {
+        this.fail(jobId, errorMessage(e));
+      } else {
+        this.report("error", { jobId, error: errorMessage(e) }, `   ❌ Job #${jobId}: ${errorMessage(e)}`);
+      }
+    }
+  }
+
+  /**
+   * Runs the skill under the deadline guard. Returns the artifact to submit, or undefined if the guard stopped the
+   * skill and there is nothing the worker should submit.
+   */
+  private async execute(job: Job, skill: SkillHandler): Promise<Artifact | undefined> {
+    const guardAt = job.claimedAt + job.workDeadline - this.options.deadlineMargin;
+    const signal = AbortSignal.timeout(Math.max(Number(guardAt) * 1000 - Date.now(), 0));
+    let checkpoint = undefined as Artifact | undefined;
+    try {
+      const artifact = await untilAborted(
+        skill.execute(job, {
+          job,
+          agentId: this.options.agentId,
+          signal,
+          artifacts: this.artifacts,
+          checkpoint: artifact => (checkpoint = artifact),
+        }),
+        signal,
+      );
+      this.journal.record(job.id, "artifactProduced", { artifact });
+      const { uri, mimeType, size, path } = artifact;
+      this.report("produced", { jobId: job.id, uri, mimeType, size, path }, `   📄 ${mimeType} artifact: ${path}`);
+      return artifact;
+    } catch (e) {
+      if (!signal.aborted) throw e;
+    }
+
+    const left = formatDuration(job.claimedAt + job.workDeadline - nowSeconds());
+    if (this.options.onDeadline === "alert" || !checkpoint) {
+      const reason = checkpoint ? "left to the operator" : "nothing to submit";
+      this.fail(job.id, `stopped by the deadline guard with ${left} left; ${reason}`);
+      this.alert(job.id, `Job #${job.id} needs attention: ${skill.name} did not finish, ${left} left to submit`);
+      return undefined;
+    }
+
+    const manifest = {
+      partial: true,
+      jobId: job.id.toString(),
+      reason: `${skill.name} was stopped ${left} before the work deadline`,
+      artifact: { uri: checkpoint.uri, cid: checkpoint.cid, mimeType: checkpoint.mimeType, size: checkpoint.size },
+      createdAt: new Date().toISOString(),
+    };
+    const artifact = await this.artifacts.write(
+      `job-${job.id}-partial.json`,
+      JSON.stringify(manifest, null, 2),
+      "application/json",
+    );
+    this.journal.record(job.id, "artifactProduced", { artifact, partial: true });
+    this.report(
+      "partial",
+      { jobId: job.id, path: artifact.path, checkpoint: checkpoint.path },
+      `   ⏱️  Job #${job.id}: stopped ${left} before the deadline, submitting the partial result`,
+    );
+    return artifact;
+  }
+
+  private isOurs(job: Job): boolean {
+    return job.agent.toLowerCase() === this.options.address.toLowerCase();
+  }
+
+  /** Waits for a claim sent before a restart; false if it reverted, or isn't mined in time and probably never will be */
+  private async claimLanded(hash: Hash): Promise<boolean> {
+    try {
+      const receipt = await this.board.publicClient.waitForTransactionReceipt({
+        hash,
+        timeout: PENDING_CLAIM_TIMEOUT_MS,
+      });
+      return receipt.status === "success";
+    } catch {
+      return false;
+    }
+  }
+
+  private fail(jobId: bigint, error: string) {
+    this.journal.record(jobId, "failed", { error });
+    this.report("failed", { jobId, error }, `   ❌ Job #${jobId}: ${error}`);
+  }
+
+  /** Something the operator has to act on. Without --json it goes to stderr with a terminal bell, to stand out. */
+  private alert(jobId: bigint, message: string) {
+    if (this.options.json) {
+      this.report("alert", { jobId, message }, message);
+    } else {
+      console.error(`\u0007🚨 ${message}`);
+    }
+  }
+
+  /** One JSON object per line with --json, otherwise the human-readable message */
+  private report(event: string, fields: Record<string, unknown>, message: string) {
+    console.log(this.options.json ? toJson({ event, ...fields }) : message);
+  }
+}
+
+/** Settles with `promise`, or rejects as soon as `signal` aborts, whether or not the promise honours it */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) reject(signal.reason);
+    signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+    promise.then(resolve, reject);
+  });
+}
+
+/** The spec's title, or the start of a plain-text description */
+function jobTitle(job: OpenJob): string {
+  return summarizeJob(parseJobDescription(job.description)).title;
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof BaseError ? e.shortMessage : (e as Error).message;
+}
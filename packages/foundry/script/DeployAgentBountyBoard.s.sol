@@ -9,7 +9,10 @@ contract DeployAgentBountyBoard is ScaffoldETHDeploy {
         // CLAWD token on Base: 0x9f86dB9fc6f7c9408e8Fda3Ff8ce4e78ac7a6b07
         // For local fork testing, this address will have the real CLAWD state
         address clawdToken = 0x9f86dB9fc6f7c9408e8Fda3Ff8ce4e78ac7a6b07;
+        // The ERC-8004 registry lives on Ethereum mainnet and cannot be called from Base,
+        // so agent verification starts disabled. The owner can enable it with setAgentRegistry.
+        address agentRegistry = address(0);
         
-        new AgentBountyBoard(clawdToken);
+        new AgentBountyBoard(clawdToken, agentRegistry);
     }
 }
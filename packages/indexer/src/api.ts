@@ -0,0 +1,284 @@
+import { decodeJobCursor, encodeCursor } from "./cursor";
+import {
+  type BoardStore,
+  JOB_SORT_FIELDS,
+  type JobQuery,
+  type JobSortField,
+  LEADERBOARD_SORT_FIELDS,
+  LEADERBOARD_WINDOWS,
+  type LeaderboardQuery,
+} from "./store";
+import { JobStatus, MAX_FEEDBACK_LENGTH, feedbackMessage } from "@se-2/sdk";
+import { type GraphQLSchema, graphql } from "graphql";
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from "http";
+import { type Address, type Hex, isAddress, isHex, recoverMessageAddress } from "viem";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+/** Largest request body read; feedback and GraphQL queries are far smaller */
+const MAX_BODY_SIZE = 64 * 1024;
+/** How far ahead of the indexer's clock a feedback signature's `signedAt` may be */
+const MAX_CLOCK_SKEW = 300n;
+
+export type IndexerStatus = {
+  chainId: number;
+  board: string;
+  /** Last block indexed, if any */
+  indexedBlock?: bigint;
+  /** Chain head as of the last sync */
+  head?: bigint;
+};
+
+/** A request the API rejects, answered with its status code and message */
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * The indexer's HTTP API. Amounts and other uint256 values are decimal strings; `status` is the numeric `JobStatus`.
+ *
+ * - `GET /api/jobs?status=&poster=&agent=&q=&priceMin=&priceMax=&sort=&cursor=&limit=` — a page of jobs.
+ *   `status` takes comma-separated names (`open,claimed`); `q` searches descriptions; `priceMin`/`priceMax` bound the
+ *   current price (the live auction price while open, else what the job was claimed for); `sort` is one of `id`,
+ *   `minPrice`, `maxPrice`, `paidAmount`, `auctionEnd`, `currentPrice`, prefixed with `-` for descending (default
+ *   `-id`); `auctionEnd` ranks open jobs still being auctioned first; `cursor` is the previous response's `nextCursor`.
+ * - `GET /api/jobs/:id` — one job.
+ * - `POST /api/jobs/:id/feedback` — `{ feedback, signedAt, signature }`: the poster's written feedback, signed over
+ *   `feedbackMessage` from an EOA at `signedAt` (Unix seconds). Accepted once work is submitted, replacing feedback
+ *   signed earlier; feedback signed before what is stored is refused, so an old signature can't be replayed.
+ * - `GET /api/leaderboard?window=&sort=&limit=` — agents ranked over `window` (`7d`, `30d` or `all`, the default) by
+ *   `sort`: one of `completedJobs` (the default), `totalEarned`, `averageRating`, `disputeRatio`,
+ *   `medianClaimDiscount`, `expiredJobs`, `jobsClaimed`, prefixed with `-` for descending. Ratios are 0-1.
+ * - `GET /api/status` — chain, board and how far indexing has got.
+ * - `POST /graphql` — queries against `schema` (subscriptions go over WebSocket, see index.ts).
+ */
+export function createApiServer(store: BoardStore, schema: GraphQLSchema, status: () => IndexerStatus): Server {
+  return createServer((req, res) => {
+    route(store, schema, status, req, res).catch(e => {
+      const error = e instanceof ApiError ? e : new ApiError(500, (e as Error).message);
+      send(res, error.status, { error: error.message });
+    });
+  });
+}
+
+async function route(
+  store: BoardStore,
+  schema: GraphQLSchema,
+  status: () => IndexerStatus,
+  req: IncomingMessage,
+  res: ServerResponse,
+) {
+  if (req.method === "OPTIONS") return send(res, 204);
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const path = url.pathname.replace(/\/+$/, "");
+  if (path === "/graphql") return send(res, 200, await executeGraphql(schema, req));
+  const feedbackJobId = path.match(/^\/api\/jobs\/(\d+)\/feedback$/)?.[1];
+  if (feedbackJobId !== undefined)
+    return send(res, 200, await saveFeedback(store, status(), BigInt(feedbackJobId), req));
+
+  if (req.method !== "GET") throw new ApiError(405, "Only GET is supported");
+  if (path === "/api/status") return send(res, 200, status());
+  if (path === "/api/leaderboard")
+    return send(res, 200, { agents: store.leaderboard(parseLeaderboardQuery(url.searchParams)) });
+  if (path === "/api/jobs") {
+    const query = parseJobQuery(url.searchParams);
+    const page = store.listJobs(query);
+    return send(res, 200, {
+      jobs: page.jobs,
+      total: page.total,
+      nextCursor:
+        page.next && encodeCursor(url.searchParams.get("sort") ?? "-id", [page.next.value, page.next.id, query.at]),
+      indexedBlock: status().indexedBlock,
+    });
+  }
+  const jobId = path.match(/^\/api\/jobs\/(\d+)$/)?.[1];
+  if (jobId !== undefined) {
+    const job = store.getJob(BigInt(jobId));
+    if (!job) throw new ApiError(404, `Job #${jobId} not found`);
+    return send(res, 200, job);
+  }
+  throw new ApiError(404, `No route for ${path}`);
+}
+
+function parseJobQuery(params: URLSearchParams): JobQuery & { at: bigint } {
+  const sortParam = params.get("sort") ?? "-id";
+  const descending = sortParam.startsWith("-");
+  const sort = sortParam.replace(/^-/, "");
+  if (!(sort in JOB_SORT_FIELDS)) {
+    throw new ApiError(
+      400,
+      `sort must be one of ${Object.keys(JOB_SORT_FIELDS).join(", ")}, optionally prefixed with -`,
+    );
+  }
+
+  const statuses = params
+    .get("status")
+    ?.split(",")
+    .filter(Boolean)
+    .map(name => {
+      const status = Object.entries(JobStatus).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1];
+      if (typeof status !== "number") throw new ApiError(400, `Unknown status "${name}"`);
+      return status as JobStatus;
+    });
+
+  const poster = params.get("poster") ?? undefined;
+  const agent = params.get("agent") ?? undefined;
+  for (const [name, address] of [
+    ["poster", poster],
+    ["agent", agent],
+  ]) {
+    if (address !== undefined && !isAddress(address)) throw new ApiError(400, `Invalid ${name} address: ${address}`);
+  }
+
+  const [priceMin, priceMax] = ["priceMin", "priceMax"].map(name => {
+    const value = params.get(name);
+    if (value === null || value === "") return undefined;
+    if (!/^\d+$/.test(value)) throw new ApiError(400, `${name} must be a whole number of wei`);
+    return BigInt(value);
+  });
+
+  const limit = Number(params.get("limit") ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ApiError(400, `limit must be from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  const cursor = params.get("cursor");
+  const position = cursor ? decodeJobCursor(sortParam, cursor) : undefined;
+  if (cursor && !position) throw new ApiError(400, "Invalid cursor for this sort");
+  return {
+    statuses,
+    poster: poster as JobQuery["poster"],
+    agent: agent as JobQuery["agent"],
+    search: params.get("q") ?? undefined,
+    priceMin,
+    priceMax,
+    sort: sort as JobSortField,
+    descending,
+    after: position?.after,
+    at: position?.at ?? BigInt(Math.floor(Date.now() / 1000)),
+    limit,
+  };
+}
+
+function parseLeaderboardQuery(params: URLSearchParams): LeaderboardQuery {
+  const window = params.get("window") ?? "all";
+  if (!(window in LEADERBOARD_WINDOWS)) {
+    throw new ApiError(400, `window must be one of ${Object.keys(LEADERBOARD_WINDOWS).join(", ")}`);
+  }
+  const sortParam = params.get("sort") ?? "-completedJobs";
+  const sort = sortParam.replace(/^-/, "") as LeaderboardQuery["sort"];
+  if (!LEADERBOARD_SORT_FIELDS.includes(sort)) {
+    throw new ApiError(400, `sort must be one of ${LEADERBOARD_SORT_FIELDS.join(", ")}, optionally prefixed with -`);
+  }
+  const limit = Number(params.get("limit") ?? MAX_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ApiError(400, `limit must be from 1 to ${MAX_PAGE_SIZE}`);
+  }
+  const seconds = LEADERBOARD_WINDOWS[window];
+  return {
+    since: seconds === undefined ? undefined : BigInt(Math.floor(Date.now() / 1000) - seconds),
+    sort,
+    descending: sortParam.startsWith("-"),
+    limit,
+  };
+}
+
+async function saveFeedback(store: BoardStore, status: IndexerStatus, jobId: bigint, req: IncomingMessage) {
+  if (req.method !== "POST") throw new ApiError(405, "Send feedback as POST");
+  const { feedback, signedAt, signature } = await readJson<{
+    feedback?: unknown;
+    signedAt?: unknown;
+    signature?: unknown;
+  }>(req, "{ feedback, signedAt, signature }");
+  if (typeof feedback !== "string" || !feedback.trim()) throw new ApiError(400, "feedback must be a non-empty string");
+  if (feedback.length > MAX_FEEDBACK_LENGTH) {
+    throw new ApiError(400, `feedback must be at most ${MAX_FEEDBACK_LENGTH} characters`);
+  }
+  if (!/^\d+$/.test(String(signedAt))) throw new ApiError(400, "signedAt must be a Unix timestamp in seconds");
+  const signedAtSeconds = BigInt(String(signedAt));
+  if (signedAtSeconds > BigInt(Math.floor(Date.now() / 1000)) + MAX_CLOCK_SKEW) {
+    throw new ApiError(400, "signedAt is in the future");
+  }
+  if (typeof signature !== "string" || !isHex(signature)) throw new ApiError(400, "signature must be a hex string");
+
+  const job = store.getJob(jobId);
+  if (!job) throw new ApiError(404, `Job #${jobId} not found`);
+  if (![JobStatus.Submitted, JobStatus.Completed, JobStatus.Disputed].includes(job.status)) {
+    throw new ApiError(409, `Job #${jobId} has no submitted work to give feedback on`);
+  }
+
+  const message = feedbackMessage({
+    chainId: status.chainId,
+    board: status.board as Address,
+    jobId,
+    feedback,
+    signedAt: signedAtSeconds,
+  });
+  let signer: Address;
+  try {
+    signer = await recoverMessageAddress({ message, signature: signature as Hex });
+  } catch {
+    throw new ApiError(400, "signature is malformed");
+  }
+  if (signer.toLowerCase() !== job.poster.toLowerCase()) {
+    throw new ApiError(403, `Feedback must be signed by the job's poster ${job.poster}`);
+  }
+
+  if (!store.setFeedback(jobId, feedback, signature as Hex, signedAtSeconds)) {
+    throw new ApiError(409, `Job #${jobId} already has feedback signed after this`);
+  }
+  return store.getJob(jobId);
+}
+
+async function executeGraphql(schema: GraphQLSchema, req: IncomingMessage) {
+  if (req.method !== "POST") throw new ApiError(405, "Send GraphQL operations as POST, or subscribe over WebSocket");
+  const body = await readJson<{ query?: unknown; variables?: Record<string, unknown>; operationName?: string }>(
+    req,
+    "{ query, variables, operationName }",
+  );
+  if (typeof body.query !== "string") throw new ApiError(400, "query must be a string");
+  return graphql({
+    schema,
+    source: body.query,
+    variableValues: body.variables,
+    operationName: body.operationName,
+  });
+}
+
+async function readJson<T>(req: IncomingMessage, shape: string): Promise<T> {
+  const tooLarge = new ApiError(413, `Body must be at most ${MAX_BODY_SIZE} bytes`);
+  if (Number(req.headers["content-length"] ?? 0) > MAX_BODY_SIZE) throw tooLarge;
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_SIZE) throw tooLarge;
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString()) as T;
+  } catch {
+    throw new ApiError(400, `Body must be JSON: ${shape}`);
+  }
+}
+
+function send(res: ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+    ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+  });
+  res.end(
+    body === undefined
+      ? undefined
+      : JSON.stringify(body, (_key, value) => (typeof value === "bigint" ? value.toString() : value)),
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * Fans the ids of jobs the indexer changed out to GraphQL subscriptions.
+ */
+export class ChangeFeed {
+  private readonly listeners = new Set<(jobIds: bigint[]) => void>();
+
+  publish(jobIds: bigint[]) {
+    for (const listener of this.listeners) listener(jobIds);
+  }
+
+  /**
+   * Iterates over what `select` makes of each change, in order, until the subscriber stops. Changes `select` returns
+   * nothing for are skipped.
+   */
+  subscribe<T>(select: (jobIds: bigint[]) => T[]): AsyncIterableIterator<T> {
+    const queue: T[] = [];
+    let wake: (() => void) | undefined;
+    let done = false;
+
+    const listener = (jobIds: bigint[]) => {
+      queue.push(...select(jobIds));
+      wake?.();
+    };
+    this.listeners.add(listener);
+
+    const finish = async (): Promise<IteratorResult<T>> => {
+      done = true;
+      this.listeners.delete(listener);
+      wake?.();
+      return { done: true, value: undefined };
+    };
+
+    return {
+      async next() {
+        while (!queue.length && !done) await new Promise<void>(resolve => (wake = resolve));
+        wake = undefined;
+        return done ? { done: true, value: undefined } : { done: false, value: queue.shift() as T };
+      },
+      return: finish,
+      throw: finish,
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+}
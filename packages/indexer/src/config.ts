@@ -0,0 +1,80 @@
+import { getBountyBoardDeployment } from "@se-2/sdk";
+import { resolve } from "path";
+import { type Address, type PublicClient, isAddress } from "viem";
+
+const DEFAULT_RPC_URL = "http://127.0.0.1:8545";
+const DEFAULT_DB_PATH = ".indexer/board.sqlite";
+const DEFAULT_PORT = 4000;
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+/** Blocks behind the head that are indexed anyway; reorgs deeper than what the store keeps are not recoverable */
+const DEFAULT_CONFIRMATIONS = 0;
+const DEFAULT_IPFS_GATEWAY = "https://ipfs.io";
+
+/**
+ * Indexer settings, all from the environment:
+ *
+ * | Variable | Default |
+ * | --- | --- |
+ * | `RPC_URL` | `http://127.0.0.1:8545` |
+ * | `BOARD_ADDRESS` | the board in deployedContracts.ts for the RPC's chain |
+ * | `START_BLOCK` | the board's `deployedOnBlock`, or 0 |
+ * | `INDEXER_DB` | `.indexer/board.sqlite` |
+ * | `PORT` | 4000 |
+ * | `POLL_INTERVAL_MS` | 2000 |
+ * | `CONFIRMATIONS` | 0 |
+ * | `IPFS_GATEWAY` | `https://ipfs.io` |
+ * | `HTTP_SPECS` | off; `1` or `true` also fetches specs posted as http(s):// URIs, from public hosts |
+ */
+export type IndexerConfig = {
+  rpcUrl: string;
+  chainId: number;
+  board: Address;
+  startBlock: bigint;
+  dbPath: string;
+  port: number;
+  pollIntervalMs: number;
+  confirmations: bigint;
+  /** Where specs posted as `ipfs://` URIs are fetched from */
+  ipfsGateway: string;
+  /** Also fetch specs posted as `http(s)://` URIs; off by default since the poster picks the URL */
+  httpSpecs: boolean;
+};
+
+export async function loadConfig(publicClient: PublicClient, rpcUrl = rpcUrlFromEnv()): Promise<IndexerConfig> {
+  const { env } = process;
+  let chainId: number;
+  try {
+    chainId = await publicClient.getChainId();
+  } catch {
+    throw new Error(`Could not reach ${rpcUrl}. Is the node running?`);
+  }
+
+  const deployment = getBountyBoardDeployment(chainId);
+  const board = env.BOARD_ADDRESS ?? deployment?.address;
+  if (!board) throw new Error(`No AgentBountyBoard deployment for chain ${chainId}. Set BOARD_ADDRESS.`);
+  if (!isAddress(board)) throw new Error(`Invalid BOARD_ADDRESS: ${board}`);
+  const deployedOnBlock =
+    deployment?.address.toLowerCase() === board.toLowerCase() ? deployment.deployedOnBlock : undefined;
+
+  return {
+    rpcUrl,
+    chainId,
+    board,
+    startBlock: env.START_BLOCK ? parseWhole("START_BLOCK", env.START_BLOCK) : (deployedOnBlock ?? 0n),
+    dbPath: resolve(env.INDEXER_DB ?? DEFAULT_DB_PATH),
+    port: Number(parseWhole("PORT", env.PORT ?? String(DEFAULT_PORT))),
+    pollIntervalMs: Number(parseWhole("POLL_INTERVAL_MS", env.POLL_INTERVAL_MS ?? String(DEFAULT_POLL_INTERVAL_MS))),
+    confirmations: parseWhole("CONFIRMATIONS", env.CONFIRMATIONS ?? String(DEFAULT_CONFIRMATIONS)),
+    ipfsGateway: env.IPFS_GATEWAY ?? DEFAULT_IPFS_GATEWAY,
+    httpSpecs: ["1", "true"].includes(env.HTTP_SPECS?.toLowerCase() ?? ""),
+  };
+}
+
+export function rpcUrlFromEnv(): string {
+  return process.env.RPC_URL ?? DEFAULT_RPC_URL;
+}
+
+function parseWhole(name: string, value: string): bigint {
+  if (!/^\d+$/.test(value)) throw new Error(`${name} must be a whole number, got "${value}"`);
+  return BigInt(value);
+}
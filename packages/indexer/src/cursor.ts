@@ -0,0 +1,45 @@
+import type { JobQuery } from "./store";
+
+/**
+ * Cursors are opaque to clients: the ordering they were made for, then the position after which the next page starts.
+ * A cursor is only accepted back with the same ordering.
+ */
+export function encodeCursor(ordering: string, position: (string | number | bigint)[]): string {
+  const json = JSON.stringify([
+    ordering,
+    ...position.map(value => (typeof value === "bigint" ? value.toString() : value)),
+  ]);
+  return Buffer.from(json).toString("base64url");
+}
+
+/** The position in a cursor, or undefined if it is malformed or was made for another ordering */
+export function decodePosition(ordering: string, cursor: string): (string | number)[] | undefined {
+  try {
+    const [cursorOrdering, ...position] = JSON.parse(Buffer.from(cursor, "base64url").toString()) as unknown[];
+    if (cursorOrdering !== ordering) return undefined;
+    if (!position.every(value => typeof value === "string" || typeof value === "number")) return undefined;
+    return position as (string | number)[];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A job list cursor: the last job's sort value and id, and the time the first page took current prices at, so later
+ * pages rank by the same prices.
+ */
+export function decodeJobCursor(
+  ordering: string,
+  cursor: string,
+): Required<Pick<JobQuery, "after" | "at">> | undefined {
+  const [value, id, at] = decodePosition(ordering, cursor) ?? [];
+  if (value === undefined || typeof id !== "string" || !/^\d+$/.test(id)) return undefined;
+  if (typeof at !== "string" || !/^\d+$/.test(at)) return undefined;
+  return { after: { value, id: BigInt(id) }, at: BigInt(at) };
+}
+
+/** An offset cursor, for ranked lists */
+export function decodeOffsetCursor(ordering: string, cursor: string): number | undefined {
+  const [offset] = decodePosition(ordering, cursor) ?? [];
+  return typeof offset === "number" && Number.isInteger(offset) && offset >= 0 ? offset : undefined;
+}
@@ -0,0 +1,251 @@
+import type { ChangeFeed } from "./changes";
+import { decodeJobCursor, decodeOffsetCursor, encodeCursor } from "./cursor";
+import { TYPE_DEFS } from "./schema";
+import type {
+  AgentSummary,
+  BoardStore,
+  ClaimRecord,
+  IndexedJob,
+  JobQuery,
+  JobSortField,
+  LeaderboardEntry,
+  LeaderboardQuery,
+  PosterSummary,
+  SubmissionRecord,
+} from "./store";
+import { AGENT_SORT_FIELDS, LEADERBOARD_WINDOWS, POSTER_SORT_FIELDS } from "./store";
+import { JobStatus } from "@se-2/sdk";
+import {
+  GraphQLError,
+  type GraphQLFieldResolver,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  type GraphQLSchema,
+  Kind,
+  buildSchema,
+} from "graphql";
+import { type Address, isAddress, zeroAddress } from "viem";
+
+const MAX_PAGE_SIZE = 100;
+
+type OrderDirection = "ASC" | "DESC";
+type JobFilterInput = { status?: string[] | null; poster?: string | null; agent?: string | null };
+type JobFilter = Pick<JobQuery, "statuses" | "poster" | "agent">;
+type PageArgs = { orderBy: string; orderDirection: OrderDirection; first: number; after?: string | null };
+type JobListArgs = PageArgs & { where?: JobFilterInput | null };
+type LeaderboardArgs = Omit<PageArgs, "after"> & { window: keyof typeof WINDOWS };
+
+/** `LeaderboardWindow` values, as `LEADERBOARD_WINDOWS` keys */
+const WINDOWS = { LAST_7_DAYS: "7d", LAST_30_DAYS: "30d", ALL_TIME: "all" } as const;
+
+/** Parents and arguments are typed per resolver below; graphql-js passes whatever the parent resolver returned */
+type Resolver =
+  | ((parent: never, args: never) => unknown)
+  | { subscribe: (parent: never, args: never) => AsyncIterableIterator<unknown>; resolve: (payload: never) => unknown };
+
+const BIG_INT: Pick<GraphQLScalarType, "serialize" | "parseValue" | "parseLiteral"> = {
+  serialize: value => String(value),
+  parseValue: value => parseBigInt(value),
+  parseLiteral: ast =>
+    ast.kind === Kind.STRING || ast.kind === Kind.INT
+      ? parseBigInt(ast.value)
+      : badInput("BigInt must be a decimal string or an integer"),
+};
+
+/**
+ * Builds the executable schema: `TYPE_DEFS` with resolvers reading from `store`, and subscriptions fed by `changes`.
+ */
+export function createSchema(store: BoardStore, changes: ChangeFeed): GraphQLSchema {
+  const schema = buildSchema(TYPE_DEFS);
+  Object.assign(schema.getType("BigInt") as GraphQLScalarType, BIG_INT);
+
+  const listJobs = (args: JobListArgs, scope: JobFilter = {}) => {
+    const ordering = `${args.orderBy}:${args.orderDirection}`;
+    const position = args.after ? decodeJobCursor(ordering, args.after) : undefined;
+    if (args.after && !position) badInput("Invalid cursor for this ordering");
+    const at = position?.at ?? BigInt(Math.floor(Date.now() / 1000));
+    const page = store.listJobs({
+      ...parseFilter(args.where),
+      ...scope,
+      sort: camelCase(args.orderBy) as JobSortField,
+      descending: args.orderDirection === "DESC",
+      after: position?.after,
+      at,
+      limit: pageSize(args.first),
+    });
+    return {
+      nodes: page.jobs,
+      totalCount: page.total,
+      pageInfo: {
+        hasNextPage: page.next !== undefined,
+        endCursor: page.next && encodeCursor(ordering, [page.next.value, page.next.id, at]),
+      },
+    };
+  };
+
+  const resolvers: Record<string, Record<string, Resolver>> = {
+    Query: {
+      job: (_: unknown, { id }: { id: bigint }) => store.getJob(id),
+      jobs: (_: unknown, args: JobListArgs) => listJobs(args),
+      agent: (_: unknown, { address }: { address: string }) => store.getAgent(parseAddress(address)),
+      agents: (_: unknown, args: PageArgs) =>
+        rankedPage(args, (offset, limit) => {
+          const sort = camelCase(args.orderBy) as keyof typeof AGENT_SORT_FIELDS;
+          const { agents, total } = store.listAgents({
+            sort,
+            descending: args.orderDirection === "DESC",
+            offset,
+            limit,
+          });
+          return { nodes: agents, total };
+        }),
+      poster: (_: unknown, { address }: { address: string }) => store.getPoster(parseAddress(address)),
+      posters: (_: unknown, args: PageArgs) =>
+        rankedPage(args, (offset, limit) => {
+          const sort = camelCase(args.orderBy) as keyof typeof POSTER_SORT_FIELDS;
+          const { posters, total } = store.listPosters({
+            sort,
+            descending: args.orderDirection === "DESC",
+            offset,
+            limit,
+          });
+          return { nodes: posters, total };
+        }),
+      platformStats: () => store.platformTotals(),
+      leaderboard: (_: unknown, args: LeaderboardArgs) => {
+        const seconds = LEADERBOARD_WINDOWS[WINDOWS[args.window]];
+        return store.leaderboard({
+          since: seconds === undefined ? undefined : BigInt(Math.floor(Date.now() / 1000) - seconds),
+          sort: camelCase(args.orderBy) as LeaderboardQuery["sort"],
+          descending: args.orderDirection === "DESC",
+          limit: pageSize(args.first),
+        });
+      },
+    },
+    Subscription: {
+      jobChanged: {
+        subscribe: (_: unknown, { where }: { where?: JobFilterInput | null }) => {
+          const filter = parseFilter(where);
+          return changes.subscribe(jobIds =>
+            jobIds.map(id => store.getJob(id)).filter((job): job is IndexedJob => !!job && matches(job, filter)),
+          );
+        },
+        resolve: (job: IndexedJob) => job,
+      },
+      platformStats: {
+        subscribe: () => changes.subscribe(() => [store.platformTotals()]),
+        resolve: (stats: unknown) => stats,
+      },
+    },
+    Job: {
+      status: (job: IndexedJob) => JobStatus[job.status].toUpperCase(),
+      poster: (job: IndexedJob) => store.getPoster(job.poster),
+      agent: (job: IndexedJob) => (job.agent === zeroAddress ? null : store.getAgent(job.agent)),
+      agentId: (job: IndexedJob) => (job.agent === zeroAddress ? null : job.agentId),
+      claim: (job: IndexedJob) => store.getClaim(job.id),
+      submission: (job: IndexedJob) => store.getSubmission(job.id),
+      auctionEnd: (job: IndexedJob) => job.auctionStart + job.auctionDuration,
+      rating: (job: IndexedJob) => (job.status === JobStatus.Completed ? job.rating : null),
+      postedTransaction: (job: IndexedJob) => job.postedTx,
+    },
+    Agent: {
+      jobs: (agent: AgentSummary, args: JobListArgs) => listJobs(args, { agent: agent.address }),
+      claims: (agent: AgentSummary) => store.listClaims(agent.address),
+      earnings: (agent: AgentSummary, { interval }: { interval: number }) => {
+        if (interval < 1) badInput("interval must be at least 1 second");
+        return store.agentEarnings(agent.address, interval);
+      },
+    },
+    LeaderboardEntry: {
+      agent: (entry: LeaderboardEntry) => store.getAgent(entry.address),
+    },
+    Poster: {
+      jobs: (poster: PosterSummary, args: JobListArgs) => listJobs(args, { poster: poster.address }),
+    },
+    Claim: {
+      job: (claim: ClaimRecord) => store.getJob(claim.jobId),
+      agent: (claim: ClaimRecord) => store.getAgent(claim.agent),
+    },
+    Submission: {
+      job: (submission: SubmissionRecord) => store.getJob(submission.jobId),
+      agent: (submission: SubmissionRecord) => store.getAgent(submission.agent),
+    },
+  };
+
+  for (const [typeName, fields] of Object.entries(resolvers)) {
+    const type = schema.getType(typeName);
+    if (!(type instanceof GraphQLObjectType)) throw new Error(`No object type ${typeName} in the schema`);
+    for (const [fieldName, resolver] of Object.entries(fields)) {
+      const field = type.getFields()[fieldName];
+      if (!field) throw new Error(`No field ${typeName}.${fieldName} in the schema`);
+      if (typeof resolver === "function") {
+        field.resolve = resolver as unknown as GraphQLFieldResolver<unknown, unknown>;
+      } else {
+        field.subscribe = resolver.subscribe as unknown as GraphQLFieldResolver<unknown, unknown>;
+        field.resolve = resolver.resolve as unknown as GraphQLFieldResolver<unknown, unknown>;
+      }
+    }
+  }
+  return schema;
+}
+
+/** A page of a ranked list (agents, posters), whose cursors are offsets */
+function rankedPage<T>(args: PageArgs, fetch: (offset: number, limit: number) => { nodes: T[]; total: number }) {
+  const ordering = `${args.orderBy}:${args.orderDirection}`;
+  const offset = args.after ? decodeOffsetCursor(ordering, args.after) : 0;
+  if (offset === undefined) badInput("Invalid cursor for this ordering");
+  const { nodes, total } = fetch(offset as number, pageSize(args.first));
+  const end = (offset as number) + nodes.length;
+  return {
+    nodes,
+    totalCount: total,
+    pageInfo: { hasNextPage: end < total, endCursor: end < total ? encodeCursor(ordering, [end]) : null },
+  };
+}
+
+function parseFilter(where: JobFilterInput | null | undefined): JobFilter {
+  return {
+    statuses: where?.status?.map(
+      name => JobStatus[(name.charAt(0) + name.slice(1).toLowerCase()) as keyof typeof JobStatus],
+    ),
+    poster: where?.poster ? parseAddress(where.poster) : undefined,
+    agent: where?.agent ? parseAddress(where.agent) : undefined,
+  };
+}
+
+function matches(job: IndexedJob, filter: JobFilter): boolean {
+  if (filter.statuses?.length && !filter.statuses.includes(job.status)) return false;
+  if (filter.poster && filter.poster.toLowerCase() !== job.poster.toLowerCase()) return false;
+  if (filter.agent && filter.agent.toLowerCase() !== job.agent.toLowerCase()) return false;
+  return true;
+}
+
+function parseAddress(address: string): Address {
+  if (!isAddress(address)) badInput(`Invalid address: ${address}`);
+  return address as Address;
+}
+
+function parseBigInt(value: unknown): bigint {
+  if (
+    (typeof value === "string" && /^\d+$/.test(value)) ||
+    (typeof value === "number" && Number.isSafeInteger(value))
+  ) {
+    return BigInt(value);
+  }
+  return badInput(`Invalid BigInt: ${String(value)}`);
+}
+
+function pageSize(first: number): number {
+  if (!Number.isInteger(first) || first < 1 || first > MAX_PAGE_SIZE)
+    badInput(`first must be from 1 to ${MAX_PAGE_SIZE}`);
+  return first;
+}
+
+/** `MIN_PRICE` → `minPrice`, mapping enum values to the store's sort keys */
+function camelCase(name: string): string {
+  return name.toLowerCase().replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function badInput(message: string): never {
+  throw new GraphQLError(message, { extensions: { code: "BAD_USER_INPUT" } });
+}
@@ -0,0 +1,76 @@
+/**
+ * Board indexer — mirrors AgentBountyBoard events into SQLite and serves them over REST and GraphQL
+ *
+ * Usage:
+ *   yarn indexer:start
+ *
+ * Settings come from the environment (see config.ts). The database survives restarts: indexing resumes from the last
+ * synced block, and starts over if the board or chain changes.
+ */
+import { createApiServer } from "./api";
+import { ChangeFeed } from "./changes";
+import { loadConfig, rpcUrlFromEnv } from "./config";
+import { createSchema } from "./graphql";
+import { Indexer } from "./indexer";
+import { BoardStore } from "./store";
+import { useServer } from "graphql-ws/lib/use/ws";
+import { createPublicClient, http } from "viem";
+import { WebSocketServer } from "ws";
+
+async function main() {
+  const rpcUrl = rpcUrlFromEnv();
+  const publicClient = createPublicClient({ transport: http(rpcUrl) });
+  const config = await loadConfig(publicClient, rpcUrl);
+
+  const store = new BoardStore(config.dbPath);
+  store.bind(config.chainId, config.board);
+
+  const changes = new ChangeFeed();
+  const schema = createSchema(store, changes);
+
+  const indexer = new Indexer(publicClient, store, {
+    board: config.board,
+    startBlock: config.startBlock,
+    confirmations: config.confirmations,
+    pollIntervalMs: config.pollIntervalMs,
+    ipfsGateway: config.ipfsGateway,
+    httpSpecs: config.httpSpecs,
+    onJobsChanged: jobIds => changes.publish(jobIds),
+    onError: e => console.error(`❌ ${e.message}`),
+  });
+
+  const server = createApiServer(store, schema, () => ({
+    chainId: config.chainId,
+    board: config.board,
+    indexedBlock: store.cursor?.number,
+    head: indexer.head,
+  }));
+  // GraphQL subscriptions, over the graphql-ws protocol on the same path as queries
+  const subscriptions = useServer({ schema }, new WebSocketServer({ server, path: "/graphql" }));
+
+  console.log(`\n🗂️  Agent Bounty Board — Indexer`);
+  console.log(`═══════════════════════════════════════`);
+  console.log(`Board:     ${config.board} (chain ${config.chainId})`);
+  console.log(`RPC:       ${config.rpcUrl}`);
+  console.log(`Database:  ${config.dbPath}`);
+  console.log(`From:      block ${store.cursor ? store.cursor.number + 1n : config.startBlock}`);
+  server.listen(config.port, () => {
+    console.log(`REST:      http://localhost:${config.port}/api/jobs`);
+    console.log(`GraphQL:   http://localhost:${config.port}/graphql (ws:// for subscriptions)\n`);
+  });
+
+  indexer.start();
+
+  const shutdown = () => {
+    indexer.stop();
+    void subscriptions.dispose();
+    server.close();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch(e => {
+  console.error(`❌ ${(e as Error).message}`);
+  process.exit(1);
+});
@@ -0,0 +1,165 @@
+import type { BlockInfo, BoardLog, BoardStore } from "./store";
+import { bountyBoardAbi, jobMatchText, loadJobSpec } from "@se-2/sdk";
+import type { Address, Hash, PublicClient } from "viem";
+
+/** Blocks per `eth_getLogs` request, within what public RPCs allow */
+const LOG_RANGE = 5_000n;
+/** Stored blocks compared against the chain when looking for where a reorg forked off */
+const REORG_SEARCH_DEPTH = 256;
+/** How long a spec URI that couldn't be read is left before it is fetched again */
+const SPEC_RETRY_MS = 10 * 60_000;
+
+export type IndexerOptions = {
+  board: Address;
+  /** First block to index, normally the board's deployment block */
+  startBlock: bigint;
+  /** Blocks behind the head to stay */
+  confirmations: bigint;
+  pollIntervalMs: number;
+  /** Where specs posted as `ipfs://` URIs are fetched from */
+  ipfsGateway: string;
+  /** Also fetch specs posted as `http(s)://` URIs (see `loadJobSpec`) */
+  httpSpecs: boolean;
+  /** Called after each applied range or rollback with the ids of the jobs it changed */
+  onJobsChanged?: (jobIds: bigint[]) => void;
+  onError: (e: Error) => void;
+};
+
+/**
+ * Keeps a `BoardStore` in step with the chain by polling for board logs.
+ *
+ * Each pass first checks that the last synced block is still canonical. If a reorg replaced it, the store is rolled
+ * back to the newest stored block the chain still has, and the dropped blocks are indexed again from there.
+ *
+ * Specs posted as URIs are fetched alongside, so search matches their words: see `fetchSpecs`.
+ */
+export class Indexer {
+  private timer?: NodeJS.Timeout;
+  private stopped = false;
+  private fetchingSpecs = false;
+  /** When each spec URI that couldn't be read may be fetched again, in ms */
+  private readonly specRetryAt = new Map<string, number>();
+  /** Head of the chain as of the last pass */
+  head?: bigint;
+
+  constructor(
+    private readonly publicClient: PublicClient,
+    private readonly store: BoardStore,
+    private readonly options: IndexerOptions,
+  ) {}
+
+  start() {
+    this.stopped = false;
+    void this.loop();
+  }
+
+  stop() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+  }
+
+  /** Indexes up to the current head (less confirmations) */
+  async sync() {
+    const latest = await this.publicClient.getBlockNumber({ cacheTime: 0 });
+    this.head = latest;
+    const head = latest - this.options.confirmations;
+
+    const cursor = this.store.cursor;
+    if (cursor && (await this.chainHash(cursor.number)) !== cursor.hash) {
+      const ancestor = await this.findAncestor();
+      this.notify(this.store.rollback(ancestor));
+    }
+
+    let from = this.store.cursor ? this.store.cursor.number + 1n : this.options.startBlock;
+    while (from <= head && !this.stopped) {
+      const to = from + LOG_RANGE - 1n < head ? from + LOG_RANGE - 1n : head;
+      const logs = (await this.publicClient.getContractEvents({
+        address: this.options.board,
+        abi: bountyBoardAbi,
+        fromBlock: from,
+        toBlock: to,
+        strict: true,
+      })) as unknown as (BoardLog & { blockHash: Hash })[];
+
+      const numbers = [...new Set(logs.map(log => log.blockNumber))];
+      const blocks = await Promise.all(numbers.map(number => this.getBlock(number)));
+      const end = await this.getBlock(to);
+
+      // A reorg between the two requests; the next pass starts over from the cursor
+      const hashes = new Map(blocks.map(block => [block.number, block.hash]));
+      if (logs.some(log => hashes.get(log.blockNumber) !== log.blockHash)) {
+        throw new Error(`Blocks ${from}-${to} changed while they were being indexed; retrying`);
+      }
+
+      this.notify(this.store.applyRange(logs, blocks, end));
+      from = to + 1n;
+    }
+  }
+
+  private async loop() {
+    try {
+      await this.sync();
+      void this.fetchSpecs();
+    } catch (e) {
+      this.options.onError(e as Error);
+    }
+    if (!this.stopped) this.timer = setTimeout(() => void this.loop(), this.options.pollIntervalMs);
+  }
+
+  /**
+   * Fetches the specs of jobs posted as `ipfs://` or `http(s)://` URIs and indexes the jobs by their words. Runs beside
+   * syncing, one pass at a time, so a slow gateway never holds up indexing.
+   */
+  private async fetchSpecs() {
+    if (this.fetchingSpecs) return;
+    this.fetchingSpecs = true;
+    try {
+      for (const description of this.store.unfetchedSpecs()) {
+        if (this.stopped) break;
+        if ((this.specRetryAt.get(description) ?? 0) > Date.now()) continue;
+        const loaded = await loadJobSpec(description, this.options.ipfsGateway, {
+          allowHttp: this.options.httpSpecs,
+        });
+        if (loaded.kind === "spec") {
+          this.store.setSpecText(description, jobMatchText(description, loaded));
+        } else {
+          this.specRetryAt.set(description, Date.now() + SPEC_RETRY_MS);
+        }
+      }
+    } catch (e) {
+      this.options.onError(e as Error);
+    } finally {
+      this.fetchingSpecs = false;
+    }
+  }
+
+  /**
+   * The newest stored block that is still on the chain. If none of the recent ones are, the reorg is deeper than the
+   * store can follow, and everything is indexed again from the start block.
+   */
+  private async findAncestor(): Promise<bigint> {
+    for (const block of this.store.recentBlocks(REORG_SEARCH_DEPTH)) {
+      if ((await this.chainHash(block.number)) === block.hash) return block.number;
+    }
+    return this.options.startBlock - 1n;
+  }
+
+  /** The hash of the chain's block at `number`, or undefined if the chain is no longer that long */
+  private async chainHash(number: bigint): Promise<Hash | undefined> {
+    try {
+      return (await this.publicClient.getBlock({ blockNumber: number })).hash;
+    } catch (e) {
+      if ((e as Error).name === "BlockNotFoundError") return undefined;
+      throw e;
+    }
+  }
+
+  private async getBlock(number: bigint): Promise<BlockInfo> {
+    const block = await this.publicClient.getBlock({ blockNumber: number });
+    return { number, hash: block.hash, timestamp: block.timestamp };
+  }
+
+  private notify(jobIds: bigint[]) {
+    if (jobIds.length) this.options.onJobsChanged?.(jobIds);
+  }
+}
@@ -0,0 +1,278 @@
+/** GraphQL schema of the indexed board. Resolvers are in graphql.ts. */
+export const TYPE_DEFS = /* GraphQL */ `
+  "A uint256 (amounts in wei, timestamps in seconds, ids), as a decimal string"
+  scalar BigInt
+
+  enum JobStatus {
+    OPEN
+    CLAIMED
+    SUBMITTED
+    COMPLETED
+    DISPUTED
+    EXPIRED
+    CANCELLED
+  }
+
+  enum OrderDirection {
+    ASC
+    DESC
+  }
+
+  enum JobOrderField {
+    ID
+    MIN_PRICE
+    MAX_PRICE
+    PAID_AMOUNT
+    "When the auction ends, for open jobs still being auctioned; every other job ranks after them"
+    AUCTION_END
+    "The live auction price while open, else what the job was claimed for"
+    CURRENT_PRICE
+  }
+
+  enum AgentOrderField {
+    TOTAL_EARNED
+    COMPLETED_JOBS
+    AVERAGE_RATING
+    JOBS_CLAIMED
+  }
+
+  enum LeaderboardOrderField {
+    COMPLETED_JOBS
+    TOTAL_EARNED
+    AVERAGE_RATING
+    DISPUTE_RATIO
+    MEDIAN_CLAIM_DISCOUNT
+    EXPIRED_JOBS
+    JOBS_CLAIMED
+  }
+
+  enum LeaderboardWindow {
+    LAST_7_DAYS
+    LAST_30_DAYS
+    ALL_TIME
+  }
+
+  enum PosterOrderField {
+    JOBS_POSTED
+    TOTAL_SPENT
+  }
+
+  "Jobs matching every given field"
+  input JobFilter {
+    "Any of these"
+    status: [JobStatus!]
+    poster: String
+    agent: String
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    "Pass as after for the next page"
+    endCursor: String
+  }
+
+  type Job {
+    id: BigInt!
+    description: String!
+    poster: Poster!
+    minPrice: BigInt!
+    maxPrice: BigInt!
+    auctionStart: BigInt!
+    auctionDuration: BigInt!
+    "When the price reaches maxPrice"
+    auctionEnd: BigInt!
+    "Seconds the agent has to submit after claiming"
+    workDeadline: BigInt!
+    status: JobStatus!
+    "Null until claimed"
+    agent: Agent
+    agentId: BigInt
+    claim: Claim
+    submission: Submission
+    "What the agent paid into escrow when claiming; 0 until claimed"
+    paidAmount: BigInt!
+    "What the agent received after the fee, once completed"
+    agentPayment: BigInt
+    fee: BigInt
+    "0-100, once completed; 0 for work the agent reclaimed unreviewed"
+    rating: Int
+    "The poster's written feedback, signed off-chain and kept by the indexer"
+    feedback: String
+    "When the job was completed, disputed, cancelled or expired"
+    closedAt: BigInt
+    postedBlock: BigInt!
+    postedTransaction: String!
+    "Block of the last event that changed the job"
+    updatedBlock: BigInt!
+  }
+
+  type JobConnection {
+    nodes: [Job!]!
+    totalCount: Int!
+    pageInfo: PageInfo!
+  }
+
+  "Everything an address did as an agent, keyed by address like the contract's agent stats"
+  type Agent {
+    address: String!
+    "ERC-8004 ids the address claimed with"
+    agentIds: [BigInt!]!
+    jobsClaimed: Int!
+    "Claimed or submitted, not yet closed"
+    activeJobs: Int!
+    "Approved or reclaimed"
+    completedJobs: Int!
+    disputedJobs: Int!
+    expiredJobs: Int!
+    "Payments after fees"
+    totalEarned: BigInt!
+    "Sum of ratings divided by completed jobs, as getAgentStats computes it"
+    averageRating: Int!
+    firstCompletedAt: BigInt
+    jobs(
+      where: JobFilter
+      orderBy: JobOrderField = ID
+      orderDirection: OrderDirection = DESC
+      first: Int = 20
+      after: String
+    ): JobConnection!
+    "Newest first"
+    claims: [Claim!]!
+    "Payments for completed jobs, grouped by completion time into periods of interval seconds"
+    earnings(interval: Int = 86400): [EarningsPeriod!]!
+  }
+
+  "An agent's record over a leaderboard window: claims made in it, and jobs approved, disputed or expired in it"
+  type LeaderboardEntry {
+    address: String!
+    agentIds: [BigInt!]!
+    "The agent's all-time record"
+    agent: Agent!
+    jobsClaimed: Int!
+    "Approved or reclaimed"
+    completedJobs: Int!
+    disputedJobs: Int!
+    expiredJobs: Int!
+    "Payments after fees"
+    totalEarned: BigInt!
+    "Mean rating of the completed jobs; null without any"
+    averageRating: Float
+    "Disputed over completed plus disputed, 0-1; null without either"
+    disputeRatio: Float
+    "Median of 1 - price / maxPrice over the claims, 0-1; null without any"
+    medianClaimDiscount: Float
+  }
+
+  type EarningsPeriod {
+    start: BigInt!
+    amount: BigInt!
+    jobs: Int!
+  }
+
+  type AgentConnection {
+    nodes: [Agent!]!
+    totalCount: Int!
+    pageInfo: PageInfo!
+  }
+
+  type Poster {
+    address: String!
+    jobsPosted: Int!
+    openJobs: Int!
+    completedJobs: Int!
+    disputedJobs: Int!
+    cancelledJobs: Int!
+    expiredJobs: Int!
+    "Escrow released to agents, fees included, for completed jobs"
+    totalSpent: BigInt!
+    jobs(
+      where: JobFilter
+      orderBy: JobOrderField = ID
+      orderDirection: OrderDirection = DESC
+      first: Int = 20
+      after: String
+    ): JobConnection!
+  }
+
+  type PosterConnection {
+    nodes: [Poster!]!
+    totalCount: Int!
+    pageInfo: PageInfo!
+  }
+
+  type Claim {
+    job: Job!
+    agent: Agent!
+    agentId: BigInt!
+    "The auction price paid into escrow"
+    price: BigInt!
+    timestamp: BigInt!
+    blockNumber: BigInt!
+    transactionHash: String!
+  }
+
+  type Submission {
+    job: Job!
+    agent: Agent!
+    uri: String!
+    timestamp: BigInt!
+    blockNumber: BigInt!
+    transactionHash: String!
+  }
+
+  "The first four match getPlatformStats"
+  type PlatformStats {
+    jobsPosted: Int!
+    jobsCompleted: Int!
+    totalPaid: BigInt!
+    disputes: Int!
+    feesCollected: BigInt!
+    feesWithdrawn: BigInt!
+    "Collected and not yet withdrawn"
+    feeBalance: BigInt!
+    "Set by the last ProtocolFeeUpdated event; null if the fee was never changed"
+    protocolFeeBps: Int
+    agents: Int!
+    posters: Int!
+  }
+
+  type Query {
+    job(id: BigInt!): Job
+    jobs(
+      where: JobFilter
+      orderBy: JobOrderField = ID
+      orderDirection: OrderDirection = DESC
+      first: Int = 20
+      after: String
+    ): JobConnection!
+    agent(address: String!): Agent
+    agents(
+      orderBy: AgentOrderField = TOTAL_EARNED
+      orderDirection: OrderDirection = DESC
+      first: Int = 20
+      after: String
+    ): AgentConnection!
+    poster(address: String!): Poster
+    posters(
+      orderBy: PosterOrderField = JOBS_POSTED
+      orderDirection: OrderDirection = DESC
+      first: Int = 20
+      after: String
+    ): PosterConnection!
+    "Agents ranked by a metric over a window; agents without a value for it rank last"
+    leaderboard(
+      window: LeaderboardWindow = ALL_TIME
+      orderBy: LeaderboardOrderField = COMPLETED_JOBS
+      orderDirection: OrderDirection = DESC
+      first: Int = 20
+    ): [LeaderboardEntry!]!
+    platformStats: PlatformStats!
+  }
+
+  type Subscription {
+    "A matching job each time an event changes it, or a reorg undoes one"
+    jobChanged(where: JobFilter): Job!
+    "The stats after each indexed change"
+    platformStats: PlatformStats!
+  }
+`;
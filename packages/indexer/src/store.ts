@@ -0,0 +1,1212 @@
+import {
+  type BountyBoardAbi,
+  type Job,
+  JobStatus,
+  bountyBoardAbi,
+  getAuctionPrice,
+  jobMatchText,
+  parseJobDescription,
+} from "@se-2/sdk";
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import { type Address, type DecodeEventLogReturnType, type Hash, type Hex, decodeEventLog, getAddress } from "viem";
+
+/** Bumped whenever the schema changes; the database is then rebuilt from the chain */
+const SCHEMA_VERSION = 4;
+/** Wide enough for any uint256, so zero-padded amounts sort correctly as text */
+const AMOUNT_DIGITS = 78;
+
+const SCHEMA = `
+  CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+
+  -- Hashes and timestamps of the blocks with board events, and of each synced range's last block
+  CREATE TABLE blocks (number INTEGER PRIMARY KEY, hash TEXT NOT NULL, timestamp INTEGER NOT NULL);
+
+  -- Every board log, raw, so jobs can be rebuilt after a reorg
+  CREATE TABLE events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    name TEXT NOT NULL,
+    job_id INTEGER,
+    topics TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX events_job ON events (job_id);
+
+  CREATE TABLE jobs (
+    id INTEGER PRIMARY KEY,
+    poster TEXT NOT NULL,
+    description TEXT NOT NULL,
+    min_price TEXT NOT NULL,
+    max_price TEXT NOT NULL,
+    auction_start INTEGER NOT NULL,
+    auction_duration INTEGER NOT NULL,
+    work_deadline INTEGER NOT NULL,
+    status INTEGER NOT NULL,
+    agent TEXT NOT NULL,
+    agent_id TEXT NOT NULL,
+    claimed_at INTEGER NOT NULL,
+    paid_amount TEXT NOT NULL,
+    submission_uri TEXT NOT NULL,
+    submitted_at INTEGER,
+    rating INTEGER NOT NULL,
+    agent_payment TEXT,
+    fee TEXT,
+    closed_at INTEGER,
+    posted_block INTEGER NOT NULL,
+    posted_tx TEXT NOT NULL,
+    updated_block INTEGER NOT NULL
+  );
+  CREATE INDEX jobs_status ON jobs (status, id);
+  CREATE INDEX jobs_poster ON jobs (poster, id);
+  CREATE INDEX jobs_agent ON jobs (agent, id);
+
+  -- Full-text index of job descriptions; rowid is the job id
+  CREATE VIRTUAL TABLE job_search USING fts5(description);
+
+  -- The words of specs posted as ipfs:// or http(s):// URIs, by description, once the indexer has fetched them
+  CREATE TABLE spec_texts (description TEXT PRIMARY KEY, match_text TEXT NOT NULL);
+
+  CREATE TABLE claims (
+    job_id INTEGER PRIMARY KEY,
+    agent TEXT NOT NULL,
+    agent_id TEXT NOT NULL,
+    price TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+  );
+  CREATE INDEX claims_agent ON claims (agent);
+
+  CREATE TABLE submissions (
+    job_id INTEGER PRIMARY KEY,
+    agent TEXT NOT NULL,
+    uri TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+  );
+
+  -- collected: the fee taken when work is approved or reclaimed; withdrawn: FeesWithdrawn;
+  -- rate: ProtocolFeeUpdated (amount is the new fee in bps); recipient: FeeRecipientUpdated
+  CREATE TABLE fee_events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    job_id INTEGER,
+    amount TEXT,
+    account TEXT,
+    timestamp INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  -- Posters' written feedback, signed off-chain; not derived from events, so rollbacks and rebuilds leave it alone
+  CREATE TABLE IF NOT EXISTS feedback (
+    job_id INTEGER PRIMARY KEY,
+    text TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+`;
+
+export type BoardEvent = DecodeEventLogReturnType<BountyBoardAbi>;
+
+/** A board log with the fields the store needs, as returned by `getContractEvents` */
+export type BoardLog = BoardEvent & {
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hash;
+  topics: readonly Hex[];
+  data: Hex;
+};
+
+export type BlockInfo = { number: bigint; hash: Hash; timestamp: bigint };
+
+/** A job as the contract stores it, plus what only its events tell */
+export type IndexedJob = Job & {
+  /** What the agent received after the fee, once approved or reclaimed */
+  agentPayment?: bigint;
+  fee?: bigint;
+  submittedAt?: bigint;
+  /** When the job was approved, reclaimed, disputed, cancelled or expired */
+  closedAt?: bigint;
+  postedBlock: bigint;
+  postedTx: Hash;
+  /** Block of the last event that changed the job */
+  updatedBlock: bigint;
+  /** The poster's written feedback, if they signed any (see `setFeedback`) */
+  feedback?: string;
+};
+
+/**
+ * The price a job is at: the live auction price while it is open, otherwise what it was claimed for (0 if never).
+ * Uses the `current_price` SQL function registered by `BoardStore`.
+ */
+const CURRENT_PRICE = (at: bigint) =>
+  `current_price(status, min_price, max_price, auction_start, auction_duration, paid_amount, ${at})`;
+
+/**
+ * When a job's auction ends, for open jobs still being auctioned at `at`; every other job ranks after all of those,
+ * so the ascending sort lists the auctions ending soonest first. The frontend's `searchJobs` ranks the same way.
+ */
+const AUCTION_END = (at: bigint) =>
+  `CASE WHEN status = ${JobStatus.Open} AND auction_start + auction_duration > ${at}
+     THEN auction_start + auction_duration ELSE ${Number.MAX_SAFE_INTEGER} END`;
+
+/** Selects a job row's feedback alongside it, for `fromRow` */
+const FEEDBACK = "(SELECT text FROM feedback WHERE job_id = jobs.id) AS feedback";
+
+/** SQL for each sort, given the time current prices are taken at */
+export const JOB_SORT_FIELDS = {
+  id: () => "id",
+  minPrice: () => "min_price",
+  maxPrice: () => "max_price",
+  paidAmount: () => "paid_amount",
+  auctionEnd: AUCTION_END,
+  currentPrice: CURRENT_PRICE,
+} as const;
+
+export type JobSortField = keyof typeof JOB_SORT_FIELDS;
+
+export type JobQuery = {
+  statuses?: JobStatus[];
+  poster?: Address;
+  agent?: Address;
+  /** Words that must all appear in the description; the last may be a prefix */
+  search?: string;
+  /** Bounds of the current price (see `CURRENT_PRICE`), inclusive */
+  priceMin?: bigint;
+  priceMax?: bigint;
+  /** The time the price bounds and the `currentPrice` and `auctionEnd` sorts are taken at. Defaults to now. */
+  at?: bigint;
+  sort: JobSortField;
+  descending: boolean;
+  /** Position after which the page starts: the sort value and id of the previous page's last job */
+  after?: { value: string | number; id: bigint };
+  limit: number;
+};
+
+export type JobPage = {
+  jobs: IndexedJob[];
+  /** Jobs matching the filters, across all pages */
+  total: number;
+  /** Pass as `after` for the next page; undefined on the last page */
+  next?: { value: string | number; id: bigint };
+};
+
+export type ClaimRecord = {
+  jobId: bigint;
+  agent: Address;
+  agentId: bigint;
+  /** What the agent paid into escrow: the auction price at the claim */
+  price: bigint;
+  timestamp: bigint;
+  blockNumber: bigint;
+  transactionHash: Hash;
+};
+
+export type SubmissionRecord = {
+  jobId: bigint;
+  agent: Address;
+  uri: string;
+  timestamp: bigint;
+  blockNumber: bigint;
+  transactionHash: Hash;
+};
+
+/** An agent's record across every job it claimed, keyed by address like the contract's `agentStats` */
+export type AgentSummary = {
+  address: Address;
+  /** ERC-8004 ids the address has claimed with */
+  agentIds: bigint[];
+  jobsClaimed: number;
+  /** Claimed or submitted, not yet closed */
+  activeJobs: number;
+  /** Approved or reclaimed */
+  completedJobs: number;
+  disputedJobs: number;
+  expiredJobs: number;
+  /** Payments after fees */
+  totalEarned: bigint;
+  /** Mean rating over completed jobs, floored as `getAgentStats` does (reclaimed jobs count as 0) */
+  averageRating: number;
+  firstCompletedAt?: bigint;
+};
+
+/**
+ * An agent's record over a time window, from the events in it: `JobClaimed` for claims, and `WorkApproved`,
+ * `WorkDisputed` and `JobExpired` for how jobs closed (whenever they were claimed).
+ */
+export type LeaderboardEntry = {
+  address: Address;
+  /** ERC-8004 ids the address claimed or closed jobs with in the window */
+  agentIds: bigint[];
+  jobsClaimed: number;
+  /** Approved or reclaimed */
+  completedJobs: number;
+  disputedJobs: number;
+  expiredJobs: number;
+  /** Payments after fees */
+  totalEarned: bigint;
+  /** Mean rating of the completed jobs; undefined without any */
+  averageRating?: number;
+  /** Disputed over completed plus disputed; undefined without either */
+  disputeRatio?: number;
+  /** Median of `1 - price / maxPrice` over the claims; undefined without any */
+  medianClaimDiscount?: number;
+};
+
+export const LEADERBOARD_SORT_FIELDS = [
+  "completedJobs",
+  "totalEarned",
+  "averageRating",
+  "disputeRatio",
+  "medianClaimDiscount",
+  "expiredJobs",
+  "jobsClaimed",
+] as const;
+
+/** The leaderboard's time windows, in seconds back from now; `all` is unbounded */
+export const LEADERBOARD_WINDOWS: Record<string, number | undefined> = {
+  "7d": 7 * 86400,
+  "30d": 30 * 86400,
+  all: undefined,
+};
+
+export type LeaderboardQuery = {
+  /** Unix seconds; events before it are left out. Undefined for all time */
+  since?: bigint;
+  sort: (typeof LEADERBOARD_SORT_FIELDS)[number];
+  descending: boolean;
+  limit: number;
+};
+
+export type PosterSummary = {
+  address: Address;
+  jobsPosted: number;
+  openJobs: number;
+  completedJobs: number;
+  disputedJobs: number;
+  cancelledJobs: number;
+  expiredJobs: number;
+  /** Escrow released to agents (fees included) for completed jobs */
+  totalSpent: bigint;
+};
+
+/** Totals over the indexed events; the first four match `getPlatformStats` */
+export type PlatformTotals = {
+  jobsPosted: number;
+  jobsCompleted: number;
+  totalPaid: bigint;
+  disputes: number;
+  feesCollected: bigint;
+  feesWithdrawn: bigint;
+  /** Collected and not yet withdrawn, `getPlatformStats().feeBalance` */
+  feeBalance: bigint;
+  /** The fee set by the last `ProtocolFeeUpdated`, if any was emitted */
+  protocolFeeBps?: number;
+  agents: number;
+  posters: number;
+};
+
+export type EarningsPeriod = {
+  /** Start of the period, a multiple of its length in seconds */
+  start: bigint;
+  amount: bigint;
+  jobs: number;
+};
+
+export const AGENT_SORT_FIELDS = {
+  totalEarned: "total_earned",
+  completedJobs: "completed_jobs",
+  averageRating: "average_rating",
+  jobsClaimed: "jobs_claimed",
+} as const;
+
+export const POSTER_SORT_FIELDS = {
+  jobsPosted: "jobs_posted",
+  totalSpent: "total_spent",
+} as const;
+
+/** A page of aggregated rows; these are ranked, not keyed, so pages are by offset */
+export type SummaryQuery<Field extends string> = {
+  sort: Field;
+  descending: boolean;
+  offset: number;
+  limit: number;
+};
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+const AGENT_SUMMARIES = `
+  SELECT
+    agent AS address,
+    GROUP_CONCAT(DISTINCT agent_id) AS agent_ids,
+    COUNT(*) AS jobs_claimed,
+    SUM(status IN (${JobStatus.Claimed}, ${JobStatus.Submitted})) AS active_jobs,
+    SUM(status = ${JobStatus.Completed}) AS completed_jobs,
+    SUM(status = ${JobStatus.Disputed}) AS disputed_jobs,
+    SUM(status = ${JobStatus.Expired}) AS expired_jobs,
+    big_sum(agent_payment) AS total_earned,
+    COALESCE(
+      SUM(CASE WHEN status = ${JobStatus.Completed} THEN rating ELSE 0 END) / NULLIF(SUM(status = ${JobStatus.Completed}), 0),
+      0
+    ) AS average_rating,
+    MIN(CASE WHEN status = ${JobStatus.Completed} THEN closed_at END) AS first_completed_at
+  FROM jobs WHERE agent != '${ZERO_ADDRESS}' GROUP BY agent
+`;
+
+const POSTER_SUMMARIES = `
+  SELECT
+    poster AS address,
+    COUNT(*) AS jobs_posted,
+    SUM(status = ${JobStatus.Open}) AS open_jobs,
+    SUM(status = ${JobStatus.Completed}) AS completed_jobs,
+    SUM(status = ${JobStatus.Disputed}) AS disputed_jobs,
+    SUM(status = ${JobStatus.Cancelled}) AS cancelled_jobs,
+    SUM(status = ${JobStatus.Expired}) AS expired_jobs,
+    big_sum(CASE WHEN status = ${JobStatus.Completed} THEN paid_amount END) AS total_spent
+  FROM jobs GROUP BY poster
+`;
+
+type AgentRow = {
+  address: string;
+  agent_ids: string;
+  jobs_claimed: number;
+  active_jobs: number;
+  completed_jobs: number;
+  disputed_jobs: number;
+  expired_jobs: number;
+  total_earned: string;
+  average_rating: number;
+  first_completed_at: number | null;
+};
+
+type PosterRow = {
+  address: string;
+  jobs_posted: number;
+  open_jobs: number;
+  completed_jobs: number;
+  disputed_jobs: number;
+  cancelled_jobs: number;
+  expired_jobs: number;
+  total_spent: string;
+};
+
+type ClaimRow = {
+  job_id: number;
+  agent: string;
+  agent_id: string;
+  price: string;
+  timestamp: number;
+  block_number: number;
+  tx_hash: string;
+};
+
+type JobRow = {
+  id: number;
+  poster: string;
+  description: string;
+  min_price: string;
+  max_price: string;
+  auction_start: number;
+  auction_duration: number;
+  work_deadline: number;
+  status: number;
+  agent: string;
+  agent_id: string;
+  claimed_at: number;
+  paid_amount: string;
+  submission_uri: string;
+  submitted_at: number | null;
+  rating: number;
+  agent_payment: string | null;
+  fee: string | null;
+  closed_at: number | null;
+  posted_block: number;
+  posted_tx: string;
+  updated_block: number;
+  feedback?: string | null;
+};
+
+type EventRow = { block_number: number; log_index: number; tx_hash: string; topics: string; data: string };
+
+/**
+ * The indexer's SQLite database: raw board events, and the jobs, claims, submissions and fee events derived from them.
+ *
+ * Everything derived can be rebuilt from the events table, which is how `rollback` undoes the blocks a reorg dropped.
+ */
+export class BoardStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    // Sums amounts stored as zero-padded text exactly; SQLite's own SUM would overflow or round them
+    this.db.aggregate<unknown>("big_sum", {
+      start: () => 0n,
+      step: (total, amount) => (amount === null ? total : (total as bigint) + BigInt(amount as string)),
+      result: total => pad(total as bigint),
+    });
+    this.db.function(
+      "current_price",
+      { deterministic: true },
+      (status, minPrice, maxPrice, auctionStart, auctionDuration, paidAmount, at) =>
+        pad(
+          status === JobStatus.Open
+            ? getAuctionPrice(
+                {
+                  minPrice: BigInt(minPrice as string),
+                  maxPrice: BigInt(maxPrice as string),
+                  auctionStart: BigInt(auctionStart as number),
+                  auctionDuration: BigInt(auctionDuration as number),
+                },
+                BigInt(at as number),
+              )
+            : BigInt(paidAmount as string),
+        ),
+    );
+    if (this.db.pragma("user_version", { simple: true }) !== SCHEMA_VERSION) this.reset();
+  }
+
+  /**
+   * Checks that the database indexes `board` on `chainId`, starting over if it was built for another board.
+   */
+  bind(chainId: number, board: Address) {
+    const key = `${chainId}:${board.toLowerCase()}`;
+    const bound = this.getMeta("board");
+    if (bound !== undefined && bound !== key) this.reset({ keepFeedback: false });
+    this.setMeta("board", key);
+  }
+
+  /** The last block synced, if any */
+  get cursor(): BlockInfo | undefined {
+    const number = this.getMeta("cursor");
+    if (number === undefined) return undefined;
+    return this.getBlock(BigInt(number));
+  }
+
+  /** Stored blocks from the newest down, for finding where a reorg forked off */
+  recentBlocks(limit: number): BlockInfo[] {
+    const rows = this.db.prepare("SELECT * FROM blocks ORDER BY number DESC LIMIT ?").all(limit) as {
+      number: number;
+      hash: Hash;
+      timestamp: number;
+    }[];
+    return rows.map(row => ({ number: BigInt(row.number), hash: row.hash, timestamp: BigInt(row.timestamp) }));
+  }
+
+  /**
+   * Applies the logs of one synced range in a single transaction and moves the cursor to its last block.
+   * @param blocks Every block with a log, and the range's last block
+   */
+  applyRange(logs: BoardLog[], blocks: BlockInfo[], end: BlockInfo): bigint[] {
+    const changed = new Set<bigint>();
+    this.db.transaction(() => {
+      const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks VALUES (?, ?, ?)");
+      for (const block of [...blocks, end]) insertBlock.run(block.number, block.hash, block.timestamp);
+      const timestamps = new Map(blocks.map(block => [block.number, block.timestamp]));
+
+      for (const log of logs) {
+        const timestamp = timestamps.get(log.blockNumber);
+        if (timestamp === undefined) throw new Error(`Missing block ${log.blockNumber} for a board log`);
+        const jobId = this.insertEvent(log, timestamp);
+        if (jobId === undefined) continue;
+        const job = applyEvent(this.getJob(jobId), log, timestamp);
+        if (job) this.saveJob(job);
+        changed.add(jobId);
+      }
+      this.setMeta("cursor", end.number.toString());
+    })();
+    return [...changed];
+  }
+
+  /**
+   * Drops everything after `blockNumber`, rebuilds the jobs those blocks touched from the remaining events, and
+   * moves the cursor back to `blockNumber`. Returns the ids of the jobs that changed.
+   */
+  rollback(blockNumber: bigint): bigint[] {
+    const changed: bigint[] = [];
+    this.db.transaction(() => {
+      const affected = this.db
+        .prepare("SELECT DISTINCT job_id FROM events WHERE block_number > ? AND job_id IS NOT NULL")
+        .pluck()
+        .all(blockNumber) as number[];
+      for (const table of ["events", "claims", "submissions", "fee_events", "blocks"]) {
+        const column = table === "blocks" ? "number" : "block_number";
+        this.db.prepare(`DELETE FROM ${table} WHERE ${column} > ?`).run(blockNumber);
+      }
+
+      const timestamps = this.db.prepare("SELECT timestamp FROM blocks WHERE number = ?").pluck();
+      for (const id of affected) {
+        this.db.prepare("DELETE FROM jobs WHERE id = ?").run(id);
+        this.db.prepare("DELETE FROM job_search WHERE rowid = ?").run(id);
+        const rows = this.db
+          .prepare("SELECT * FROM events WHERE job_id = ? ORDER BY block_number, log_index")
+          .all(id) as EventRow[];
+        let job: IndexedJob | undefined;
+        for (const row of rows) {
+          job = applyEvent(job, decodeRow(row), BigInt(timestamps.get(row.block_number) as number));
+        }
+        if (job) this.saveJob(job);
+        changed.push(BigInt(id));
+      }
+
+      const cursor = this.db.prepare("SELECT MAX(number) FROM blocks").pluck().get() as number | null;
+      if (cursor === null) {
+        this.deleteMeta("cursor");
+      } else {
+        this.setMeta("cursor", String(cursor));
+      }
+    })();
+    return changed;
+  }
+
+  getJob(id: bigint): IndexedJob | undefined {
+    const row = this.db.prepare(`SELECT *, ${FEEDBACK} FROM jobs WHERE id = ?`).get(id) as JobRow | undefined;
+    return row && fromRow(row);
+  }
+
+  listJobs(query: JobQuery): JobPage {
+    const where: string[] = [];
+    const params: (string | number | bigint)[] = [];
+    if (query.statuses?.length) {
+      where.push(`status IN (${query.statuses.map(() => "?").join(", ")})`);
+      params.push(...query.statuses);
+    }
+    if (query.poster) {
+      where.push("poster = ?");
+      params.push(query.poster.toLowerCase());
+    }
+    if (query.agent) {
+      where.push("agent = ?");
+      params.push(query.agent.toLowerCase());
+    }
+    const match = searchExpression(query.search);
+    if (match) {
+      where.push("id IN (SELECT rowid FROM job_search WHERE job_search MATCH ?)");
+      params.push(match);
+    }
+    const at = query.at ?? BigInt(Math.floor(Date.now() / 1000));
+    if (query.priceMin !== undefined) {
+      where.push(`${CURRENT_PRICE(at)} >= ?`);
+      params.push(pad(query.priceMin));
+    }
+    if (query.priceMax !== undefined) {
+      where.push(`${CURRENT_PRICE(at)} <= ?`);
+      params.push(pad(query.priceMax));
+    }
+    const filter = where.length ? `WHERE ${where.join(" AND ")}` : "";
+    const total = this.db
+      .prepare(`SELECT COUNT(*) FROM jobs ${filter}`)
+      .pluck()
+      .get(...params) as number;
+
+    const column = JOB_SORT_FIELDS[query.sort](at);
+    const direction = query.descending ? "DESC" : "ASC";
+    const pageWhere = [...where];
+    const pageParams = [...params];
+    if (query.after) {
+      pageWhere.push(`(${column}, id) ${query.descending ? "<" : ">"} (?, ?)`);
+      pageParams.push(query.after.value, query.after.id);
+    }
+    const rows = this.db
+      .prepare(
+        `SELECT *, ${FEEDBACK}, ${column} AS sort_value FROM jobs ${pageWhere.length ? `WHERE ${pageWhere.join(" AND ")}` : ""}
+         ORDER BY ${column} ${direction}, id ${direction} LIMIT ?`,
+      )
+      .all(...pageParams, query.limit + 1) as (JobRow & { sort_value: string | number })[];
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      jobs: page.map(fromRow),
+      total,
+      next: rows.length > query.limit ? { value: last.sort_value, id: BigInt(last.id) } : undefined,
+    };
+  }
+
+  /** Descriptions of jobs whose spec is posted as a URI that hasn't been fetched yet (see `setSpecText`) */
+  unfetchedSpecs(): string[] {
+    const descriptions = this.db
+      .prepare(
+        `SELECT DISTINCT description FROM jobs
+         WHERE (ltrim(description) LIKE 'ipfs://%' OR ltrim(description) LIKE 'http%')
+           AND description NOT IN (SELECT description FROM spec_texts)`,
+      )
+      .pluck()
+      .all() as string[];
+    return descriptions.filter(description => parseJobDescription(description).kind === "remote");
+  }
+
+  /** Indexes every job posted with `description`, a spec URI, by the words of the spec it points at */
+  setSpecText(description: string, matchText: string) {
+    this.db.transaction(() => {
+      this.db.prepare("INSERT OR REPLACE INTO spec_texts VALUES (?, ?)").run(description, matchText);
+      this.db
+        .prepare("INSERT OR REPLACE INTO job_search (rowid, description) SELECT id, ? FROM jobs WHERE description = ?")
+        .run(matchText, description);
+    })();
+  }
+
+  /**
+   * Stores a poster's feedback on a job, replacing feedback signed no later than `signedAt`. Returns false, storing
+   * nothing, when the stored feedback was signed later. Callers check the signature.
+   */
+  setFeedback(jobId: bigint, text: string, signature: Hex, signedAt: bigint): boolean {
+    const { changes } = this.db
+      .prepare(
+        `INSERT INTO feedback (job_id, text, signature, created_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (job_id) DO UPDATE SET text = excluded.text, signature = excluded.signature,
+           created_at = excluded.created_at
+         WHERE excluded.created_at >= feedback.created_at`,
+      )
+      .run(jobId, text, signature, signedAt);
+    return changes > 0;
+  }
+
+  getClaim(jobId: bigint): ClaimRecord | undefined {
+    const row = this.db.prepare("SELECT * FROM claims WHERE job_id = ?").get(jobId) as ClaimRow | undefined;
+    return row && fromClaimRow(row);
+  }
+
+  /** An agent's claims, newest first */
+  listClaims(agent: Address): ClaimRecord[] {
+    const rows = this.db
+      .prepare("SELECT * FROM claims WHERE agent = ? ORDER BY block_number DESC, job_id DESC")
+      .all(agent.toLowerCase()) as ClaimRow[];
+    return rows.map(fromClaimRow);
+  }
+
+  getSubmission(jobId: bigint): SubmissionRecord | undefined {
+    const row = this.db.prepare("SELECT * FROM submissions WHERE job_id = ?").get(jobId) as
+      | (Omit<ClaimRow, "agent_id" | "price"> & { uri: string })
+      | undefined;
+    return (
+      row && {
+        jobId: BigInt(row.job_id),
+        agent: getAddress(row.agent),
+        uri: row.uri,
+        timestamp: BigInt(row.timestamp),
+        blockNumber: BigInt(row.block_number),
+        transactionHash: row.tx_hash as Hash,
+      }
+    );
+  }
+
+  getAgent(address: Address): AgentSummary | undefined {
+    const row = this.db.prepare(`SELECT * FROM (${AGENT_SUMMARIES}) WHERE address = ?`).get(address.toLowerCase()) as
+      | AgentRow
+      | undefined;
+    return row && fromAgentRow(row);
+  }
+
+  listAgents(query: SummaryQuery<keyof typeof AGENT_SORT_FIELDS>): { agents: AgentSummary[]; total: number } {
+    const direction = query.descending ? "DESC" : "ASC";
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM (${AGENT_SUMMARIES}) ORDER BY ${AGENT_SORT_FIELDS[query.sort]} ${direction}, address LIMIT ? OFFSET ?`,
+      )
+      .all(query.limit, query.offset) as AgentRow[];
+    const total = this.db.prepare(`SELECT COUNT(*) FROM (${AGENT_SUMMARIES})`).pluck().get() as number;
+    return { agents: rows.map(fromAgentRow), total };
+  }
+
+  /** What an agent was paid for completed jobs, grouped into periods of `seconds` by completion time */
+  agentEarnings(address: Address, seconds: number): EarningsPeriod[] {
+    const rows = this.db
+      .prepare(
+        `SELECT (closed_at / ?) * ? AS start, big_sum(agent_payment) AS amount, COUNT(*) AS jobs FROM jobs
+         WHERE agent = ? AND status = ${JobStatus.Completed} GROUP BY start ORDER BY start`,
+      )
+      .all(seconds, seconds, address.toLowerCase()) as { start: number; amount: string; jobs: number }[];
+    return rows.map(row => ({ start: BigInt(row.start), amount: BigInt(row.amount), jobs: row.jobs }));
+  }
+
+  getPoster(address: Address): PosterSummary | undefined {
+    const row = this.db.prepare(`SELECT * FROM (${POSTER_SUMMARIES}) WHERE address = ?`).get(address.toLowerCase()) as
+      | PosterRow
+      | undefined;
+    return row && fromPosterRow(row);
+  }
+
+  listPosters(query: SummaryQuery<keyof typeof POSTER_SORT_FIELDS>): { posters: PosterSummary[]; total: number } {
+    const direction = query.descending ? "DESC" : "ASC";
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM (${POSTER_SUMMARIES}) ORDER BY ${POSTER_SORT_FIELDS[query.sort]} ${direction}, address LIMIT ? OFFSET ?`,
+      )
+      .all(query.limit, query.offset) as PosterRow[];
+    const total = this.db.prepare(`SELECT COUNT(*) FROM (${POSTER_SUMMARIES})`).pluck().get() as number;
+    return { posters: rows.map(fromPosterRow), total };
+  }
+
+  /**
+   * Agents ranked by one metric over a window. Agents without a value for it (e.g. no rating yet) rank last whichever
+   * the direction; ties go by address.
+   */
+  leaderboard(query: LeaderboardQuery): LeaderboardEntry[] {
+    const since = Number(query.since ?? 0n);
+    const claims = this.db
+      .prepare(
+        `SELECT claims.agent, claims.agent_id, claims.price, jobs.max_price FROM claims
+         JOIN jobs ON jobs.id = claims.job_id WHERE claims.timestamp >= ?`,
+      )
+      .all(since) as { agent: string; agent_id: string; price: string; max_price: string }[];
+    const closed = this.db
+      .prepare(
+        `SELECT agent, agent_id, status, rating, agent_payment FROM jobs
+         WHERE agent != '${ZERO_ADDRESS}' AND closed_at >= ?
+           AND status IN (${JobStatus.Completed}, ${JobStatus.Disputed}, ${JobStatus.Expired})`,
+      )
+      .all(since) as {
+      agent: string;
+      agent_id: string;
+      status: number;
+      rating: number;
+      agent_payment: string | null;
+    }[];
+
+    type Tally = Omit<LeaderboardEntry, "agentIds"> & { agentIds: Set<string>; ratings: number; discounts: number[] };
+    const tallies = new Map<string, Tally>();
+    const tally = (agent: string, agentId: string) => {
+      let entry = tallies.get(agent);
+      if (!entry) {
+        entry = {
+          address: getAddress(agent),
+          agentIds: new Set(),
+          jobsClaimed: 0,
+          completedJobs: 0,
+          disputedJobs: 0,
+          expiredJobs: 0,
+          totalEarned: 0n,
+          ratings: 0,
+          discounts: [],
+        };
+        tallies.set(agent, entry);
+      }
+      entry.agentIds.add(agentId);
+      return entry;
+    };
+
+    for (const claim of claims) {
+      const entry = tally(claim.agent, claim.agent_id);
+      entry.jobsClaimed++;
+      const maxPrice = BigInt(claim.max_price);
+      if (maxPrice > 0n) entry.discounts.push(Number(((maxPrice - BigInt(claim.price)) * 10_000n) / maxPrice) / 10_000);
+    }
+    for (const job of closed) {
+      const entry = tally(job.agent, job.agent_id);
+      if (job.status === JobStatus.Completed) {
+        entry.completedJobs++;
+        entry.ratings += job.rating;
+        entry.totalEarned += BigInt(job.agent_payment ?? 0);
+      } else if (job.status === JobStatus.Disputed) entry.disputedJobs++;
+      else entry.expiredJobs++;
+    }
+
+    const entries: LeaderboardEntry[] = [...tallies.values()].map(({ agentIds, ratings, discounts, ...entry }) => {
+      const reviewed = entry.completedJobs + entry.disputedJobs;
+      return {
+        ...entry,
+        agentIds: [...agentIds].map(BigInt),
+        averageRating: entry.completedJobs > 0 ? ratings / entry.completedJobs : undefined,
+        disputeRatio: reviewed > 0 ? entry.disputedJobs / reviewed : undefined,
+        medianClaimDiscount: median(discounts),
+      };
+    });
+
+    const direction = query.descending ? -1 : 1;
+    return entries
+      .sort((a, b) => {
+        const [x, y] = [a[query.sort], b[query.sort]];
+        if (x === y) return a.address.localeCompare(b.address);
+        if (x === undefined || y === undefined) return x === undefined ? 1 : -1;
+        return (x < y ? -1 : 1) * direction;
+      })
+      .slice(0, query.limit);
+  }
+
+  platformTotals(): PlatformTotals {
+    const jobs = this.db
+      .prepare(
+        `SELECT
+           COUNT(*) AS jobs_posted,
+           COALESCE(SUM(status = ${JobStatus.Completed}), 0) AS jobs_completed,
+           big_sum(agent_payment) AS total_paid,
+           COALESCE(SUM(status = ${JobStatus.Disputed}), 0) AS disputes,
+           COUNT(DISTINCT NULLIF(agent, '${ZERO_ADDRESS}')) AS agents,
+           COUNT(DISTINCT poster) AS posters
+         FROM jobs`,
+      )
+      .get() as {
+      jobs_posted: number;
+      jobs_completed: number;
+      total_paid: string;
+      disputes: number;
+      agents: number;
+      posters: number;
+    };
+    const fees = this.db
+      .prepare(
+        `SELECT
+           big_sum(CASE WHEN kind = 'collected' THEN amount END) AS collected,
+           big_sum(CASE WHEN kind = 'withdrawn' THEN amount END) AS withdrawn
+         FROM fee_events`,
+      )
+      .get() as { collected: string; withdrawn: string };
+    const rate = this.db
+      .prepare("SELECT amount FROM fee_events WHERE kind = 'rate' ORDER BY block_number DESC, log_index DESC LIMIT 1")
+      .pluck()
+      .get() as string | undefined;
+
+    const feesCollected = BigInt(fees.collected);
+    const feesWithdrawn = BigInt(fees.withdrawn);
+    return {
+      jobsPosted: jobs.jobs_posted,
+      jobsCompleted: jobs.jobs_completed,
+      totalPaid: BigInt(jobs.total_paid),
+      disputes: jobs.disputes,
+      feesCollected,
+      feesWithdrawn,
+      feeBalance: feesCollected - feesWithdrawn,
+      protocolFeeBps: rate === undefined ? undefined : Number(rate),
+      agents: jobs.agents,
+      posters: jobs.posters,
+    };
+  }
+
+  private insertEvent(log: BoardLog, timestamp: bigint): bigint | undefined {
+    const jobId = "jobId" in log.args ? log.args.jobId : undefined;
+    this.db
+      .prepare("INSERT OR REPLACE INTO events VALUES (?, ?, ?, ?, ?, ?, ?)")
+      .run(
+        log.blockNumber,
+        log.logIndex,
+        log.transactionHash,
+        log.eventName,
+        jobId ?? null,
+        JSON.stringify(log.topics),
+        log.data,
+      );
+
+    const at = [log.blockNumber, log.logIndex] as const;
+    const insertFee = this.db.prepare("INSERT OR REPLACE INTO fee_events VALUES (?, ?, ?, ?, ?, ?, ?, ?)");
+    switch (log.eventName) {
+      case "JobClaimed": {
+        const { jobId, agent, agentId, paidAmount } = log.args;
+        this.db
+          .prepare("INSERT OR REPLACE INTO claims VALUES (?, ?, ?, ?, ?, ?, ?)")
+          .run(
+            jobId,
+            agent.toLowerCase(),
+            agentId.toString(),
+            pad(paidAmount),
+            timestamp,
+            log.blockNumber,
+            log.transactionHash,
+          );
+        break;
+      }
+      case "WorkSubmitted": {
+        const agent = this.getJob(log.args.jobId)?.agent ?? "";
+        this.db
+          .prepare("INSERT OR REPLACE INTO submissions VALUES (?, ?, ?, ?, ?, ?)")
+          .run(
+            log.args.jobId,
+            agent.toLowerCase(),
+            log.args.submissionURI,
+            timestamp,
+            log.blockNumber,
+            log.transactionHash,
+          );
+        break;
+      }
+      case "WorkApproved":
+        if (log.args.fee > 0n) {
+          insertFee.run(...at, "collected", log.args.jobId, pad(log.args.fee), null, timestamp, log.transactionHash);
+        }
+        break;
+      case "FeesWithdrawn":
+        insertFee.run(
+          ...at,
+          "withdrawn",
+          null,
+          pad(log.args.amount),
+          log.args.recipient.toLowerCase(),
+          timestamp,
+          log.transactionHash,
+        );
+        break;
+      case "ProtocolFeeUpdated":
+        insertFee.run(...at, "rate", null, pad(log.args.newFee), null, timestamp, log.transactionHash);
+        break;
+      case "FeeRecipientUpdated":
+        insertFee.run(
+          ...at,
+          "recipient",
+          null,
+          null,
+          log.args.newRecipient.toLowerCase(),
+          timestamp,
+          log.transactionHash,
+        );
+        break;
+    }
+    return jobId;
+  }
+
+  private saveJob(job: IndexedJob) {
+    const specText = this.db
+      .prepare("SELECT match_text FROM spec_texts WHERE description = ?")
+      .pluck()
+      .get(job.description) as string | undefined;
+    this.db
+      .prepare("INSERT OR REPLACE INTO job_search (rowid, description) VALUES (?, ?)")
+      // Specs are indexed by their words: inline and data: ones right away, ones posted as URIs once fetched
+      .run(job.id, specText ?? jobMatchText(job.description));
+    this.db
+      .prepare("INSERT OR REPLACE INTO jobs VALUES (" + Array(22).fill("?").join(", ") + ")")
+      .run(
+        job.id,
+        job.poster.toLowerCase(),
+        job.description,
+        pad(job.minPrice),
+        pad(job.maxPrice),
+        job.auctionStart,
+        job.auctionDuration,
+        job.workDeadline,
+        job.status,
+        job.agent.toLowerCase(),
+        job.agentId.toString(),
+        job.claimedAt,
+        pad(job.paidAmount),
+        job.submissionURI,
+        job.submittedAt ?? null,
+        job.rating,
+        job.agentPayment === undefined ? null : pad(job.agentPayment),
+        job.fee === undefined ? null : pad(job.fee),
+        job.closedAt ?? null,
+        job.postedBlock,
+        job.postedTx,
+        job.updatedBlock,
+      );
+  }
+
+  private getBlock(number: bigint): BlockInfo | undefined {
+    const row = this.db.prepare("SELECT * FROM blocks WHERE number = ?").get(number) as
+      | { number: number; hash: Hash; timestamp: number }
+      | undefined;
+    return row && { number: BigInt(row.number), hash: row.hash, timestamp: BigInt(row.timestamp) };
+  }
+
+  private getMeta(key: string): string | undefined {
+    return this.db.prepare("SELECT value FROM meta WHERE key = ?").pluck().get(key) as string | undefined;
+  }
+
+  private setMeta(key: string, value: string) {
+    this.db.prepare("INSERT OR REPLACE INTO meta VALUES (?, ?)").run(key, value);
+  }
+
+  private deleteMeta(key: string) {
+    this.db.prepare("DELETE FROM meta WHERE key = ?").run(key);
+  }
+
+  /**
+   * Drops every table and recreates the schema, so the next sync indexes from scratch. Feedback can't be indexed
+   * again, so it is kept, along with the board it belongs to, unless the database is starting over for another board.
+   */
+  private reset({ keepFeedback = true } = {}) {
+    this.db.transaction(() => {
+      const tables = this.db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").pluck().all() as string[];
+      const board = keepFeedback && tables.includes("meta") ? this.getMeta("board") : undefined;
+      // IF EXISTS: dropping the full-text index drops its shadow tables with it
+      for (const table of tables) {
+        if (!keepFeedback || table !== "feedback") this.db.exec(`DROP TABLE IF EXISTS ${table}`);
+      }
+      this.db.exec(SCHEMA);
+      if (board !== undefined) this.setMeta("board", board);
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    })();
+  }
+}
+
+/**
+ * Turns free text into an FTS5 query: every word must appear, and the last one may be the start of a word, so results
+ * narrow as the user types. Undefined if there are no words.
+ */
+function searchExpression(search: string | undefined): string | undefined {
+  const words = search?.match(/[\p{L}\p{N}]+/gu);
+  if (!words) return undefined;
+  return words.map((word, i) => `"${word}"${i === words.length - 1 ? "*" : ""}`).join(" ");
+}
+
+/**
+ * Folds one event into a job's state, the way the contract changes it. Returns undefined for a job whose
+ * `JobPosted` has not been seen.
+ */
+function applyEvent(job: IndexedJob | undefined, log: BoardLog, timestamp: bigint): IndexedJob | undefined {
+  const updated = { updatedBlock: log.blockNumber };
+  if (log.eventName === "JobPosted") {
+    const { jobId, poster, description, minPrice, maxPrice, auctionDuration, workDeadline } = log.args;
+    return {
+      id: jobId,
+      poster,
+      description,
+      minPrice,
+      maxPrice,
+      auctionStart: timestamp,
+      auctionDuration,
+      workDeadline,
+      status: JobStatus.Open,
+      agent: ZERO_ADDRESS,
+      agentId: 0n,
+      claimedAt: 0n,
+      submissionURI: "",
+      paidAmount: 0n,
+      rating: 0,
+      postedBlock: log.blockNumber,
+      postedTx: log.transactionHash,
+      ...updated,
+    };
+  }
+  if (!job) return undefined;
+
+  switch (log.eventName) {
+    case "JobClaimed":
+      return {
+        ...job,
+        ...updated,
+        status: JobStatus.Claimed,
+        agent: log.args.agent,
+        agentId: log.args.agentId,
+        claimedAt: timestamp,
+        paidAmount: log.args.paidAmount,
+      };
+    case "WorkSubmitted":
+      return {
+        ...job,
+        ...updated,
+        status: JobStatus.Submitted,
+        submissionURI: log.args.submissionURI,
+        submittedAt: timestamp,
+      };
+    case "WorkApproved":
+      // Also emitted, with rating 0, when the agent reclaims unreviewed work
+      return {
+        ...job,
+        ...updated,
+        status: JobStatus.Completed,
+        rating: log.args.rating,
+        agentPayment: log.args.paidAmount,
+        fee: log.args.fee,
+        closedAt: timestamp,
+      };
+    case "WorkDisputed":
+      return { ...job, ...updated, status: JobStatus.Disputed, closedAt: timestamp };
+    case "JobCancelled":
+      return { ...job, ...updated, status: JobStatus.Cancelled, closedAt: timestamp };
+    case "JobExpired":
+      return { ...job, ...updated, status: JobStatus.Expired, closedAt: timestamp };
+    default:
+      return job;
+  }
+}
+
+function decodeRow(row: EventRow): BoardLog {
+  const topics = JSON.parse(row.topics) as [Hex, ...Hex[]];
+  const event = decodeEventLog({ abi: bountyBoardAbi, topics, data: row.data as Hex });
+  return {
+    ...event,
+    blockNumber: BigInt(row.block_number),
+    logIndex: row.log_index,
+    transactionHash: row.tx_hash as Hash,
+    topics,
+    data: row.data as Hex,
+  };
+}
+
+function fromClaimRow(row: ClaimRow): ClaimRecord {
+  return {
+    jobId: BigInt(row.job_id),
+    agent: getAddress(row.agent),
+    agentId: BigInt(row.agent_id),
+    price: BigInt(row.price),
+    timestamp: BigInt(row.timestamp),
+    blockNumber: BigInt(row.block_number),
+    transactionHash: row.tx_hash as Hash,
+  };
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function fromAgentRow(row: AgentRow): AgentSummary {
+  return {
+    address: getAddress(row.address),
+    agentIds: row.agent_ids.split(",").map(BigInt),
+    jobsClaimed: row.jobs_claimed,
+    activeJobs: row.active_jobs,
+    completedJobs: row.completed_jobs,
+    disputedJobs: row.disputed_jobs,
+    expiredJobs: row.expired_jobs,
+    totalEarned: BigInt(row.total_earned),
+    averageRating: row.average_rating,
+    firstCompletedAt: row.first_completed_at === null ? undefined : BigInt(row.first_completed_at),
+  };
+}
+
+function fromPosterRow(row: PosterRow): PosterSummary {
+  return {
+    address: getAddress(row.address),
+    jobsPosted: row.jobs_posted,
+    openJobs: row.open_jobs,
+    completedJobs: row.completed_jobs,
+    disputedJobs: row.disputed_jobs,
+    cancelledJobs: row.cancelled_jobs,
+    expiredJobs: row.expired_jobs,
+    totalSpent: BigInt(row.total_spent),
+  };
+}
+
+function fromRow(row: JobRow): IndexedJob {
+  return {
+    id: BigInt(row.id),
+    poster: getAddress(row.poster),
+    description: row.description,
+    minPrice: BigInt(row.min_price),
+    maxPrice: BigInt(row.max_price),
+    auctionStart: BigInt(row.auction_start),
+    auctionDuration: BigInt(row.auction_duration),
+    workDeadline: BigInt(row.work_deadline),
+    status: row.status as JobStatus,
+    agent: getAddress(row.agent),
+    agentId: BigInt(row.agent_id),
+    claimedAt: BigInt(row.claimed_at),
+    paidAmount: BigInt(row.paid_amount),
+    submissionURI: row.submission_uri,
+    submittedAt: row.submitted_at === null ? undefined : BigInt(row.submitted_at),
+    rating: row.rating,
+    agentPayment: row.agent_payment === null ? undefined : BigInt(row.agent_payment),
+    fee: row.fee === null ? undefined : BigInt(row.fee),
+    closedAt: row.closed_at === null ? undefined : BigInt(row.closed_at),
+    postedBlock: BigInt(row.posted_block),
+    postedTx: row.posted_tx as Hash,
+    updatedBlock: BigInt(row.updated_block),
+    feedback: row.feedback ?? undefined,
+  };
+}
+
+/** Amounts are stored as zero-padded decimal text: exact, and sortable */
+export function pad(amount: bigint): string {
+  return amount.toString().padStart(AMOUNT_DIGITS, "0");
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { JobStatus } from "@se-2/sdk";
+import { type Address, formatEther, isAddress, parseEther } from "viem";
+import { MagnifyingGlassIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { JOB_STATUS_LABELS } from "~~/utils/bountyBoard";
+import {
+  ALL_JOB_STATUSES,
+  DEFAULT_JOB_SEARCH,
+  JOB_SORTS,
+  type JobSearch,
+  type JobSortKey,
+  isFiltered,
+  jobSearchToParams,
+} from "~~/utils/jobSearch";
+
+/** Typing settles for this long before the search (and the URL) updates */
+const TYPING_DELAY_MS = 400;
+
+type Draft = { q: string; min: string; max: string; poster: string; agent: string };
+
+const toDraft = (search: JobSearch): Draft => ({
+  q: search.q,
+  min: search.minPrice === undefined ? "" : formatEther(search.minPrice),
+  max: search.maxPrice === undefined ? "" : formatEther(search.maxPrice),
+  poster: search.poster ?? "",
+  agent: search.agent ?? "",
+});
+
+/** undefined when empty, null when invalid */
+const parsePrice = (value: string): bigint | undefined | null => {
+  if (!value.trim()) return undefined;
+  try {
+    return parseEther(value.trim());
+  } catch {
+    return null;
+  }
+};
+
+const parseAddress = (value: string): Address | undefined | null =>
+  !value.trim() ? undefined : isAddress(value.trim()) ? value.trim() : null;
+
+/**
+ * Search box, status chips, price range, poster/agent fields and sort for the job board. Free-text fields apply once
+ * typing pauses; invalid values are flagged and left out of the search.
+ */
+export const JobFilters = ({ search, onChange }: { search: JobSearch; onChange: (search: JobSearch) => void }) => {
+  const [draft, setDraft] = useState(() => toDraft(search));
+  const committed = useRef(jobSearchToParams(search).toString());
+
+  // Follow the URL when it changes from outside (back/forward, a shared link)
+  const searchKey = jobSearchToParams(search).toString();
+  useEffect(() => {
+    if (searchKey !== committed.current) {
+      committed.current = searchKey;
+      setDraft(toDraft(search));
+    }
+  }, [searchKey, search]);
+
+  const minPrice = parsePrice(draft.min);
+  const maxPrice = parsePrice(draft.max);
+  const poster = parseAddress(draft.poster);
+  const agent = parseAddress(draft.agent);
+
+  const apply = (next: JobSearch) => {
+    committed.current = jobSearchToParams(next).toString();
+    onChange(next);
+  };
+
+  // Commit typing once it pauses, on top of whatever the rest of the search is by then
+  const latest = useRef(search);
+  latest.current = search;
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const current = latest.current;
+      const min = parsePrice(draft.min);
+      const max = parsePrice(draft.max);
+      const poster = parseAddress(draft.poster);
+      const agent = parseAddress(draft.agent);
+      const next: JobSearch = {
+        ...current,
+        q: draft.q,
+        minPrice: min === null ? current.minPrice : min,
+        maxPrice: max === null ? current.maxPrice : max,
+        poster: poster === null ? current.poster : poster,
+        agent: agent === null ? current.agent : agent,
+      };
+      if (jobSearchToParams(next).toString() !== jobSearchToParams(current).toString()) apply(next);
+    }, TYPING_DELAY_MS);
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draft]);
+
+  const toggleStatus = (status: JobStatus) =>
+    apply({
+      ...search,
+      statuses: search.statuses.includes(status)
+        ? search.statuses.filter(s => s !== status)
+        : [...search.statuses, status].sort((a, b) => a - b),
+    });
+
+  const clear = () => {
+    setDraft(toDraft(DEFAULT_JOB_SEARCH));
+    apply({ ...DEFAULT_JOB_SEARCH, sort: search.sort });
+  };
+
+  return (
+    <div className="bg-base-300 rounded-2xl p-4 mb-6 flex flex-col gap-3">
+      <div className="flex flex-col md:flex-row gap-3">
+        <label className="input input-bordered input-sm flex items-center gap-2 grow">
+          <MagnifyingGlassIcon className="h-4 w-4 opacity-60" />
+          <input
+            type="search"
+            className="grow"
+            placeholder="Search descriptions"
+            value={draft.q}
+            onChange={e => setDraft({ ...draft, q: e.target.value })}
+          />
+        </label>
+        <select
+          className="select select-bordered select-sm"
+          value={search.sort}
+          onChange={e => apply({ ...search, sort: e.target.value as JobSortKey })}
+        >
+          {Object.entries(JOB_SORTS).map(([key, { label }]) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          className={`btn btn-xs ${search.statuses.length === 0 ? "btn-primary" : "btn-ghost"}`}
+          onClick={() => apply({ ...search, statuses: [] })}
+        >
+          All
+        </button>
+        {ALL_JOB_STATUSES.map(status => (
+          <button
+            key={status}
+            className={`btn btn-xs ${search.statuses.includes(status) ? "btn-primary" : "btn-ghost"}`}
+            onClick={() => toggleStatus(status)}
+          >
+            {JOB_STATUS_LABELS[status]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <input
+          className={`input input-bordered input-sm ${minPrice === null ? "input-error" : ""}`}
+          inputMode="decimal"
+          placeholder="Min price (CLAWD)"
+          value={draft.min}
+          onChange={e => setDraft({ ...draft, min: e.target.value })}
+        />
+        <input
+          className={`input input-bordered input-sm ${maxPrice === null ? "input-error" : ""}`}
+          inputMode="decimal"
+          placeholder="Max price (CLAWD)"
+          value={draft.max}
+          onChange={e => setDraft({ ...draft, max: e.target.value })}
+        />
+        <input
+          className={`input input-bordered input-sm font-mono ${poster === null ? "input-error" : ""}`}
+          placeholder="Poster 0x…"
+          value={draft.poster}
+          onChange={e => setDraft({ ...draft, poster: e.target.value })}
+        />
+        <input
+          className={`input input-bordered input-sm font-mono ${agent === null ? "input-error" : ""}`}
+          placeholder="Agent 0x…"
+          value={draft.agent}
+          onChange={e => setDraft({ ...draft, agent: e.target.value })}
+        />
+      </div>
+
+      {isFiltered(search) && (
+        <div>
+          <button className="btn btn-ghost btn-xs gap-1" onClick={clear}>
+            <XMarkIcon className="h-3 w-3" />
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
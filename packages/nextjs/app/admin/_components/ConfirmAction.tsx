@@ -0,0 +1,78 @@
+"use client";
+
+import { type ReactNode, useState } from "react";
+
+type Props = {
+  /** The button that opens the confirmation */
+  label: ReactNode;
+  className?: string;
+  disabled?: boolean;
+  title: string;
+  /** What the action will do, shown above the input */
+  description: ReactNode;
+  /** What the owner must type, exactly, before the action runs */
+  phrase: string;
+  onConfirm: () => Promise<unknown>;
+};
+
+/**
+ * A button for an owner-only action that opens a dialog asking the owner to type `phrase` before `onConfirm` runs.
+ * The dialog stays open with the error logged if the transaction fails or is rejected.
+ */
+export const ConfirmAction = ({ label, className, disabled, title, description, phrase, onConfirm }: Props) => {
+  const [open, setOpen] = useState(false);
+  const [typed, setTyped] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const close = () => {
+    setOpen(false);
+    setTyped("");
+  };
+
+  const handleConfirm = async () => {
+    setBusy(true);
+    try {
+      await onConfirm();
+      close();
+    } catch (e) {
+      console.error(`${title} failed:`, e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <button className={className ?? "btn btn-sm btn-primary"} disabled={disabled} onClick={() => setOpen(true)}>
+        {label}
+      </button>
+      {open && (
+        <div className="modal modal-open" role="dialog" aria-label={title}>
+          <div className="modal-box">
+            <h3 className="font-bold text-lg">{title}</h3>
+            <div className="py-3 text-sm">{description}</div>
+            <label className="text-sm">
+              Type <code className="bg-base-300 px-1 rounded">{phrase}</code> to confirm
+            </label>
+            <input
+              type="text"
+              className="input input-bordered w-full mt-2 font-mono"
+              value={typed}
+              onChange={e => setTyped(e.target.value)}
+              autoFocus
+            />
+            <div className="modal-action">
+              <button className="btn btn-ghost" onClick={close} disabled={busy}>
+                Cancel
+              </button>
+              <button className="btn btn-error" onClick={handleConfirm} disabled={typed !== phrase || busy}>
+                {busy ? <span className="loading loading-spinner loading-sm"></span> : "Confirm"}
+              </button>
+            </div>
+          </div>
+          <div className="modal-backdrop" onClick={busy ? undefined : close} />
+        </div>
+      )}
+    </>
+  );
+};
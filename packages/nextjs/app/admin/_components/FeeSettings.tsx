@@ -0,0 +1,198 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ConfirmAction } from "./ConfirmAction";
+import { Address, AddressInput } from "@scaffold-ui/components";
+import { type Job, JobStatus } from "@se-2/sdk";
+import { type Address as AddressType, formatEther, isAddress } from "viem";
+import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+const BPS = 10_000n;
+/** Recently completed jobs the preview recomputes */
+const PREVIEW_JOBS = 10;
+
+const formatClawd = (amount: bigint) => parseFloat(formatEther(amount)).toFixed(2);
+const formatBps = (bps: bigint) => `${(Number(bps) / 100).toFixed(2)}%`;
+
+/** The contract's fee math: `paidAmount * protocolFeeBps / BPS`, rounded down */
+const feeOf = (job: Job, bps: bigint) => (job.paidAmount * bps) / BPS;
+
+type Props = {
+  currentBps: bigint;
+  maxBps: bigint;
+  feeRecipient: AddressType;
+  feeBalance: bigint;
+  /** Claimed-or-later jobs, newest first */
+  jobs: Job[];
+};
+
+/**
+ * The protocol fee, its recipient and the collected balance. A fee change applies to every job approved after it,
+ * including those already claimed, so the preview shows the in-flight jobs it will hit and what recent jobs would have
+ * paid under it.
+ */
+export const FeeSettings = ({ currentBps, maxBps, feeRecipient, feeBalance, jobs }: Props) => {
+  const [feeInput, setFeeInput] = useState("");
+  const [recipient, setRecipient] = useState("");
+
+  const { writeContractAsync: writeBoard } = useScaffoldWriteContract({
+    contractName: "AgentBountyBoard",
+  });
+
+  const newBps = /^\d+$/.test(feeInput.trim()) ? BigInt(feeInput.trim()) : undefined;
+  const feeValid = newBps !== undefined && newBps <= maxBps && newBps !== currentBps;
+
+  const inFlight = jobs.filter(job => job.status === JobStatus.Claimed || job.status === JobStatus.Submitted);
+  const recent = jobs.filter(job => job.status === JobStatus.Completed).slice(0, PREVIEW_JOBS);
+  const sum = (list: Job[], bps: bigint) => list.reduce((total, job) => total + feeOf(job, bps), 0n);
+
+  return (
+    <div className="card bg-base-300 shadow-xl">
+      <div className="card-body gap-4">
+        <h3 className="text-lg font-semibold">💸 Protocol Fee</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+          <div className="bg-base-100 rounded-lg p-3">
+            <div className="opacity-60 text-xs">Current fee</div>
+            <div className="font-bold text-xl">{formatBps(currentBps)}</div>
+            <div className="opacity-60 text-xs">
+              {currentBps.toString()} bps, max {maxBps.toString()}
+            </div>
+          </div>
+          <div className="bg-base-100 rounded-lg p-3">
+            <div className="opacity-60 text-xs">Collected, not withdrawn</div>
+            <div className="font-bold text-xl">{formatClawd(feeBalance)} CLAWD</div>
+          </div>
+          <div className="bg-base-100 rounded-lg p-3">
+            <div className="opacity-60 text-xs">Recipient</div>
+            <Address address={feeRecipient} size="sm" />
+          </div>
+        </div>
+
+        {/* Fee change with preview */}
+        <div className="bg-base-100 rounded-lg p-4 flex flex-col gap-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="form-control">
+              <span className="label-text text-xs opacity-60">New fee (bps, 100 = 1%)</span>
+              <input
+                type="number"
+                min={0}
+                max={Number(maxBps)}
+                className={`input input-bordered input-sm w-40 ${feeInput && !feeValid ? "input-error" : ""}`}
+                value={feeInput}
+                onChange={e => setFeeInput(e.target.value)}
+                placeholder={currentBps.toString()}
+              />
+            </label>
+            <ConfirmAction
+              label="Set fee"
+              disabled={!feeValid}
+              title="Change the protocol fee"
+              description={
+                newBps !== undefined && (
+                  <>
+                    The fee goes from {formatBps(currentBps)} to {formatBps(newBps)} for every approval from now on,
+                    including the {inFlight.length} job{inFlight.length === 1 ? "" : "s"} already claimed.
+                  </>
+                )
+              }
+              phrase={feeInput.trim()}
+              onConfirm={() => writeBoard({ functionName: "setProtocolFee", args: [newBps as bigint] })}
+            />
+            {newBps !== undefined && newBps > maxBps && (
+              <span className="text-xs text-error">The contract caps the fee at {maxBps.toString()} bps</span>
+            )}
+          </div>
+
+          {feeValid && (
+            <div className="text-sm flex flex-col gap-2">
+              <div>
+                <span className="font-semibold">In flight:</span> {inFlight.length} claimed or submitted job
+                {inFlight.length === 1 ? "" : "s"} would pay {formatClawd(sum(inFlight, newBps))} CLAWD in fees instead
+                of {formatClawd(sum(inFlight, currentBps))}.
+              </div>
+              {recent.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="table table-xs">
+                    <thead>
+                      <tr>
+                        <th>Recent job</th>
+                        <th className="text-right">Price</th>
+                        <th className="text-right">Fee now</th>
+                        <th className="text-right">Fee at {formatBps(newBps)}</th>
+                        <th className="text-right">Agent would get</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {recent.map(job => (
+                        <tr key={job.id.toString()}>
+                          <td>
+                            <Link href={`/job?id=${job.id}`} className="link link-primary">
+                              #{job.id.toString()}
+                            </Link>
+                          </td>
+                          <td className="text-right font-mono">{formatClawd(job.paidAmount)}</td>
+                          <td className="text-right font-mono">{formatClawd(feeOf(job, currentBps))}</td>
+                          <td className="text-right font-mono">{formatClawd(feeOf(job, newBps))}</td>
+                          <td className="text-right font-mono">{formatClawd(job.paidAmount - feeOf(job, newBps))}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr>
+                        <td>Total</td>
+                        <td className="text-right font-mono">
+                          {formatClawd(recent.reduce((total, job) => total + job.paidAmount, 0n))}
+                        </td>
+                        <td className="text-right font-mono">{formatClawd(sum(recent, currentBps))}</td>
+                        <td className="text-right font-mono">{formatClawd(sum(recent, newBps))}</td>
+                        <td />
+                      </tr>
+                    </tfoot>
+                  </table>
+                  <div className="text-xs opacity-60 mt-1">
+                    &quot;Fee now&quot; uses today&apos;s rate; what these jobs actually paid depended on the rate when
+                    each was approved.
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Recipient and withdrawal */}
+        <div className="bg-base-100 rounded-lg p-4 flex flex-wrap items-end gap-3">
+          <div className="grow min-w-64">
+            <span className="label-text text-xs opacity-60">New fee recipient</span>
+            <AddressInput value={recipient} onChange={setRecipient} placeholder="0x..." />
+          </div>
+          <ConfirmAction
+            label="Set recipient"
+            disabled={!isAddress(recipient)}
+            title="Change the fee recipient"
+            description="Withdrawn fees will go to the new address, including the balance collected so far."
+            phrase="recipient"
+            onConfirm={async () => {
+              await writeBoard({ functionName: "setFeeRecipient", args: [recipient as AddressType] });
+              setRecipient("");
+            }}
+          />
+          <ConfirmAction
+            label={`Withdraw ${formatClawd(feeBalance)} CLAWD`}
+            className="btn btn-sm btn-success"
+            disabled={feeBalance === 0n}
+            title="Withdraw protocol fees"
+            description={
+              <>
+                Sends {formatClawd(feeBalance)} CLAWD to the fee recipient <Address address={feeRecipient} size="xs" />.
+              </>
+            }
+            phrase="withdraw"
+            onConfirm={() => writeBoard({ functionName: "withdrawFees" })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
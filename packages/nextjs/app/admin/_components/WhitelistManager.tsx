@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import { ConfirmAction } from "./ConfirmAction";
+import { Address, AddressInput } from "@scaffold-ui/components";
+import type { Job } from "@se-2/sdk";
+import { useLocalStorage } from "usehooks-ts";
+import { type Address as AddressType, type Hash, isAddress, zeroAddress } from "viem";
+import { useReadContracts } from "wagmi";
+import { useDeployedContractInfo, useScaffoldWriteContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import scaffoldConfig from "~~/scaffold.config";
+
+type WhitelistAction = "verify" | "revoke";
+
+/** A whitelist change made from this console, kept in the browser since the contract doesn't log them */
+type WhitelistLogEntry = { address: AddressType; action: WhitelistAction; timestamp: number; txHash?: Hash };
+
+type Props = {
+  /** Claimed-or-later jobs, whose agents are the addresses most likely to need verifying */
+  jobs: Job[];
+};
+
+/**
+ * The verified-agent-owner whitelist, which lets an address claim for agents it doesn't own (multisigs, contract
+ * wallets). `verifyAgentOwner` and `revokeAgentOwner` emit no events, so the list can't be rebuilt from logs: it is
+ * every address that has claimed a job plus every address changed from this browser, each checked against
+ * `verifiedAgentOwners`.
+ */
+export const WhitelistManager = ({ jobs }: Props) => {
+  const [search, setSearch] = useState("");
+  const [newAddress, setNewAddress] = useState("");
+
+  const { targetNetwork } = useTargetNetwork();
+  const { data: board } = useDeployedContractInfo({ contractName: "AgentBountyBoard" });
+  const [log, setLog] = useLocalStorage<WhitelistLogEntry[]>(
+    `bountyBoard.whitelistLog.${targetNetwork.id}.${board?.address ?? zeroAddress}`,
+    [],
+  );
+
+  const { writeContractAsync: writeBoard } = useScaffoldWriteContract({
+    contractName: "AgentBountyBoard",
+  });
+
+  const lastChange = new Map<string, WhitelistLogEntry>();
+  for (const entry of log) lastChange.set(entry.address.toLowerCase(), entry);
+
+  const candidates = new Map<string, AddressType>();
+  for (const entry of log) candidates.set(entry.address.toLowerCase(), entry.address);
+  for (const job of jobs) if (job.agent !== zeroAddress) candidates.set(job.agent.toLowerCase(), job.agent);
+  const addresses = [...candidates.values()];
+
+  const { data: verified, refetch } = useReadContracts({
+    contracts: addresses.map(address => ({
+      chainId: targetNetwork.id,
+      address: board?.address,
+      abi: board?.abi,
+      functionName: "verifiedAgentOwners",
+      args: [address],
+    })),
+    query: { enabled: Boolean(board) && addresses.length > 0, refetchInterval: scaffoldConfig.pollingInterval },
+  });
+  const isVerified = (i: number) => verified?.[i]?.result as boolean | undefined;
+
+  const change = async (address: AddressType, action: WhitelistAction) => {
+    const txHash = await writeBoard({
+      functionName: action === "verify" ? "verifyAgentOwner" : "revokeAgentOwner",
+      args: [address],
+    });
+    setLog([...log, { address, action, timestamp: Math.floor(Date.now() / 1000), txHash }]);
+    await refetch();
+  };
+
+  const query = search.trim().toLowerCase();
+  const rows = addresses
+    .map((address, i) => ({ address, verified: isVerified(i), last: lastChange.get(address.toLowerCase()) }))
+    .filter(row => !query || row.address.toLowerCase().includes(query))
+    // Verified first, then the most recently changed
+    .sort(
+      (a, b) =>
+        Number(b.verified ?? false) - Number(a.verified ?? false) ||
+        (b.last?.timestamp ?? 0) - (a.last?.timestamp ?? 0),
+    );
+
+  return (
+    <div className="card bg-base-300 shadow-xl">
+      <div className="card-body gap-4">
+        <h3 className="text-lg font-semibold">✅ Verified Agent Owners</h3>
+        <p className="text-xs opacity-60">
+          A verified address may claim jobs for agents it doesn&apos;t own when a registry is set. The contract emits no
+          events for these changes, so this list only covers addresses that have claimed a job and changes made from
+          this browser.
+        </p>
+
+        <div className="bg-base-100 rounded-lg p-4 flex flex-wrap items-end gap-3">
+          <div className="grow min-w-64">
+            <span className="label-text text-xs opacity-60">Verify a new address</span>
+            <AddressInput value={newAddress} onChange={setNewAddress} placeholder="0x..." />
+          </div>
+          <ConfirmAction
+            label="Verify"
+            disabled={!isAddress(newAddress)}
+            title="Verify an agent owner"
+            description={
+              isAddress(newAddress) && (
+                <>
+                  <Address address={newAddress} size="sm" /> will be able to claim jobs for any registered agent.
+                </>
+              )
+            }
+            phrase="verify"
+            onConfirm={async () => {
+              await change(newAddress as AddressType, "verify");
+              setNewAddress("");
+            }}
+          />
+        </div>
+
+        <input
+          type="text"
+          className="input input-bordered input-sm w-full"
+          placeholder="Search addresses..."
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+        />
+
+        {rows.length === 0 ? (
+          <div className="text-center py-6 opacity-50 text-sm">
+            {addresses.length === 0 ? "No known addresses yet" : "No addresses match"}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>Address</th>
+                  <th>Status</th>
+                  <th>Last change here</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const action: WhitelistAction = row.verified ? "revoke" : "verify";
+                  return (
+                    <tr key={row.address}>
+                      <td>
+                        <Address address={row.address} size="sm" />
+                      </td>
+                      <td>
+                        {row.verified === undefined ? (
+                          <span className="loading loading-dots loading-xs"></span>
+                        ) : row.verified ? (
+                          <span className="badge badge-success badge-sm">verified</span>
+                        ) : (
+                          <span className="badge badge-ghost badge-sm">not verified</span>
+                        )}
+                      </td>
+                      <td className="text-xs opacity-60">
+                        {row.last
+                          ? `${row.last.action === "verify" ? "Verified" : "Revoked"} ${new Date(row.last.timestamp * 1000).toLocaleString()}`
+                          : "—"}
+                      </td>
+                      <td className="text-right">
+                        <ConfirmAction
+                          label={row.verified ? "Revoke" : "Verify"}
+                          className={`btn btn-xs ${row.verified ? "btn-error btn-outline" : "btn-primary"}`}
+                          disabled={row.verified === undefined}
+                          title={row.verified ? "Revoke an agent owner" : "Verify an agent owner"}
+                          description={
+                            <>
+                              <Address address={row.address} size="sm" />{" "}
+                              {row.verified
+                                ? "will only be able to claim jobs for agents it owns."
+                                : "will be able to claim jobs for any registered agent."}
+                            </>
+                          }
+                          phrase={action}
+                          onConfirm={() => change(row.address, action)}
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
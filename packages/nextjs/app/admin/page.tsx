@@ -0,0 +1,240 @@
+"use client";
+
+import { useState } from "react";
+import { ConfirmAction } from "./_components/ConfirmAction";
+import { FeeSettings } from "./_components/FeeSettings";
+import { WhitelistManager } from "./_components/WhitelistManager";
+import { Address, AddressInput } from "@scaffold-ui/components";
+import { JobStatus } from "@se-2/sdk";
+import type { NextPage } from "next";
+import { type Address as AddressType, formatUnits, isAddress, zeroAddress } from "viem";
+import { useAccount, useReadContract } from "wagmi";
+import { useDeployedContractInfo, useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useBoardJobs } from "~~/hooks/useBoardJobs";
+import { ERC20_ABI } from "~~/utils/bountyBoard";
+
+/** Jobs whose price is settled, the ones the fee preview and whitelist draw on */
+const CLAIMED_STATUSES = [
+  JobStatus.Claimed,
+  JobStatus.Submitted,
+  JobStatus.Completed,
+  JobStatus.Disputed,
+  JobStatus.Expired,
+];
+
+// ─── Admin Console ───
+const AdminPage: NextPage = () => {
+  const { address: connectedAddress } = useAccount();
+  const [registry, setRegistry] = useState("");
+  const [stuckToken, setStuckToken] = useState("");
+
+  const { data: board } = useDeployedContractInfo({ contractName: "AgentBountyBoard" });
+  const { data: owner, isLoading: ownerLoading } = useScaffoldReadContract({
+    contractName: "AgentBountyBoard",
+    functionName: "owner",
+  });
+  const isOwner = Boolean(connectedAddress && owner && connectedAddress.toLowerCase() === owner.toLowerCase());
+
+  const { data: paused, refetch: refetchPaused } = useScaffoldReadContract({
+    contractName: "AgentBountyBoard",
+    functionName: "paused",
+  });
+  const { data: protocolFeeBps } = useScaffoldReadContract({
+    contractName: "AgentBountyBoard",
+    functionName: "protocolFeeBps",
+  });
+  const { data: maxFeeBps } = useScaffoldReadContract({
+    contractName: "AgentBountyBoard",
+    functionName: "MAX_FEE_BPS",
+  });
+  const { data: feeRecipient } = useScaffoldReadContract({
+    contractName: "AgentBountyBoard",
+    functionName: "feeRecipient",
+  });
+  const { data: agentRegistry } = useScaffoldReadContract({
+    contractName: "AgentBountyBoard",
+    functionName: "agentRegistry",
+  });
+  const { data: clawd } = useScaffoldReadContract({
+    contractName: "AgentBountyBoard",
+    functionName: "clawd",
+  });
+  const { data: platformStats } = useScaffoldReadContract({
+    contractName: "AgentBountyBoard",
+    functionName: "getPlatformStats",
+  });
+
+  const stuckTokenValid = isAddress(stuckToken) && stuckToken.toLowerCase() !== clawd?.toLowerCase();
+  const { data: stuckBalance } = useReadContract({
+    address: stuckToken as AddressType,
+    abi: ERC20_ABI,
+    functionName: "balanceOf",
+    args: board ? [board.address] : undefined,
+    query: { enabled: stuckTokenValid && Boolean(board) },
+  });
+
+  const { jobs } = useBoardJobs({ statuses: isOwner ? CLAIMED_STATUSES : undefined });
+
+  const { writeContractAsync: writeBoard } = useScaffoldWriteContract({
+    contractName: "AgentBountyBoard",
+  });
+
+  if (!isOwner) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh] px-4">
+        {ownerLoading ? (
+          <span className="loading loading-spinner loading-lg"></span>
+        ) : (
+          <div className="alert alert-warning max-w-md">
+            <span>
+              {connectedAddress
+                ? "This console is only available to the board's owner"
+                : "Connect the board owner's wallet to use the admin console"}
+            </span>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const [jobsPosted, jobsCompleted, totalPaid, disputes, feeBalance] = platformStats ?? [];
+
+  return (
+    <div className="flex flex-col grow">
+      <div className="max-w-7xl mx-auto px-6 py-6 w-full flex flex-col gap-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <h2 className="text-3xl font-bold">🔐 Admin Console</h2>
+          <span className={`badge badge-lg ${paused ? "badge-error" : "badge-success"}`}>
+            {paused ? "⏸ Paused" : "▶ Live"}
+          </span>
+        </div>
+
+        <div className="stats stats-vertical md:stats-horizontal shadow bg-base-300 w-full">
+          <div className="stat">
+            <div className="stat-title">Jobs Posted</div>
+            <div className="stat-value">{jobsPosted?.toString() ?? "—"}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Completed</div>
+            <div className="stat-value">{jobsCompleted?.toString() ?? "—"}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Disputed</div>
+            <div className="stat-value">{disputes?.toString() ?? "—"}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Paid Out</div>
+            <div className="stat-value text-2xl">
+              {totalPaid === undefined ? "—" : parseFloat(formatUnits(totalPaid, 18)).toFixed(2)}
+            </div>
+            <div className="stat-desc">CLAWD</div>
+          </div>
+        </div>
+
+        {protocolFeeBps !== undefined && maxFeeBps !== undefined && feeRecipient && feeBalance !== undefined && (
+          <FeeSettings
+            currentBps={protocolFeeBps}
+            maxBps={maxFeeBps}
+            feeRecipient={feeRecipient}
+            feeBalance={feeBalance}
+            jobs={jobs}
+          />
+        )}
+
+        <div className="card bg-base-300 shadow-xl">
+          <div className="card-body gap-4">
+            <h3 className="text-lg font-semibold">⚙️ Contract Settings</h3>
+
+            {/* Pause */}
+            <div className="bg-base-100 rounded-lg p-4 flex flex-wrap justify-between items-center gap-3">
+              <div className="text-sm">
+                <div className="font-semibold">{paused ? "The board is paused" : "The board is live"}</div>
+                <div className="opacity-60 text-xs">
+                  Pausing blocks every job action, including approvals, reclaims and refunds: escrow stays locked until
+                  the board is unpaused.
+                </div>
+              </div>
+              <ConfirmAction
+                label={paused ? "Unpause" : "Pause"}
+                className={`btn btn-sm ${paused ? "btn-success" : "btn-error"}`}
+                title={paused ? "Unpause the board" : "Pause the board"}
+                description={
+                  paused
+                    ? "Posting, claiming, submitting and settling jobs resume immediately."
+                    : "No one can post, claim, submit, approve, dispute, cancel, reclaim or expire a job until the board is unpaused. Work deadlines keep running."
+                }
+                phrase={paused ? "unpause" : "pause"}
+                onConfirm={async () => {
+                  await writeBoard({ functionName: paused ? "unpause" : "pause" });
+                  await refetchPaused();
+                }}
+              />
+            </div>
+
+            {/* Registry */}
+            <div className="bg-base-100 rounded-lg p-4 flex flex-wrap items-end gap-3">
+              <div className="text-sm w-full">
+                <span className="opacity-60 text-xs">Agent registry</span>
+                {agentRegistry && agentRegistry !== zeroAddress ? (
+                  <Address address={agentRegistry} size="sm" />
+                ) : (
+                  <div>None — claims aren&apos;t checked against a registry</div>
+                )}
+              </div>
+              <div className="grow min-w-64">
+                <AddressInput value={registry} onChange={setRegistry} placeholder="New registry address" />
+              </div>
+              <ConfirmAction
+                label="Set registry"
+                disabled={!isAddress(registry) || registry === zeroAddress}
+                title="Change the agent registry"
+                description="Every claim from now on is checked against the new registry. Agents not registered there, or whose owner isn't the claimer or a verified owner, won't be able to claim."
+                phrase="registry"
+                onConfirm={async () => {
+                  await writeBoard({ functionName: "setAgentRegistry", args: [registry as AddressType] });
+                  setRegistry("");
+                }}
+              />
+            </div>
+
+            {/* Stuck tokens */}
+            <div className="bg-base-100 rounded-lg p-4 flex flex-wrap items-end gap-3">
+              <div className="grow min-w-64">
+                <span className="label-text text-xs opacity-60">Recover tokens sent to the board by mistake</span>
+                <AddressInput value={stuckToken} onChange={setStuckToken} placeholder="Token address" />
+                {isAddress(stuckToken) && !stuckTokenValid && (
+                  <div className="text-xs text-error mt-1">CLAWD is held in escrow and can&apos;t be recovered</div>
+                )}
+                {stuckTokenValid && stuckBalance !== undefined && (
+                  <div className="text-xs opacity-60 mt-1">
+                    The board holds {formatUnits(stuckBalance as bigint, 18)} (assuming 18 decimals)
+                  </div>
+                )}
+              </div>
+              <ConfirmAction
+                label="Recover"
+                disabled={!stuckTokenValid || stuckBalance === 0n}
+                title="Recover stuck tokens"
+                description={
+                  <>
+                    Sends the board&apos;s whole balance of <Address address={stuckToken as AddressType} size="xs" /> to
+                    the owner.
+                  </>
+                }
+                phrase="recover"
+                onConfirm={async () => {
+                  await writeBoard({ functionName: "recoverStuckTokens", args: [stuckToken as AddressType] });
+                  setStuckToken("");
+                }}
+              />
+            </div>
+          </div>
+        </div>
+
+        <WhitelistManager jobs={jobs} />
+      </div>
+    </div>
+  );
+};
+
+export default AdminPage;
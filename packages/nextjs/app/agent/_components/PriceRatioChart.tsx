@@ -0,0 +1,96 @@
+import type { Job } from "@se-2/sdk";
+import { formatEther } from "viem";
+import { JOB_STATUS_LABELS } from "~~/utils/bountyBoard";
+
+// SVG user units; the chart scales to its container's width
+const WIDTH = 600;
+const HEIGHT = 200;
+const PAD = { top: 12, right: 16, bottom: 28, left: 44 };
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right;
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom;
+
+/** `paidAmount / maxPrice` in percent */
+const claimRatio = (job: Job) => (job.maxPrice > 0n ? Number((job.paidAmount * 10_000n) / job.maxPrice) / 100 : 0);
+
+/**
+ * What an agent claimed each job for, as a share of its maxPrice, by claim time. Low ratios are an agent that claims
+ * early in the auction; ratios near 100% one that waits for the price to rise.
+ */
+export const PriceRatioChart = ({ jobs }: { jobs: Job[] }) => {
+  const claims = jobs.filter(job => job.claimedAt > 0n).sort((a, b) => Number(a.claimedAt - b.claimedAt));
+  if (claims.length === 0) return <div className="text-sm opacity-60">No claims yet.</div>;
+
+  const first = Number(claims[0].claimedAt);
+  const span = Number(claims[claims.length - 1].claimedAt) - first;
+  const x = (timestamp: bigint) =>
+    PAD.left + (span > 0 ? ((Number(timestamp) - first) / span) * PLOT_WIDTH : PLOT_WIDTH / 2);
+  const y = (ratio: number) => PAD.top + (1 - ratio / 100) * PLOT_HEIGHT;
+
+  const ratios = claims.map(claimRatio);
+  const average = ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length;
+  const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString();
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={`Claims averaged ${average.toFixed(0)}% of max price`}
+      >
+        {[100, 50, 0].map(ratio => (
+          <g key={ratio}>
+            <line
+              x1={PAD.left}
+              x2={WIDTH - PAD.right}
+              y1={y(ratio)}
+              y2={y(ratio)}
+              className="stroke-base-content/10"
+              strokeDasharray={ratio === 0 ? undefined : "4 4"}
+            />
+            <text
+              x={PAD.left - 6}
+              y={y(ratio)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-base-content/60 text-[11px]"
+            >
+              {ratio}%
+            </text>
+          </g>
+        ))}
+        <line
+          x1={PAD.left}
+          x2={WIDTH - PAD.right}
+          y1={y(average)}
+          y2={y(average)}
+          className="stroke-secondary"
+          strokeDasharray="2 4"
+        />
+        <polyline
+          points={claims.map((job, i) => `${x(job.claimedAt).toFixed(1)},${y(ratios[i]).toFixed(1)}`).join(" ")}
+          fill="none"
+          className="stroke-primary/40"
+          strokeWidth={1.5}
+        />
+        {claims.map((job, i) => (
+          <circle key={job.id.toString()} cx={x(job.claimedAt)} cy={y(ratios[i])} r={4} className="fill-primary">
+            <title>
+              {`Job #${job.id} (${JOB_STATUS_LABELS[job.status]}): ${parseFloat(formatEther(job.paidAmount)).toFixed(2)} of ${parseFloat(formatEther(job.maxPrice)).toFixed(2)} CLAWD — ${ratios[i].toFixed(0)}%`}
+            </title>
+          </circle>
+        ))}
+        <text x={PAD.left} y={HEIGHT - 8} className="fill-base-content/60 text-[11px]">
+          {formatDate(first)}
+        </text>
+        <text x={WIDTH - PAD.right} y={HEIGHT - 8} textAnchor="end" className="fill-base-content/60 text-[11px]">
+          {formatDate(first + span)}
+        </text>
+      </svg>
+      <div className="text-xs opacity-60 mt-1">
+        Average <span className="text-secondary font-semibold">{average.toFixed(0)}%</span> of max price over{" "}
+        {claims.length} claim{claims.length === 1 ? "" : "s"}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import { MAX_RATING } from "@se-2/sdk";
+
+/** Width of each bar's rating range; the last bar also takes a perfect 100 */
+const BUCKET = 10;
+const BUCKETS = MAX_RATING / BUCKET;
+
+/** How an agent's completed jobs were rated, in bars of ten points */
+export const RatingHistogram = ({ ratings }: { ratings: number[] }) => {
+  const counts = Array.from({ length: BUCKETS }, () => 0);
+  for (const rating of ratings) counts[Math.min(Math.floor(rating / BUCKET), BUCKETS - 1)]++;
+  const highest = Math.max(...counts, 1);
+
+  if (ratings.length === 0) return <div className="text-sm opacity-60">No rated jobs yet.</div>;
+
+  return (
+    <div className="flex items-end gap-1 h-40" role="img" aria-label="Ratings histogram">
+      {counts.map((count, i) => {
+        const from = i * BUCKET;
+        const to = i === BUCKETS - 1 ? MAX_RATING : from + BUCKET - 1;
+        return (
+          <div key={i} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+            <span className="text-xs opacity-60">{count || ""}</span>
+            <div
+              className={`w-full rounded-t ${from >= 80 ? "bg-success" : from >= 50 ? "bg-warning" : "bg-error"}`}
+              style={{ height: `${(count / highest) * 100}%`, minHeight: count ? 4 : 0 }}
+              title={`${count} job${count === 1 ? "" : "s"} rated ${from}–${to}`}
+            />
+            <span className="text-[10px] opacity-60">{from}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
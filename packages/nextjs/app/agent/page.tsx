@@ -0,0 +1,346 @@
+"use client";
+
+import { Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { PriceRatioChart } from "./_components/PriceRatioChart";
+import { RatingHistogram } from "./_components/RatingHistogram";
+import { Address } from "@scaffold-ui/components";
+import { type Job, JobStatus, resolveArtifactUri } from "@se-2/sdk";
+import { useQuery } from "@tanstack/react-query";
+import { formatEther, zeroAddress } from "viem";
+import { JobTitle } from "~~/components/JobTitle";
+import { RatingStars } from "~~/components/Rating";
+import { SubmissionLink } from "~~/components/SubmissionLink";
+import { useBoardJobs } from "~~/hooks/useBoardJobs";
+import { useWorkApprovals } from "~~/hooks/useWorkApprovals";
+import scaffoldConfig from "~~/scaffold.config";
+import { fetchAgent } from "~~/utils/agentRegistry";
+import { JOB_STATUS_COLORS, JOB_STATUS_LABELS } from "~~/utils/bountyBoard";
+import type { IndexedJob } from "~~/utils/indexer";
+
+const DAY = 86400;
+
+const formatClawd = (amount: bigint) => parseFloat(formatEther(amount)).toFixed(2);
+
+const AgentProfileInner = () => {
+  const searchParams = useSearchParams();
+  const agentId = Number(searchParams.get("id") || "0");
+
+  const { data: agent, isLoading: agentLoading } = useQuery({
+    queryKey: ["erc8004Agent", agentId],
+    queryFn: () => fetchAgent(agentId),
+    enabled: agentId > 0,
+    staleTime: 5 * 60_000,
+  });
+  const wallet = agent && agent.wallet !== zeroAddress ? agent.wallet : undefined;
+
+  // Claims are made from the owner's address or the agent's wallet, and the board's per-address stats mix in any
+  // other agents the same address claimed for, so the record is built from this agent's own jobs
+  const byOwner = useBoardJobs({ agent: agent?.owner });
+  const byWallet = useBoardJobs({ agent: wallet?.toLowerCase() !== agent?.owner.toLowerCase() ? wallet : undefined });
+  const jobs: (Job | IndexedJob)[] = [...byOwner.jobs, ...byWallet.jobs]
+    .filter(job => job.agentId === BigInt(agentId))
+    .sort((a, b) => Number(b.id - a.id));
+  const jobsLoading = byOwner.isLoading || byWallet.isLoading;
+  const earnings = useWorkApprovals(jobs, byOwner.fromIndexer);
+
+  if (agentLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <span className="loading loading-spinner loading-lg"></span>
+      </div>
+    );
+  }
+
+  if (!agent) {
+    return (
+      <div className="flex flex-col justify-center items-center min-h-[50vh] gap-4">
+        <div className="text-6xl">🤖</div>
+        <p className="text-xl">No ERC-8004 agent #{agentId}</p>
+        <Link href="/agents" className="btn btn-sm btn-ghost">
+          ← All agents
+        </Link>
+      </div>
+    );
+  }
+
+  const { metadata } = agent;
+  const name = metadata?.name || `Agent #${agentId}`;
+
+  const history = jobs.filter(job => job.status === JobStatus.Completed || job.status === JobStatus.Disputed);
+  const ratings = jobs.filter(job => job.status === JobStatus.Completed).map(job => job.rating);
+  const completedCount = ratings.length;
+  const disputedCount = history.length - completedCount;
+  const avgRating = completedCount > 0 ? Math.round(ratings.reduce((a, b) => a + b, 0) / completedCount) : undefined;
+  const totalEarned = earnings.approvals.reduce((sum, approval) => sum + approval.agentPayment, 0n);
+  const firstJobTimestamp = earnings.approvals.reduce(
+    (first, approval) =>
+      approval.timestamp !== undefined && (first === 0n || approval.timestamp < first) ? approval.timestamp : first,
+    0n,
+  );
+  // Work can't be submitted past the deadline, so everything submitted was on time; an expired job was not delivered
+  const delivered = jobs.filter(job =>
+    [JobStatus.Submitted, JobStatus.Completed, JobStatus.Disputed].includes(job.status),
+  ).length;
+  const expired = jobs.filter(job => job.status === JobStatus.Expired).length;
+  const onTimeRate = delivered + expired > 0 ? (delivered / (delivered + expired)) * 100 : undefined;
+
+  const seniorityDays =
+    firstJobTimestamp > 0n ? Math.floor((Date.now() / 1000 - Number(firstJobTimestamp)) / DAY) : undefined;
+
+  // Registration fields shown as-is when they aren't one of the known ones
+  const knownFields = ["type", "name", "description", "image", "endpoints", "registrations", "supportedTrust"];
+  const extraFields = Object.entries(metadata ?? {}).filter(([field]) => !knownFields.includes(field));
+
+  return (
+    <div className="flex flex-col grow">
+      <div className="max-w-5xl mx-auto px-6 py-6 w-full flex flex-col gap-6">
+        <Link href="/agents" className="link link-hover text-sm opacity-60">
+          ← All agents
+        </Link>
+
+        {/* Identity */}
+        <div className="card bg-base-300 shadow-xl">
+          <div className="card-body">
+            <div className="flex items-start gap-4">
+              {metadata?.image ? (
+                <div className="avatar">
+                  <div className="w-24 h-24 rounded-xl bg-base-100">
+                    {/* eslint-disable-next-line @next/next/no-img-element -- arbitrary hosts from the agent's registration */}
+                    <img
+                      src={resolveArtifactUri(metadata.image, scaffoldConfig.ipfsGateway)}
+                      alt={name}
+                      className="object-cover"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="avatar placeholder">
+                  <div className="w-24 h-24 rounded-xl bg-base-100 text-5xl">🤖</div>
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <h2 className="text-3xl font-bold">{name}</h2>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  <span className="badge badge-outline">ID: {agentId}</span>
+                  {metadata?.supportedTrust?.map(trust => (
+                    <span key={trust} className="badge badge-secondary badge-outline">
+                      {trust}
+                    </span>
+                  ))}
+                </div>
+                {metadata?.description && <p className="opacity-80 mt-3 whitespace-pre-wrap">{metadata.description}</p>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-4 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="opacity-60">Owner:</span>
+                <Address address={agent.owner} size="sm" />
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="opacity-60">Wallet:</span>
+                {wallet ? <Address address={wallet} size="sm" /> : <span className="opacity-60">not set</span>}
+              </div>
+            </div>
+
+            {(metadata?.endpoints?.length ?? 0) > 0 && (
+              <>
+                <div className="divider my-2 text-xs opacity-50">Endpoints</div>
+                <ul className="text-sm flex flex-col gap-1">
+                  {metadata?.endpoints?.map((endpoint, i) => (
+                    <li key={i} className="flex flex-wrap gap-2 items-center">
+                      <span className="badge badge-sm">{endpoint.name || "endpoint"}</span>
+                      <span className="font-mono break-all">{endpoint.endpoint}</span>
+                      {endpoint.version && <span className="opacity-60">v{endpoint.version}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {(metadata?.registrations?.length ?? 0) > 0 && (
+              <>
+                <div className="divider my-2 text-xs opacity-50">Registrations</div>
+                <ul className="text-sm flex flex-col gap-1 font-mono">
+                  {metadata?.registrations?.map((registration, i) => (
+                    <li key={i} className="break-all">
+                      #{String(registration.agentId)} @ {registration.agentRegistry}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {extraFields.length > 0 && (
+              <>
+                <div className="divider my-2 text-xs opacity-50">Other fields</div>
+                <dl className="text-sm grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                  {extraFields.map(([field, value]) => (
+                    <div key={field} className="contents">
+                      <dt className="opacity-60">{field}</dt>
+                      <dd className="font-mono break-all">
+                        {typeof value === "string" ? value : JSON.stringify(value)}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </>
+            )}
+
+            {agent.tokenURI && (
+              <div className="collapse collapse-arrow bg-base-100 mt-4">
+                <input type="checkbox" />
+                <div className="collapse-title text-sm">Raw registration</div>
+                <div className="collapse-content">
+                  <div className="text-xs opacity-60 break-all mb-2">
+                    tokenURI: {agent.tokenURI.length > 200 ? `${agent.tokenURI.slice(0, 200)}…` : agent.tokenURI}
+                  </div>
+                  {metadata ? (
+                    <pre className="text-xs overflow-x-auto">{JSON.stringify(metadata, null, 2)}</pre>
+                  ) : (
+                    <div className="text-xs text-warning">The token URI could not be decoded as JSON.</div>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Track Record */}
+        <div className="stats stats-vertical md:stats-horizontal w-full bg-base-300">
+          <div className="stat">
+            <div className="stat-title">Completed</div>
+            <div className="stat-value text-2xl text-success">{completedCount}</div>
+            <div className="stat-desc">{disputedCount} disputed</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Avg Rating</div>
+            <div className="stat-value text-2xl">{avgRating !== undefined ? avgRating : "N/A"}</div>
+            <div className="stat-desc">{avgRating !== undefined && <RatingStars rating={avgRating} />}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">On-time Delivery</div>
+            <div className="stat-value text-2xl">{onTimeRate !== undefined ? `${onTimeRate.toFixed(0)}%` : "N/A"}</div>
+            <div className="stat-desc">
+              {delivered} delivered, {expired} expired
+            </div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Seniority</div>
+            <div className="stat-value text-2xl">{seniorityDays !== undefined ? `${seniorityDays}d` : "New"}</div>
+            <div className="stat-desc">
+              {firstJobTimestamp > 0n
+                ? `First paid job ${new Date(Number(firstJobTimestamp) * 1000).toLocaleDateString()}`
+                : "No paid jobs yet"}
+            </div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Earned</div>
+            <div className="stat-value text-2xl text-primary">{formatClawd(totalEarned)}</div>
+            <div className="stat-desc">CLAWD, after fees</div>
+          </div>
+        </div>
+
+        {jobsLoading && jobs.length === 0 ? (
+          <div className="flex justify-center py-10">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : !wallet && jobs.length === 0 ? (
+          <div className="alert">
+            <span>
+              This agent has no wallet set in the registry, and its owner hasn&apos;t claimed any jobs for it.
+            </span>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="card bg-base-300 shadow-xl">
+                <div className="card-body">
+                  <h3 className="text-lg font-semibold">⭐ Ratings</h3>
+                  <RatingHistogram ratings={ratings} />
+                </div>
+              </div>
+              <div className="card bg-base-300 shadow-xl">
+                <div className="card-body">
+                  <h3 className="text-lg font-semibold">📈 Claim Price / Max Price</h3>
+                  <PriceRatioChart jobs={jobs} />
+                </div>
+              </div>
+            </div>
+
+            {/* Job History */}
+            <div className="card bg-base-300 shadow-xl">
+              <div className="card-body">
+                <h3 className="text-lg font-semibold">📜 Completed & Disputed Jobs ({history.length})</h3>
+                {history.length === 0 ? (
+                  <div className="text-sm opacity-60">No finished jobs yet.</div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="table table-sm">
+                      <thead>
+                        <tr>
+                          <th>Job</th>
+                          <th>Submission</th>
+                          <th>Outcome</th>
+                          <th className="text-right">Price</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {history.map(job => (
+                          <tr key={job.id.toString()} className="hover align-top">
+                            <td>
+                              <Link href={`/job?id=${job.id}`} className="link link-primary">
+                                #{job.id.toString()}
+                              </Link>
+                              <div className="text-xs opacity-60 max-w-xs truncate">
+                                <JobTitle description={job.description} compact />
+                              </div>
+                              {"feedback" in job && job.feedback && (
+                                <div className="text-xs italic opacity-80 max-w-xs">“{job.feedback}”</div>
+                              )}
+                            </td>
+                            <td className="max-w-xs text-xs">
+                              <SubmissionLink uri={job.submissionURI} />
+                            </td>
+                            <td>
+                              {job.status === JobStatus.Completed ? (
+                                <RatingStars rating={job.rating} />
+                              ) : (
+                                <span className={`badge ${JOB_STATUS_COLORS[job.status]}`}>
+                                  {JOB_STATUS_LABELS[job.status]}
+                                </span>
+                              )}
+                            </td>
+                            <td className="text-right font-mono">{formatClawd(job.paidAmount)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const AgentProfilePage = () => {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex justify-center items-center min-h-[50vh]">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      }
+    >
+      <AgentProfileInner />
+    </Suspense>
+  );
+};
+
+export default AgentProfilePage;
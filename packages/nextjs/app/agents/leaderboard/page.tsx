@@ -0,0 +1,191 @@
+"use client";
+
+import { type ReactNode, useState } from "react";
+import Link from "next/link";
+import { Address } from "@scaffold-ui/components";
+import type { NextPage } from "next";
+import { formatEther } from "viem";
+import { RatingStars } from "~~/components/Rating";
+import { useLeaderboard } from "~~/hooks/useLeaderboard";
+import type { LeaderboardEntry, LeaderboardSort, LeaderboardWindow } from "~~/utils/indexer";
+
+const WINDOWS: { value: LeaderboardWindow; label: string }[] = [
+  { value: "7d", label: "7 days" },
+  { value: "30d", label: "30 days" },
+  { value: "all", label: "All time" },
+];
+
+/** Rankable metrics, each with the direction that puts the best agents first */
+const METRICS: Record<LeaderboardSort, { label: string; bestFirst: "desc" | "asc"; hint: string }> = {
+  completedJobs: { label: "Completed", bestFirst: "desc", hint: "Jobs approved or reclaimed in the window" },
+  totalEarned: { label: "Earned", bestFirst: "desc", hint: "CLAWD paid out after fees" },
+  averageRating: { label: "Avg Rating", bestFirst: "desc", hint: "Mean rating of completed jobs" },
+  disputeRatio: { label: "Dispute Ratio", bestFirst: "asc", hint: "Disputed out of completed plus disputed" },
+  medianClaimDiscount: {
+    label: "Claim Discount",
+    bestFirst: "desc",
+    hint: "Median of how far below maxPrice the agent claimed — higher is cheaper for posters",
+  },
+  expiredJobs: { label: "Expired", bestFirst: "asc", hint: "Claimed jobs left to expire without a submission" },
+  jobsClaimed: { label: "Claimed", bestFirst: "desc", hint: "Jobs claimed in the window" },
+};
+
+const formatPercent = (ratio?: number) => (ratio === undefined ? "—" : `${(ratio * 100).toFixed(0)}%`);
+
+/** One table cell per metric, in `METRICS` order */
+const metricCells = (entry: LeaderboardEntry): Record<LeaderboardSort, ReactNode> => ({
+  completedJobs: entry.completedJobs,
+  totalEarned: parseFloat(formatEther(entry.totalEarned)).toFixed(2),
+  averageRating: entry.averageRating === undefined ? "—" : <RatingStars rating={Math.round(entry.averageRating)} />,
+  disputeRatio: formatPercent(entry.disputeRatio),
+  medianClaimDiscount: formatPercent(entry.medianClaimDiscount),
+  expiredJobs: entry.expiredJobs,
+  jobsClaimed: entry.jobsClaimed,
+});
+
+// ─── Leaderboard ───
+const LeaderboardPage: NextPage = () => {
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("30d");
+  const [sort, setSort] = useState<LeaderboardSort>("completedJobs");
+  const [descending, setDescending] = useState(true);
+
+  const { data: entries, isLoading, isError, error, enabled } = useLeaderboard(timeWindow, sort, descending);
+
+  const selectMetric = (metric: LeaderboardSort) => {
+    if (metric === sort) {
+      setDescending(!descending);
+    } else {
+      setSort(metric);
+      setDescending(METRICS[metric].bestFirst === "desc");
+    }
+  };
+
+  return (
+    <div className="flex flex-col grow">
+      <div className="max-w-7xl mx-auto px-6 py-6 w-full">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+          <div>
+            <Link href="/agents" className="link link-hover text-sm opacity-60">
+              ← All agents
+            </Link>
+            <h2 className="text-3xl font-bold">🏆 Agent Leaderboard</h2>
+          </div>
+          <div role="tablist" className="tabs tabs-box">
+            {WINDOWS.map(option => (
+              <button
+                key={option.value}
+                role="tab"
+                className={`tab ${timeWindow === option.value ? "tab-active" : ""}`}
+                onClick={() => setTimeWindow(option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <span className="text-sm opacity-60">Rank by</span>
+          <select
+            className="select select-bordered select-sm"
+            value={sort}
+            onChange={e => selectMetric(e.target.value as LeaderboardSort)}
+          >
+            {Object.entries(METRICS).map(([metric, { label }]) => (
+              <option key={metric} value={metric}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button className="btn btn-sm btn-ghost" onClick={() => setDescending(!descending)}>
+            {descending ? "↓ Highest first" : "↑ Lowest first"}
+          </button>
+          <span className="text-xs opacity-60">{METRICS[sort].hint}</span>
+        </div>
+
+        {!enabled ? (
+          <div className="alert alert-warning">
+            <span>
+              The leaderboard is computed from the board&apos;s event history, which needs an indexer. Set
+              NEXT_PUBLIC_INDEXER_URL to enable it.
+            </span>
+          </div>
+        ) : isError ? (
+          <div className="alert alert-error">
+            <span>Couldn&apos;t load the leaderboard: {error?.message}</span>
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-20">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : !entries?.length ? (
+          <div className="text-center py-20 opacity-50">
+            <div className="text-6xl mb-4">🏆</div>
+            <p className="text-xl">No agent activity in this window</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto bg-base-300 rounded-xl">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Agent</th>
+                  {Object.entries(METRICS).map(([metric, { label, hint }]) => (
+                    <th key={metric} className="text-right" title={hint}>
+                      <button
+                        className={`link link-hover ${metric === sort ? "text-primary font-bold" : ""}`}
+                        onClick={() => selectMetric(metric as LeaderboardSort)}
+                      >
+                        {label}
+                        {metric === sort && (descending ? " ↓" : " ↑")}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry, i) => {
+                  const cells = metricCells(entry);
+                  return (
+                    <tr key={entry.address} className="hover">
+                      <td className="font-bold">{i + 1}</td>
+                      <td>
+                        <div className="flex items-center gap-2">
+                          <Address address={entry.address} size="sm" />
+                          {entry.agentIds.map(agentId => (
+                            <Link
+                              key={agentId.toString()}
+                              href={`/agent?id=${agentId}`}
+                              className="badge badge-outline badge-sm"
+                            >
+                              #{agentId.toString()}
+                            </Link>
+                          ))}
+                        </div>
+                      </td>
+                      {Object.keys(METRICS).map(metric => (
+                        <td
+                          key={metric}
+                          className={`text-right font-mono ${metric === sort ? "bg-base-200 font-bold" : ""}`}
+                        >
+                          {cells[metric as LeaderboardSort]}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-xs opacity-60 mt-4">
+          Claims count in the window they were made; completions, disputes and expiries in the window they happened.
+          Unlike the contract&apos;s agent stats, expired jobs are counted too.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default LeaderboardPage;
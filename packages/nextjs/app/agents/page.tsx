@@ -1,32 +1,16 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import type { NextPage } from "next";
-import { createPublicClient, http, formatEther } from "viem";
-import { mainnet } from "viem/chains";
+import Link from "next/link";
 import { Address } from "@scaffold-ui/components";
+import { resolveArtifactUri } from "@se-2/sdk";
+import type { NextPage } from "next";
+import { formatEther, zeroAddress } from "viem";
+import { RatingStars } from "~~/components/Rating";
 import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
-import { ERC8004_ABI, ERC8004_ADDRESS, MAINNET_RPC } from "~~/utils/bountyBoard";
-
-// Create mainnet client for 8004 reads
-const mainnetClient = createPublicClient({
-  chain: mainnet,
-  transport: http(MAINNET_RPC),
-});
-
-interface AgentMetadata {
-  name: string;
-  description: string;
-  image: string;
-}
-
-interface AgentData {
-  agentId: number;
-  owner: string;
-  wallet: string;
-  metadata: AgentMetadata | null;
-  loading: boolean;
-}
+import scaffoldConfig from "~~/scaffold.config";
+import { type AgentData, fetchAgent, mainnetClient } from "~~/utils/agentRegistry";
+import { ERC8004_ABI, ERC8004_ADDRESS } from "~~/utils/bountyBoard";
 
 // ─── Agent Card Component ───
 const AgentCard = ({ agent }: { agent: AgentData }) => {
@@ -34,8 +18,8 @@ const AgentCard = ({ agent }: { agent: AgentData }) => {
   const { data: agentStats } = useScaffoldReadContract({
     contractName: "AgentBountyBoard",
     functionName: "getAgentStats",
-    args: [agent.wallet as `0x${string}`],
-    query: { enabled: !!agent.wallet && agent.wallet !== "0x0000000000000000000000000000000000000000" },
+    args: [agent.wallet],
+    query: { enabled: agent.wallet !== zeroAddress },
   });
 
   const completedJobs = agentStats ? Number(agentStats[0]) : 0;
@@ -52,10 +36,10 @@ const AgentCard = ({ agent }: { agent: AgentData }) => {
             <div className="avatar">
               <div className="w-16 h-16 rounded-xl bg-base-100">
                 <img
-                  src={agent.metadata.image.startsWith("data:") ? agent.metadata.image : agent.metadata.image}
+                  src={resolveArtifactUri(agent.metadata.image, scaffoldConfig.ipfsGateway)}
                   alt={agent.metadata.name || `Agent #${agent.agentId}`}
                   className="object-cover"
-                  onError={(e) => {
+                  onError={e => {
                     (e.target as HTMLImageElement).style.display = "none";
                   }}
                 />
@@ -63,14 +47,14 @@ const AgentCard = ({ agent }: { agent: AgentData }) => {
             </div>
           ) : (
             <div className="avatar placeholder">
-              <div className="w-16 h-16 rounded-xl bg-base-100 text-3xl">
-                🤖
-              </div>
+              <div className="w-16 h-16 rounded-xl bg-base-100 text-3xl">🤖</div>
             </div>
           )}
           <div className="flex-1 min-w-0">
             <h3 className="font-bold text-lg truncate">
-              {agent.metadata?.name || `Agent #${agent.agentId}`}
+              <Link href={`/agent?id=${agent.agentId}`} className="link link-hover">
+                {agent.metadata?.name || `Agent #${agent.agentId}`}
+              </Link>
             </h3>
             <div className="badge badge-outline badge-sm">ID: {agent.agentId}</div>
           </div>
@@ -84,14 +68,14 @@ const AgentCard = ({ agent }: { agent: AgentData }) => {
         {/* Owner */}
         <div className="flex items-center gap-1 mt-2 text-xs">
           <span className="opacity-60">Owner:</span>
-          <Address address={agent.owner as `0x${string}`} size="xs" />
+          <Address address={agent.owner} size="xs" />
         </div>
 
         {/* Wallet */}
-        {agent.wallet && agent.wallet !== "0x0000000000000000000000000000000000000000" && (
+        {agent.wallet !== zeroAddress && (
           <div className="flex items-center gap-1 text-xs">
             <span className="opacity-60">Wallet:</span>
-            <Address address={agent.wallet as `0x${string}`} size="xs" />
+            <Address address={agent.wallet} size="xs" />
           </div>
         )}
 
@@ -114,11 +98,15 @@ const AgentCard = ({ agent }: { agent: AgentData }) => {
           </div>
           <div className="bg-base-100 rounded-lg p-2 text-center">
             <div className="text-xs opacity-60">Avg Rating</div>
-            <div className="font-bold">
-              {avgRating > 0 ? `${avgRating}/5 ⭐` : "N/A"}
-            </div>
+            <div className="font-bold">{completedJobs > 0 ? <RatingStars rating={avgRating} /> : "N/A"}</div>
           </div>
         </div>
+
+        <div className="card-actions justify-end mt-2">
+          <Link href={`/agent?id=${agent.agentId}`} className="btn btn-ghost btn-xs">
+            View profile →
+          </Link>
+        </div>
       </div>
     </div>
   );
@@ -142,11 +130,11 @@ const AgentsPage: NextPage = () => {
       // Get total supply to know how many agents exist
       let totalSupply = 0n;
       try {
-        totalSupply = await mainnetClient.readContract({
+        totalSupply = (await mainnetClient.readContract({
           address: ERC8004_ADDRESS,
           abi: ERC8004_ABI,
           functionName: "totalSupply",
-        }) as bigint;
+        })) as bigint;
       } catch {
         // If totalSupply doesn't exist, try checking a few IDs
         totalSupply = 20n; // Check first 20
@@ -170,88 +158,25 @@ const AgentsPage: NextPage = () => {
     }
   };
 
-  const fetchAgent = async (agentId: number): Promise<AgentData | null> => {
-    try {
-      // Get owner
-      const owner = await mainnetClient.readContract({
-        address: ERC8004_ADDRESS,
-        abi: ERC8004_ABI,
-        functionName: "ownerOf",
-        args: [BigInt(agentId)],
-      }) as string;
-
-      // Get wallet
-      let wallet = "0x0000000000000000000000000000000000000000";
-      try {
-        wallet = await mainnetClient.readContract({
-          address: ERC8004_ADDRESS,
-          abi: ERC8004_ABI,
-          functionName: "getAgentWallet",
-          args: [BigInt(agentId)],
-        }) as string;
-      } catch {
-        // Some agents might not have wallets
-      }
-
-      // Get tokenURI and decode metadata
-      let metadata: AgentMetadata | null = null;
-      try {
-        const tokenURI = await mainnetClient.readContract({
-          address: ERC8004_ADDRESS,
-          abi: ERC8004_ABI,
-          functionName: "tokenURI",
-          args: [BigInt(agentId)],
-        }) as string;
-
-        if (tokenURI.startsWith("data:application/json;base64,")) {
-          const base64Data = tokenURI.replace("data:application/json;base64,", "");
-          const jsonStr = atob(base64Data);
-          metadata = JSON.parse(jsonStr) as AgentMetadata;
-        } else if (tokenURI.startsWith("data:application/json,")) {
-          const jsonStr = decodeURIComponent(tokenURI.replace("data:application/json,", ""));
-          metadata = JSON.parse(jsonStr) as AgentMetadata;
-        } else if (tokenURI.startsWith("{")) {
-          metadata = JSON.parse(tokenURI) as AgentMetadata;
-        }
-      } catch {
-        // Metadata decode failed — that's ok
-      }
-
-      return {
-        agentId,
-        owner,
-        wallet,
-        metadata,
-        loading: false,
-      };
-    } catch {
-      // Agent doesn't exist at this ID
-      return null;
-    }
-  };
-
   return (
     <div className="flex flex-col grow">
       <div className="max-w-7xl mx-auto px-6 py-6 w-full">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-3xl font-bold">🤖 ERC-8004 Agents</h2>
-          <button
-            className="btn btn-sm btn-ghost"
-            onClick={fetchAgents}
-            disabled={loading}
-          >
-            {loading ? (
-              <span className="loading loading-spinner loading-sm"></span>
-            ) : (
-              "🔄 Refresh"
-            )}
-          </button>
+          <div className="flex gap-2">
+            <Link href="/agents/leaderboard" className="btn btn-sm btn-primary">
+              🏆 Leaderboard
+            </Link>
+            <button className="btn btn-sm btn-ghost" onClick={fetchAgents} disabled={loading}>
+              {loading ? <span className="loading loading-spinner loading-sm"></span> : "🔄 Refresh"}
+            </button>
+          </div>
         </div>
 
         <div className="alert mb-6 bg-base-300">
           <span className="text-sm opacity-70">
-            Showing registered agents from the ERC-8004 contract on Ethereum mainnet.
-            Stats shown are from the local Bounty Board contract.
+            Showing registered agents from the ERC-8004 contract on Ethereum mainnet. Stats shown are from the local
+            Bounty Board contract.
           </span>
         </div>
 
@@ -276,7 +201,7 @@ const AgentsPage: NextPage = () => {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {agents.map((agent) => (
+            {agents.map(agent => (
               <AgentCard key={agent.agentId} agent={agent} />
             ))}
           </div>
@@ -0,0 +1,121 @@
+// SVG user units; the chart scales to its container's width
+const WIDTH = 600;
+const HEIGHT = 200;
+const PAD = { top: 12, right: 16, bottom: 28, left: 56 };
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right;
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom;
+
+export type Series = {
+  label: string;
+  /** One value per bucket; undefined where there is nothing to measure, drawn as a gap */
+  values: (number | undefined)[];
+  /** Tailwind stroke and fill classes, e.g. "stroke-primary fill-primary" */
+  className: string;
+};
+
+type Props = {
+  title: string;
+  /** Bucket starts, unix seconds */
+  starts: number[];
+  series: Series[];
+  format: (value: number) => string;
+  /** Fixed top of the y axis, e.g. 1 for ratios; otherwise the largest value */
+  max?: number;
+};
+
+/** The runs of consecutive defined values, so undefined buckets break the line */
+const segments = (values: (number | undefined)[]) => {
+  const runs: { i: number; value: number }[][] = [];
+  let run: { i: number; value: number }[] = [];
+  values.forEach((value, i) => {
+    if (value === undefined) {
+      if (run.length) runs.push(run);
+      run = [];
+    } else {
+      run.push({ i, value });
+    }
+  });
+  if (run.length) runs.push(run);
+  return runs;
+};
+
+/** One or more series over the same buckets, as lines with a dot per bucket and a legend */
+export const TimeSeriesChart = ({ title, starts, series, format, max }: Props) => {
+  const top =
+    max ?? Math.max(0, ...series.flatMap(s => s.values.filter((value): value is number => value !== undefined)));
+  const x = (i: number) => PAD.left + (starts.length > 1 ? (i / (starts.length - 1)) * PLOT_WIDTH : PLOT_WIDTH / 2);
+  const y = (value: number) => PAD.top + (1 - (top > 0 ? value / top : 0)) * PLOT_HEIGHT;
+  const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString();
+
+  return (
+    <div className="card bg-base-300 shadow-xl">
+      <div className="card-body p-4">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <h3 className="font-semibold">{title}</h3>
+          {series.length > 1 && (
+            <div className="flex flex-wrap gap-3 text-xs">
+              {series.map(s => (
+                <span key={s.label} className="flex items-center gap-1">
+                  <svg width="10" height="10" aria-hidden>
+                    <circle cx="5" cy="5" r="4" className={s.className} />
+                  </svg>
+                  {s.label}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+          {[1, 0.5, 0].map(fraction => (
+            <g key={fraction}>
+              <line
+                x1={PAD.left}
+                x2={WIDTH - PAD.right}
+                y1={y(top * fraction)}
+                y2={y(top * fraction)}
+                className="stroke-base-content/10"
+                strokeDasharray={fraction === 0 ? undefined : "4 4"}
+              />
+              <text
+                x={PAD.left - 6}
+                y={y(top * fraction)}
+                textAnchor="end"
+                dominantBaseline="middle"
+                className="fill-base-content/60 text-[11px]"
+              >
+                {format(top * fraction)}
+              </text>
+            </g>
+          ))}
+          {series.map(s =>
+            segments(s.values).map(run => (
+              <g key={`${s.label}-${run[0].i}`} className={s.className}>
+                <polyline
+                  points={run.map(({ i, value }) => `${x(i).toFixed(1)},${y(value).toFixed(1)}`).join(" ")}
+                  fill="none"
+                  strokeWidth={1.5}
+                  strokeOpacity={0.6}
+                />
+                {run.map(({ i, value }) => (
+                  <circle key={i} cx={x(i)} cy={y(value)} r={starts.length > 60 ? 1.5 : 3} stroke="none">
+                    <title>{`${s.label}, ${formatDate(starts[i])}: ${format(value)}`}</title>
+                  </circle>
+                ))}
+              </g>
+            )),
+          )}
+          {starts.length > 0 && (
+            <>
+              <text x={PAD.left} y={HEIGHT - 8} className="fill-base-content/60 text-[11px]">
+                {formatDate(starts[0])}
+              </text>
+              <text x={WIDTH - PAD.right} y={HEIGHT - 8} textAnchor="end" className="fill-base-content/60 text-[11px]">
+                {formatDate(starts[starts.length - 1])}
+              </text>
+            </>
+          )}
+        </svg>
+      </div>
+    </div>
+  );
+};
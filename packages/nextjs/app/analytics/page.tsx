@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+import { type Series, TimeSeriesChart } from "./_components/TimeSeriesChart";
+import { JobStatus } from "@se-2/sdk";
+import type { NextPage } from "next";
+import { formatEther } from "viem";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { useBoardJobs } from "~~/hooks/useBoardJobs";
+import { useJobHistories } from "~~/hooks/useJobHistories";
+import {
+  ANALYTICS_INTERVALS,
+  type AnalyticsInterval,
+  analyticsToCsv,
+  bucketCount,
+  bucketJobs,
+} from "~~/utils/analytics";
+import { formatTimeRemaining } from "~~/utils/bountyBoard";
+
+const ALL_STATUSES = Object.values(JobStatus).filter((status): status is JobStatus => typeof status === "number");
+
+/** More buckets than this and the charts turn to noise; such intervals are disabled */
+const MAX_BUCKETS = 400;
+
+const INTERVAL_LABELS: Record<AnalyticsInterval, string> = { hour: "Hourly", day: "Daily", week: "Weekly" };
+
+const toClawd = (amount: bigint) => parseFloat(formatEther(amount));
+const formatClawd = (amount: number) => (amount >= 1000 ? `${(amount / 1000).toFixed(1)}k` : amount.toFixed(0));
+const formatDuration = (seconds: number) => (seconds > 0 ? formatTimeRemaining(seconds).split(" ")[0] : "0");
+
+const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// ─── Analytics ───
+const AnalyticsPage: NextPage = () => {
+  const [selected, setSelected] = useState<AnalyticsInterval>("day");
+  const now = Math.floor(Date.now() / 1000);
+
+  const { data: platformStats } = useScaffoldReadContract({
+    contractName: "AgentBountyBoard",
+    functionName: "getPlatformStats",
+  });
+  const [jobsPosted, jobsCompleted, totalPaid, disputes, feeBalance] = platformStats ?? [];
+
+  const board = useBoardJobs({ statuses: ALL_STATUSES });
+  const histories = useJobHistories(board.jobs, board.fromIndexer);
+  const isLoading = board.isLoading || histories.isLoading;
+
+  const tooMany = (option: AnalyticsInterval) =>
+    bucketCount(board.jobs, ANALYTICS_INTERVALS[option], now) > MAX_BUCKETS;
+  const interval = tooMany(selected) ? "week" : selected;
+  const buckets = bucketJobs(histories.jobs, ANALYTICS_INTERVALS[interval], now);
+  const starts = buckets.map(bucket => bucket.start);
+
+  const charts: { title: string; series: Series[]; format: (value: number) => string; max?: number }[] = [
+    {
+      title: "Jobs",
+      series: [
+        { label: "Posted", values: buckets.map(b => b.posted), className: "stroke-info fill-info" },
+        { label: "Completed", values: buckets.map(b => b.completed), className: "stroke-success fill-success" },
+        { label: "Disputed", values: buckets.map(b => b.disputed), className: "stroke-error fill-error" },
+        { label: "Expired", values: buckets.map(b => b.expired), className: "stroke-warning fill-warning" },
+      ],
+      format: value => value.toFixed(value % 1 ? 1 : 0),
+    },
+    {
+      title: "CLAWD Paid",
+      series: [
+        { label: "Volume", values: buckets.map(b => toClawd(b.volume)), className: "stroke-primary fill-primary" },
+      ],
+      format: formatClawd,
+    },
+    {
+      title: "Fees Collected",
+      series: [
+        { label: "Fees", values: buckets.map(b => toClawd(b.fees)), className: "stroke-secondary fill-secondary" },
+      ],
+      format: value => (value < 10 ? value.toFixed(2) : formatClawd(value)),
+    },
+    {
+      title: "Median Claim Price / Max Price",
+      series: [
+        { label: "Ratio", values: buckets.map(b => b.medianClaimRatio), className: "stroke-accent fill-accent" },
+      ],
+      format: value => `${(value * 100).toFixed(0)}%`,
+      max: 1,
+    },
+    {
+      title: "Median Time to Claim",
+      series: [
+        { label: "Time to claim", values: buckets.map(b => b.medianTimeToClaim), className: "stroke-info fill-info" },
+      ],
+      format: formatDuration,
+    },
+    {
+      title: "Median Time from Claim to Submission",
+      series: [
+        {
+          label: "Time to submit",
+          values: buckets.map(b => b.medianTimeToSubmit),
+          className: "stroke-success fill-success",
+        },
+      ],
+      format: formatDuration,
+    },
+  ];
+
+  return (
+    <div className="flex flex-col grow">
+      <div className="max-w-7xl mx-auto px-6 py-6 w-full flex flex-col gap-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <h2 className="text-3xl font-bold">📈 Platform Analytics</h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <div role="tablist" className="tabs tabs-box">
+              {(Object.keys(ANALYTICS_INTERVALS) as AnalyticsInterval[]).map(option => (
+                <button
+                  key={option}
+                  role="tab"
+                  className={`tab ${interval === option ? "tab-active" : ""}`}
+                  disabled={tooMany(option)}
+                  title={tooMany(option) ? `More than ${MAX_BUCKETS} ${option}s of history` : undefined}
+                  onClick={() => setSelected(option)}
+                >
+                  {INTERVAL_LABELS[option]}
+                </button>
+              ))}
+            </div>
+            <button
+              className="btn btn-sm btn-outline"
+              disabled={buckets.length === 0 || isLoading}
+              onClick={() => downloadCsv(`bounty-board-${interval}.csv`, analyticsToCsv(buckets))}
+            >
+              ⬇ Export CSV
+            </button>
+          </div>
+        </div>
+
+        <div className="stats stats-vertical md:stats-horizontal shadow bg-base-300 w-full">
+          <div className="stat">
+            <div className="stat-title">Jobs Posted</div>
+            <div className="stat-value">{jobsPosted?.toString() ?? "—"}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Completed</div>
+            <div className="stat-value text-success">{jobsCompleted?.toString() ?? "—"}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Disputed</div>
+            <div className="stat-value text-error">{disputes?.toString() ?? "—"}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Paid to Agents</div>
+            <div className="stat-value text-2xl">{totalPaid === undefined ? "—" : toClawd(totalPaid).toFixed(2)}</div>
+            <div className="stat-desc">CLAWD, after fees</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Fees Not Withdrawn</div>
+            <div className="stat-value text-2xl">{feeBalance === undefined ? "—" : toClawd(feeBalance).toFixed(2)}</div>
+            <div className="stat-desc">CLAWD</div>
+          </div>
+        </div>
+
+        {histories.isError && (
+          <div className="alert alert-warning">
+            <span>
+              Couldn&apos;t read the board&apos;s event history, so completions, disputes, expiries, fees and submission
+              times are missing. Setting NEXT_PUBLIC_INDEXER_URL avoids fetching it in the browser.
+            </span>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-20">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : buckets.length === 0 ? (
+          <div className="text-center py-20 opacity-50">
+            <div className="text-6xl mb-4">📈</div>
+            <p className="text-xl">No jobs posted yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {charts.map(chart => (
+              <TimeSeriesChart key={chart.title} starts={starts} {...chart} />
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs opacity-60">
+          Built from the board&apos;s event history ({board.fromIndexer ? "via the indexer" : "read from the chain"}).
+          Each event counts in the interval it happened in: a job posted in one and completed in the next adds to both.
+          Volume is what completed jobs released from escrow, fee included.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPage;
@@ -0,0 +1,83 @@
+"use client";
+
+import Link from "next/link";
+import { Address } from "@scaffold-ui/components";
+import { type Job, JobStatus } from "@se-2/sdk";
+import { formatEther, zeroAddress } from "viem";
+import { JobTitle } from "~~/components/JobTitle";
+import { RatingStars } from "~~/components/Rating";
+import { JOB_STATUS_COLORS, JOB_STATUS_LABELS } from "~~/utils/bountyBoard";
+import { ALL_JOB_STATUSES, getCurrentPrice } from "~~/utils/jobSearch";
+
+/**
+ * A dashboard's jobs, one collapsible table per status that has any. `counterparty` picks the address column: the
+ * agent on a poster's dashboard, the poster on an agent's.
+ */
+export const JobsByStatus = ({
+  jobs,
+  now,
+  counterparty,
+}: {
+  jobs: Job[];
+  now: number;
+  counterparty: "agent" | "poster";
+}) => {
+  const groups = ALL_JOB_STATUSES.map(status => ({ status, jobs: jobs.filter(job => job.status === status) })).filter(
+    group => group.jobs.length > 0,
+  );
+
+  if (groups.length === 0) return <div className="text-center py-10 opacity-50">No jobs yet</div>;
+
+  return (
+    <div className="flex flex-col gap-3">
+      {groups.map(group => (
+        <div key={group.status} className="collapse collapse-arrow bg-base-300">
+          <input type="checkbox" defaultChecked={group.status !== JobStatus.Cancelled} />
+          <div className="collapse-title flex items-center gap-2 font-semibold">
+            <span className={`badge ${JOB_STATUS_COLORS[group.status]}`}>{JOB_STATUS_LABELS[group.status]}</span>
+            <span className="opacity-60 text-sm">{group.jobs.length}</span>
+          </div>
+          <div className="collapse-content overflow-x-auto">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>Job</th>
+                  <th>Description</th>
+                  <th className="capitalize">{counterparty}</th>
+                  <th className="text-right">{group.status === JobStatus.Open ? "Current price" : "Price"}</th>
+                  {group.status === JobStatus.Completed && <th>Rating</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {group.jobs.map(job => {
+                  const address = counterparty === "agent" ? job.agent : job.poster;
+                  return (
+                    <tr key={job.id.toString()} className="hover">
+                      <td>
+                        <Link href={`/job?id=${job.id}`} className="link link-primary">
+                          #{job.id.toString()}
+                        </Link>
+                      </td>
+                      <td className="max-w-xs truncate">
+                        <JobTitle description={job.description} compact />
+                      </td>
+                      <td>{address === zeroAddress ? "—" : <Address address={address} size="xs" />}</td>
+                      <td className="text-right font-mono">
+                        {parseFloat(formatEther(getCurrentPrice(job, BigInt(now)))).toFixed(2)}
+                      </td>
+                      {group.status === JobStatus.Completed && (
+                        <td>
+                          <RatingStars rating={job.rating} />
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Address } from "@scaffold-ui/components";
+import { type Job, JobStatus, getReviewDeadline, getWorkDeadline } from "@se-2/sdk";
+import { formatEther } from "viem";
+import { JobTitle } from "~~/components/JobTitle";
+import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { formatTimeRemaining } from "~~/utils/bountyBoard";
+
+/** Seconds left before which a deadline is shown as urgent */
+const URGENT = 3600;
+
+/**
+ * The agent's jobs in flight: claimed ones counting down to their work deadline, and submitted ones waiting for the
+ * poster, with when `reclaimWork` opens (and a button once it has).
+ */
+export const ActiveJobs = ({ jobs, now, onReclaimed }: { jobs: Job[]; now: number; onReclaimed: () => void }) => {
+  const [reclaiming, setReclaiming] = useState<bigint>();
+
+  const { writeContractAsync: writeBoard } = useScaffoldWriteContract({
+    contractName: "AgentBountyBoard",
+  });
+
+  const handleReclaim = async (jobId: bigint) => {
+    setReclaiming(jobId);
+    try {
+      await writeBoard({
+        functionName: "reclaimWork",
+        args: [jobId],
+      });
+      onReclaimed();
+    } catch (e) {
+      console.error("Reclaim failed:", e);
+    } finally {
+      setReclaiming(undefined);
+    }
+  };
+
+  const claimed = jobs
+    .filter(job => job.status === JobStatus.Claimed)
+    .sort((a, b) => Number(getWorkDeadline(a) - getWorkDeadline(b)));
+  const submitted = jobs
+    .filter(job => job.status === JobStatus.Submitted)
+    .sort((a, b) => Number(getReviewDeadline(a) - getReviewDeadline(b)));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="card bg-base-300 shadow-xl">
+        <div className="card-body">
+          <h3 className="text-lg font-semibold">⏳ Claimed — Work Due ({claimed.length})</h3>
+          {claimed.length === 0 ? (
+            <div className="text-sm opacity-60">No claimed jobs. Find one on the board.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="table table-sm">
+                <tbody>
+                  {claimed.map(job => {
+                    const left = Number(getWorkDeadline(job)) - now;
+                    return (
+                      <tr key={job.id.toString()} className="hover">
+                        <td>
+                          <Link href={`/job?id=${job.id}`} className="link link-primary">
+                            #{job.id.toString()}
+                          </Link>
+                          <div className="text-xs opacity-60 max-w-xs truncate">
+                            <JobTitle description={job.description} compact />
+                          </div>
+                        </td>
+                        <td className="text-right font-mono">{parseFloat(formatEther(job.paidAmount)).toFixed(2)}</td>
+                        <td
+                          className={`text-right font-mono ${left <= 0 ? "text-error" : left < URGENT ? "text-warning" : ""}`}
+                        >
+                          {left <= 0 ? "overdue" : formatTimeRemaining(left)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {claimed.some(job => Number(getWorkDeadline(job)) <= now) && (
+            <p className="text-xs text-error">
+              Work can no longer be submitted past the deadline, and anyone can expire the job, refunding the poster.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="card bg-base-300 shadow-xl">
+        <div className="card-body">
+          <h3 className="text-lg font-semibold">📤 Submitted — Awaiting Review ({submitted.length})</h3>
+          {submitted.length === 0 ? (
+            <div className="text-sm opacity-60">Nothing waiting on a poster.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="table table-sm">
+                <tbody>
+                  {submitted.map(job => {
+                    const reclaimAt = Number(getReviewDeadline(job)) + 1;
+                    return (
+                      <tr key={job.id.toString()} className="hover">
+                        <td>
+                          <Link href={`/job?id=${job.id}`} className="link link-primary">
+                            #{job.id.toString()}
+                          </Link>
+                          <div className="text-xs opacity-60">
+                            <Address address={job.poster} size="xs" />
+                          </div>
+                        </td>
+                        <td className="text-right font-mono">{parseFloat(formatEther(job.paidAmount)).toFixed(2)}</td>
+                        <td className="text-right text-xs">
+                          {now >= reclaimAt ? (
+                            <button
+                              className="btn btn-accent btn-xs"
+                              onClick={() => handleReclaim(job.id)}
+                              disabled={reclaiming !== undefined}
+                            >
+                              {reclaiming === job.id ? (
+                                <span className="loading loading-spinner loading-xs"></span>
+                              ) : (
+                                "💰 Reclaim"
+                              )}
+                            </button>
+                          ) : (
+                            <>
+                              <div>reclaimable {new Date(reclaimAt * 1000).toLocaleString()}</div>
+                              <div className="opacity-60">in {formatTimeRemaining(reclaimAt - now)}</div>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-xs opacity-60">
+            If the poster neither approves nor disputes in time, reclaiming pays you with a rating of 0.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+"use client";
+
+import Link from "next/link";
+import { Address } from "@scaffold-ui/components";
+import type { Job } from "@se-2/sdk";
+import { formatEther } from "viem";
+import { JobTitle } from "~~/components/JobTitle";
+import { RatingStars } from "~~/components/Rating";
+import type { WorkApproval } from "~~/hooks/useWorkApprovals";
+import type { IndexedJob } from "~~/utils/indexer";
+
+const formatClawd = (amount: bigint) => parseFloat(formatEther(amount)).toFixed(2);
+
+const formatDate = (timestamp?: bigint) =>
+  timestamp === undefined ? "—" : new Date(Number(timestamp) * 1000).toLocaleDateString();
+
+/** Payouts from `WorkApproved` events, net of the protocol fee */
+export const EarningsHistory = ({
+  approvals,
+  isLoading,
+  isError,
+}: {
+  approvals: WorkApproval[];
+  isLoading: boolean;
+  isError: boolean;
+}) => {
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <span className="loading loading-spinner"></span>
+      </div>
+    );
+  }
+  if (isError) {
+    return (
+      <div className="text-sm text-error">
+        Couldn&apos;t read the payout events from the chain. Configure an indexer to see earnings history.
+      </div>
+    );
+  }
+  if (approvals.length === 0) return <div className="text-sm opacity-60">No approved work yet.</div>;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="table table-sm">
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>Job</th>
+            <th>Rating</th>
+            <th className="text-right">Fee</th>
+            <th className="text-right">Earned</th>
+          </tr>
+        </thead>
+        <tbody>
+          {approvals.map(approval => (
+            <tr key={approval.jobId.toString()} className="hover">
+              <td className="text-xs">{formatDate(approval.timestamp)}</td>
+              <td>
+                <Link href={`/job?id=${approval.jobId}`} className="link link-primary">
+                  #{approval.jobId.toString()}
+                </Link>
+              </td>
+              <td>
+                <RatingStars rating={approval.rating} />
+              </td>
+              <td className="text-right font-mono opacity-60">{formatClawd(approval.fee)}</td>
+              <td className="text-right font-mono text-success">{formatClawd(approval.agentPayment)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+/** Jobs the poster disputed: the agent was not paid and the escrow went back to the poster */
+export const DisputeHistory = ({ jobs }: { jobs: (Job | IndexedJob)[] }) => {
+  if (jobs.length === 0) return <div className="text-sm opacity-60">No disputes. 🎉</div>;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="table table-sm">
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>Job</th>
+            <th>Poster</th>
+            <th className="text-right">Forfeited</th>
+          </tr>
+        </thead>
+        <tbody>
+          {jobs.map(job => (
+            <tr key={job.id.toString()} className="hover">
+              <td className="text-xs">{formatDate("closedAt" in job ? job.closedAt : undefined)}</td>
+              <td>
+                <Link href={`/job?id=${job.id}`} className="link link-primary">
+                  #{job.id.toString()}
+                </Link>
+                <div className="text-xs opacity-60 max-w-xs truncate">
+                  <JobTitle description={job.description} compact />
+                </div>
+                {"feedback" in job && job.feedback && (
+                  <div className="text-xs italic opacity-80 max-w-xs truncate">“{job.feedback}”</div>
+                )}
+              </td>
+              <td>
+                <Address address={job.poster} size="xs" />
+              </td>
+              <td className="text-right font-mono text-error">{formatClawd(job.paidAmount)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { JobsByStatus } from "../_components/JobsByStatus";
+import { ActiveJobs } from "./_components/ActiveJobs";
+import { DisputeHistory, EarningsHistory } from "./_components/EarningsHistory";
+import { Address } from "@scaffold-ui/components";
+import { JobStatus, getAuctionPrice } from "@se-2/sdk";
+import type { NextPage } from "next";
+import { formatEther } from "viem";
+import { useAccount } from "wagmi";
+import { JobTitle } from "~~/components/JobTitle";
+import { RatingStars } from "~~/components/Rating";
+import { useBoardJobs } from "~~/hooks/useBoardJobs";
+import { useWorkApprovals } from "~~/hooks/useWorkApprovals";
+
+const formatClawd = (amount: bigint) => parseFloat(formatEther(amount)).toFixed(2);
+
+const OPEN: JobStatus[] = [JobStatus.Open];
+
+// ─── Agent Dashboard ───
+const AgentDashboard: NextPage = () => {
+  const { address: connectedAddress } = useAccount();
+  const [now, setNow] = useState(Math.floor(Date.now() / 1000));
+
+  // Live clock for deadlines and prices
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const { jobs, isLoading, fromIndexer, refetch } = useBoardJobs({ agent: connectedAddress });
+  const earnings = useWorkApprovals(jobs, fromIndexer);
+  const { jobs: openJobs } = useBoardJobs({ statuses: jobs.length > 0 ? OPEN : undefined });
+
+  if (!connectedAddress) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh] px-4">
+        <div className="alert alert-warning max-w-md">
+          <span>Connect your agent wallet to see the jobs you claimed</span>
+        </div>
+      </div>
+    );
+  }
+
+  const disputed = jobs.filter(job => job.status === JobStatus.Disputed);
+  const completed = jobs.filter(job => job.status === JobStatus.Completed);
+  const active = jobs.filter(job => job.status === JobStatus.Claimed || job.status === JobStatus.Submitted);
+  const earned = earnings.approvals.reduce((sum, approval) => sum + approval.agentPayment, 0n);
+  const fees = earnings.approvals.reduce((sum, approval) => sum + approval.fee, 0n);
+  const avgRating =
+    completed.length > 0
+      ? Math.round(completed.reduce((sum, job) => sum + job.rating, 0) / completed.length)
+      : undefined;
+
+  // Open jobs from posters this agent has already worked for
+  const posters = new Set(jobs.map(job => job.poster.toLowerCase()));
+  const feed = openJobs.filter(job => posters.has(job.poster.toLowerCase()));
+
+  return (
+    <div className="flex flex-col grow">
+      <div className="max-w-7xl mx-auto px-6 py-6 w-full">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-3xl font-bold">🤖 My Agent Work</h2>
+          <Link href="/" className="btn btn-primary btn-sm">
+            Find Jobs
+          </Link>
+        </div>
+
+        {/* Stats */}
+        <div className="stats stats-vertical md:stats-horizontal w-full bg-base-300 mb-6">
+          <div className="stat">
+            <div className="stat-title">Active</div>
+            <div className="stat-value text-2xl">{active.length}</div>
+            <div className="stat-desc">Claimed or awaiting review</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Earned</div>
+            <div className="stat-value text-2xl text-success">{formatClawd(earned)}</div>
+            <div className="stat-desc">CLAWD net of {formatClawd(fees)} in fees</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Completed</div>
+            <div className="stat-value text-2xl">{completed.length}</div>
+            <div className="stat-desc">{avgRating !== undefined && <RatingStars rating={avgRating} />}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Disputed</div>
+            <div className={`stat-value text-2xl ${disputed.length > 0 ? "text-error" : ""}`}>{disputed.length}</div>
+          </div>
+        </div>
+
+        {isLoading && jobs.length === 0 ? (
+          <div className="flex justify-center py-20">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-6">
+            <ActiveJobs jobs={active} now={now} onReclaimed={() => refetch()} />
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="card bg-base-300 shadow-xl">
+                <div className="card-body">
+                  <h3 className="text-lg font-semibold">💰 Earnings</h3>
+                  <EarningsHistory
+                    approvals={earnings.approvals}
+                    isLoading={earnings.isLoading}
+                    isError={earnings.isError}
+                  />
+                </div>
+              </div>
+              <div className="card bg-base-300 shadow-xl">
+                <div className="card-body">
+                  <h3 className="text-lg font-semibold">⚖️ Disputes</h3>
+                  <DisputeHistory jobs={disputed} />
+                </div>
+              </div>
+            </div>
+
+            {/* Feed */}
+            <div className="card bg-base-300 shadow-xl">
+              <div className="card-body">
+                <h3 className="text-lg font-semibold">📡 Open Jobs From Your Posters ({feed.length})</h3>
+                {feed.length === 0 ? (
+                  <div className="text-sm opacity-60">
+                    No open jobs from posters you have worked for. Browse the full board for more.
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="table table-sm">
+                      <tbody>
+                        {feed.map(job => (
+                          <tr key={job.id.toString()} className="hover">
+                            <td>
+                              <Link href={`/job?id=${job.id}`} className="link link-primary">
+                                #{job.id.toString()}
+                              </Link>
+                            </td>
+                            <td className="max-w-md truncate">
+                              <JobTitle description={job.description} compact />
+                            </td>
+                            <td>
+                              <Address address={job.poster} size="xs" />
+                            </td>
+                            <td className="text-right font-mono">
+                              {formatClawd(getAuctionPrice(job, BigInt(now)))} CLAWD
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* All Jobs */}
+            <JobsByStatus jobs={jobs} now={now} counterparty="poster" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AgentDashboard;
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Address } from "@scaffold-ui/components";
+import { type Job, getReviewDeadline } from "@se-2/sdk";
+import { formatEther } from "viem";
+import { JobTitle } from "~~/components/JobTitle";
+import { RatingInput } from "~~/components/Rating";
+import { SubmissionLink } from "~~/components/SubmissionLink";
+import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { DEFAULT_RATING, formatTimeRemaining } from "~~/utils/bountyBoard";
+
+/**
+ * Submitted jobs waiting for the poster's review, with bulk approval: one rating for every selected job, sent as
+ * one `approveWork` transaction each, in order, stopping at the first that fails or is rejected.
+ */
+export const ReviewQueue = ({ jobs, now, onApproved }: { jobs: Job[]; now: number; onApproved: () => void }) => {
+  const [selected, setSelected] = useState<Set<bigint>>(new Set());
+  const [rating, setRating] = useState(DEFAULT_RATING);
+  const [progress, setProgress] = useState<{ done: number; total: number }>();
+
+  const { writeContractAsync: writeBoard } = useScaffoldWriteContract({
+    contractName: "AgentBountyBoard",
+  });
+
+  const selectedJobs = jobs.filter(job => selected.has(job.id));
+  const allSelected = jobs.length > 0 && selectedJobs.length === jobs.length;
+
+  const toggle = (jobId: bigint) => {
+    const next = new Set(selected);
+    if (next.has(jobId)) next.delete(jobId);
+    else next.add(jobId);
+    setSelected(next);
+  };
+
+  const handleApprove = async () => {
+    const batch = selectedJobs;
+    setProgress({ done: 0, total: batch.length });
+    try {
+      for (const [i, job] of batch.entries()) {
+        await writeBoard({
+          functionName: "approveWork",
+          args: [job.id, rating],
+        });
+        setProgress({ done: i + 1, total: batch.length });
+        setSelected(current => {
+          const next = new Set(current);
+          next.delete(job.id);
+          return next;
+        });
+      }
+    } catch (e) {
+      console.error("Approve failed:", e);
+    } finally {
+      setProgress(undefined);
+      onApproved();
+    }
+  };
+
+  if (jobs.length === 0) return <div className="text-sm opacity-60">Nothing to review.</div>;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="overflow-x-auto">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-sm"
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? new Set() : new Set(jobs.map(job => job.id)))}
+                  aria-label="Select all"
+                />
+              </th>
+              <th>Job</th>
+              <th>Agent</th>
+              <th>Submission</th>
+              <th className="text-right">Price</th>
+              <th>Agent can reclaim</th>
+            </tr>
+          </thead>
+          <tbody>
+            {jobs.map(job => {
+              const reclaimIn = Number(getReviewDeadline(job)) - now + 1;
+              return (
+                <tr key={job.id.toString()} className="hover">
+                  <td>
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-sm"
+                      checked={selected.has(job.id)}
+                      onChange={() => toggle(job.id)}
+                      aria-label={`Select job #${job.id}`}
+                    />
+                  </td>
+                  <td>
+                    <Link href={`/job?id=${job.id}`} className="link link-primary">
+                      #{job.id.toString()}
+                    </Link>
+                    <div className="text-xs opacity-60 max-w-xs truncate">
+                      <JobTitle description={job.description} compact />
+                    </div>
+                  </td>
+                  <td>
+                    <Address address={job.agent} size="xs" />
+                  </td>
+                  <td className="max-w-xs text-xs">
+                    <SubmissionLink uri={job.submissionURI} />
+                  </td>
+                  <td className="text-right font-mono">{parseFloat(formatEther(job.paidAmount)).toFixed(2)}</td>
+                  <td className={reclaimIn <= 0 ? "text-error" : reclaimIn < 86400 ? "text-warning" : ""}>
+                    {reclaimIn <= 0 ? "now" : `in ${formatTimeRemaining(reclaimIn)}`}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-base-100 rounded-xl p-4 flex flex-col md:flex-row md:items-end gap-4">
+        <div className="grow">
+          <div className="text-xs opacity-60 mb-2">Rating for the selected jobs</div>
+          <RatingInput value={rating} onChange={setRating} />
+        </div>
+        <button
+          className="btn btn-success"
+          onClick={handleApprove}
+          disabled={selectedJobs.length === 0 || progress !== undefined}
+        >
+          {progress ? (
+            <>
+              <span className="loading loading-spinner loading-sm"></span> Approving {progress.done + 1}/
+              {progress.total}...
+            </>
+          ) : (
+            `✅ Approve ${selectedJobs.length || ""} selected`
+          )}
+        </button>
+      </div>
+      <p className="text-xs opacity-60">
+        Each approval is its own transaction. To dispute, or to add written feedback, open the job.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { JobsByStatus } from "../_components/JobsByStatus";
+import { ReviewQueue } from "./_components/ReviewQueue";
+import { JobStatus } from "@se-2/sdk";
+import type { NextPage } from "next";
+import { formatEther } from "viem";
+import { useAccount } from "wagmi";
+import { JobTitle } from "~~/components/JobTitle";
+import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useBoardJobs } from "~~/hooks/useBoardJobs";
+import { formatTimeRemaining, getEscrowBreakdown } from "~~/utils/bountyBoard";
+
+const formatClawd = (amount: bigint) => parseFloat(formatEther(amount)).toFixed(2);
+
+// ─── Poster Dashboard ───
+const PosterDashboard: NextPage = () => {
+  const { address: connectedAddress } = useAccount();
+  const [now, setNow] = useState(Math.floor(Date.now() / 1000));
+  const [cancelling, setCancelling] = useState<bigint>();
+
+  // Live clock for prices and countdowns
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const { jobs, isLoading, refetch } = useBoardJobs({ poster: connectedAddress });
+
+  const { writeContractAsync: writeBoard } = useScaffoldWriteContract({
+    contractName: "AgentBountyBoard",
+  });
+
+  const handleCancel = async (jobId: bigint) => {
+    setCancelling(jobId);
+    try {
+      await writeBoard({
+        functionName: "cancelJob",
+        args: [jobId],
+      });
+      await refetch();
+    } catch (e) {
+      console.error("Cancel failed:", e);
+    } finally {
+      setCancelling(undefined);
+    }
+  };
+
+  if (!connectedAddress) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh] px-4">
+        <div className="alert alert-warning max-w-md">
+          <span>Connect your wallet to see the jobs you posted</span>
+        </div>
+      </div>
+    );
+  }
+
+  const totals = jobs.map(getEscrowBreakdown).reduce(
+    (sum, part) => ({
+      escrowed: sum.escrowed + part.escrowed,
+      refunded: sum.refunded + part.refunded,
+      paid: sum.paid + part.paid,
+    }),
+    { escrowed: 0n, refunded: 0n, paid: 0n },
+  );
+
+  const toReview = jobs.filter(job => job.status === JobStatus.Submitted);
+  // Open jobs nobody took even at maxPrice: the escrow stays locked until someone claims or the poster cancels
+  const stale = jobs.filter(
+    job => job.status === JobStatus.Open && Number(job.auctionStart + job.auctionDuration) <= now,
+  );
+
+  return (
+    <div className="flex flex-col grow">
+      <div className="max-w-7xl mx-auto px-6 py-6 w-full">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-3xl font-bold">📋 My Posted Jobs</h2>
+          <Link href="/post" className="btn btn-primary btn-sm">
+            Post a Job
+          </Link>
+        </div>
+
+        {/* Escrow Summary */}
+        <div className="stats stats-vertical md:stats-horizontal w-full bg-base-300 mb-6">
+          <div className="stat">
+            <div className="stat-title">Jobs Posted</div>
+            <div className="stat-value text-2xl">{jobs.length}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">In Escrow</div>
+            <div className="stat-value text-2xl text-warning">{formatClawd(totals.escrowed)}</div>
+            <div className="stat-desc">CLAWD held for open and active jobs</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Refunded</div>
+            <div className="stat-value text-2xl">{formatClawd(totals.refunded)}</div>
+            <div className="stat-desc">Unused auction headroom, cancellations, expiries, disputes</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Paid</div>
+            <div className="stat-value text-2xl text-success">{formatClawd(totals.paid)}</div>
+            <div className="stat-desc">For completed work, fees included</div>
+          </div>
+        </div>
+
+        {isLoading && jobs.length === 0 ? (
+          <div className="flex justify-center py-20">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : (
+          <>
+            {/* Action Needed */}
+            {(toReview.length > 0 || stale.length > 0) && (
+              <div className="card bg-base-300 shadow-xl mb-6 border-2 border-warning">
+                <div className="card-body">
+                  <h3 className="text-lg font-semibold">⚠️ Action Needed</h3>
+
+                  {toReview.length > 0 && (
+                    <>
+                      <div className="divider">Review Submissions ({toReview.length})</div>
+                      <ReviewQueue jobs={toReview} now={now} onApproved={() => refetch()} />
+                    </>
+                  )}
+
+                  {stale.length > 0 && (
+                    <>
+                      <div className="divider">Consider Cancelling ({stale.length})</div>
+                      <p className="text-sm opacity-60">
+                        These auctions reached their max price without a taker. They stay claimable; cancelling refunds
+                        the escrow.
+                      </p>
+                      <div className="overflow-x-auto">
+                        <table className="table table-sm">
+                          <tbody>
+                            {stale.map(job => (
+                              <tr key={job.id.toString()} className="hover">
+                                <td>
+                                  <Link href={`/job?id=${job.id}`} className="link link-primary">
+                                    #{job.id.toString()}
+                                  </Link>
+                                </td>
+                                <td className="max-w-xs truncate">
+                                  <JobTitle description={job.description} compact />
+                                </td>
+                                <td className="font-mono text-right">{formatClawd(job.maxPrice)} CLAWD</td>
+                                <td className="text-xs opacity-60">
+                                  at max for {formatTimeRemaining(now - Number(job.auctionStart + job.auctionDuration))}
+                                </td>
+                                <td className="text-right">
+                                  <button
+                                    className="btn btn-error btn-outline btn-xs"
+                                    onClick={() => handleCancel(job.id)}
+                                    disabled={cancelling !== undefined}
+                                  >
+                                    {cancelling === job.id ? (
+                                      <span className="loading loading-spinner loading-xs"></span>
+                                    ) : (
+                                      "Cancel"
+                                    )}
+                                  </button>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* All Jobs */}
+            <JobsByStatus jobs={jobs} now={now} counterparty="agent" />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PosterDashboard;
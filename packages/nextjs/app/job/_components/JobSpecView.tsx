@@ -0,0 +1,107 @@
+"use client";
+
+import { Markdown } from "~~/components/Markdown";
+import { SubmissionLink } from "~~/components/SubmissionLink";
+import { useJobSpec } from "~~/hooks/useJobSpec";
+
+/**
+ * A job's full description: a spec's details, acceptance criteria, attachments and expected output, or legacy
+ * plain text as it was posted. Specs that fail validation show their errors above the raw description.
+ */
+export const JobSpecView = ({ description }: { description: string }) => {
+  const { description: parsed, isLoading } = useJobSpec(description);
+
+  if (isLoading || !parsed) return <span className="loading loading-dots loading-sm"></span>;
+
+  if (parsed.kind === "text") {
+    return <p className="text-base opacity-90 whitespace-pre-wrap">{parsed.text}</p>;
+  }
+
+  if (parsed.kind === "invalid") {
+    return (
+      <div className="flex flex-col gap-3">
+        <div className="alert alert-warning text-sm flex-col items-start gap-1">
+          <span className="font-semibold">This job&apos;s spec isn&apos;t valid:</span>
+          <ul className="list-disc pl-5">
+            {parsed.errors.map(error => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+        <pre className="text-xs bg-base-200 rounded-lg p-3 overflow-auto max-h-64 whitespace-pre-wrap break-all">
+          {description}
+        </pre>
+      </div>
+    );
+  }
+
+  const { spec } = parsed;
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <h3 className="text-xl font-bold">{spec.title}</h3>
+        {(spec.category || spec.tags.length > 0) && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {spec.category && <span className="badge badge-primary badge-outline">{spec.category}</span>}
+            {spec.tags.map(tag => (
+              <span key={tag} className="badge badge-ghost">
+                {tag}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {spec.description && (
+        <div className="opacity-90">
+          <Markdown source={spec.description} />
+        </div>
+      )}
+
+      {spec.acceptanceCriteria.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-1">Acceptance criteria</h4>
+          <ul className="flex flex-col gap-1 text-sm">
+            {spec.acceptanceCriteria.map((criterion, i) => (
+              <li key={i} className="flex gap-2">
+                <span className="text-success">✓</span>
+                <span>{criterion}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {spec.attachments.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-1">Attachments</h4>
+          <ul className="flex flex-col gap-1 text-sm">
+            {spec.attachments.map((attachment, i) => (
+              <li key={i} className="flex flex-wrap items-center gap-2">
+                {attachment.name && <span className="font-medium">{attachment.name}</span>}
+                <SubmissionLink uri={attachment.uri} />
+                {attachment.mimeType && (
+                  <span className="badge badge-outline badge-sm font-mono">{attachment.mimeType}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {spec.output && (spec.output.mimeType || spec.output.schema) && (
+        <div>
+          <h4 className="font-semibold mb-1">Expected output</h4>
+          {spec.output.mimeType && (
+            <span className="badge badge-outline badge-sm font-mono">{spec.output.mimeType}</span>
+          )}
+          {spec.output.schema && (
+            <pre className="text-xs bg-base-200 rounded-lg p-3 mt-2 overflow-auto max-h-64">
+              {JSON.stringify(spec.output.schema, null, 2)}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
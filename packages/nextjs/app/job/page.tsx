@@ -1,12 +1,69 @@
 "use client";
 
-import { Suspense, useEffect, useState } from "react";
+import { type ReactNode, Suspense, useEffect, useState } from "react";
 import { useSearchParams } from "next/navigation";
+import { JobSpecView } from "./_components/JobSpecView";
 import { Address } from "@scaffold-ui/components";
+import { MAX_FEEDBACK_LENGTH, decodeJob, feedbackMessage, getReviewDeadline, getWorkDeadline } from "@se-2/sdk";
 import { formatEther } from "viem";
-import { useAccount } from "wagmi";
-import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
-import { JOB_STATUS_COLORS, JOB_STATUS_LABELS, formatTimeRemaining } from "~~/utils/bountyBoard";
+import { useAccount, useSignMessage } from "wagmi";
+import { AuctionPriceChart } from "~~/components/AuctionPriceChart";
+import { RatingInput, RatingStars } from "~~/components/Rating";
+import { SubmissionViewer } from "~~/components/SubmissionViewer";
+import {
+  useDeployedContractInfo,
+  useScaffoldReadContract,
+  useScaffoldWriteContract,
+  useTargetNetwork,
+} from "~~/hooks/scaffold-eth";
+import { useIndexedJob } from "~~/hooks/useIndexedJob";
+import {
+  DEFAULT_RATING,
+  JOB_STATUS_COLORS,
+  JOB_STATUS_LABELS,
+  formatTimeRemaining,
+  ratingLabel,
+} from "~~/utils/bountyBoard";
+import { isIndexerConfigured, postFeedback } from "~~/utils/indexer";
+import { notification } from "~~/utils/scaffold-eth";
+
+/**
+ * A button for a contract call that only succeeds once block time is past `deadline`, counting down until then.
+ */
+const TimedActionButton = ({
+  deadline,
+  now,
+  busy,
+  busyLabel,
+  className,
+  onClick,
+  children,
+}: {
+  deadline: bigint;
+  now: number;
+  busy: boolean;
+  busyLabel: string;
+  className: string;
+  onClick: () => void;
+  children: ReactNode;
+}) => {
+  const wait = Number(deadline) - now + 1;
+  return (
+    <button className={`btn ${className}`} onClick={onClick} disabled={busy || wait > 0}>
+      {busy ? (
+        <>
+          <span className="loading loading-spinner loading-sm"></span> {busyLabel}
+        </>
+      ) : wait > 0 ? (
+        <>
+          {children} — available in {formatTimeRemaining(wait)}
+        </>
+      ) : (
+        children
+      )}
+    </button>
+  );
+};
 
 const JobDetailInner = () => {
   const searchParams = useSearchParams();
@@ -16,7 +73,8 @@ const JobDetailInner = () => {
   const [now, setNow] = useState(Math.floor(Date.now() / 1000));
   const [agentIdInput, setAgentIdInput] = useState("");
   const [submissionURI, setSubmissionURI] = useState("");
-  const [rating, setRating] = useState("5");
+  const [rating, setRating] = useState(DEFAULT_RATING);
+  const [feedback, setFeedback] = useState("");
 
   // Live clock
   useEffect(() => {
@@ -43,6 +101,12 @@ const JobDetailInner = () => {
     args: [BigInt(jobId)],
   });
 
+  // Written feedback isn't stored on chain; the indexer keeps it, signed by the poster
+  const indexedJob = useIndexedJob(jobId ? BigInt(jobId) : undefined);
+  const { targetNetwork } = useTargetNetwork();
+  const { data: boardContract } = useDeployedContractInfo({ contractName: "AgentBountyBoard" });
+  const { signMessageAsync } = useSignMessage();
+
   // Write hooks
   const { writeContractAsync: writeBoard } = useScaffoldWriteContract({
     contractName: "AgentBountyBoard",
@@ -53,6 +117,9 @@ const JobDetailInner = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
   const [isDisputing, setIsDisputing] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isExpiring, setIsExpiring] = useState(false);
+  const [isReclaiming, setIsReclaiming] = useState(false);
 
   if (!jobId) {
     return (
@@ -62,7 +129,7 @@ const JobDetailInner = () => {
     );
   }
 
-  if (!jobCore) {
+  if (!jobCore || !jobAgent) {
     return (
       <div className="flex justify-center items-center min-h-[50vh]">
         <span className="loading loading-spinner loading-lg"></span>
@@ -70,24 +137,26 @@ const JobDetailInner = () => {
     );
   }
 
-  const [poster, description, minPrice, maxPrice, auctionStart, auctionDuration, workDeadline, status] = jobCore;
-  const statusNum = Number(status);
+  const job = decodeJob(BigInt(jobId), jobCore, jobAgent);
+  const { poster, description, minPrice, maxPrice, auctionStart, auctionDuration, workDeadline, agent } = job;
+  const statusNum = Number(job.status);
 
   const auctionEnd = Number(auctionStart) + Number(auctionDuration);
   const auctionTimeRemaining = auctionEnd - now;
+  // Claiming stays open at maxPrice once the ramp ends, until someone claims or the poster cancels
   const isAuctionActive = statusNum === 0 && auctionTimeRemaining > 0;
 
   // Agent data
-  const agent = jobAgent ? jobAgent[0] : undefined;
-  const agentId = jobAgent ? Number(jobAgent[1]) : 0;
-  const claimedAt = jobAgent ? Number(jobAgent[2]) : 0;
-  const jobSubmissionURI = jobAgent ? jobAgent[3] : "";
-  const paidAmount = jobAgent ? jobAgent[4] : 0n;
-  const jobRating = jobAgent ? Number(jobAgent[5]) : 0;
+  const agentId = Number(job.agentId);
+  const claimedAt = Number(job.claimedAt);
+  const jobSubmissionURI = job.submissionURI;
+  const paidAmount = job.paidAmount;
+  const jobRating = job.rating;
 
   // Work deadline countdown (if claimed)
   const workDeadlineTimestamp = claimedAt > 0 ? claimedAt + Number(workDeadline) : 0;
   const workTimeRemaining = workDeadlineTimestamp > 0 ? workDeadlineTimestamp - now : 0;
+  const reviewDeadline = getReviewDeadline(job);
 
   const isPoster = connectedAddress?.toLowerCase() === poster?.toLowerCase();
   const isAgent = connectedAddress?.toLowerCase() === agent?.toLowerCase();
@@ -122,13 +191,36 @@ const JobDetailInner = () => {
     }
   };
 
+  // Signs and sends the poster's feedback once the approval or dispute went through
+  const sendFeedback = async () => {
+    if (!feedback.trim() || !boardContract) return;
+    try {
+      const signedAt = BigInt(Math.floor(Date.now() / 1000));
+      const message = feedbackMessage({
+        chainId: targetNetwork.id,
+        board: boardContract.address,
+        jobId: BigInt(jobId),
+        feedback: feedback.trim(),
+        signedAt,
+      });
+      const signature = await signMessageAsync({ message });
+      await postFeedback(BigInt(jobId), feedback.trim(), signedAt, signature);
+      setFeedback("");
+      await indexedJob.refetch();
+    } catch (e) {
+      console.error("Feedback failed:", e);
+      notification.error(`Feedback not saved: ${(e as Error).message}`);
+    }
+  };
+
   const handleApproveWork = async () => {
     setIsApproving(true);
     try {
       await writeBoard({
         functionName: "approveWork",
-        args: [BigInt(jobId), parseInt(rating)],
+        args: [BigInt(jobId), rating],
       });
+      await sendFeedback();
     } catch (e) {
       console.error("Approve failed:", e);
     } finally {
@@ -143,6 +235,7 @@ const JobDetailInner = () => {
         functionName: "disputeWork",
         args: [BigInt(jobId)],
       });
+      await sendFeedback();
     } catch (e) {
       console.error("Dispute failed:", e);
     } finally {
@@ -150,6 +243,48 @@ const JobDetailInner = () => {
     }
   };
 
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      await writeBoard({
+        functionName: "cancelJob",
+        args: [BigInt(jobId)],
+      });
+    } catch (e) {
+      console.error("Cancel failed:", e);
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleExpire = async () => {
+    setIsExpiring(true);
+    try {
+      await writeBoard({
+        functionName: "expireJob",
+        args: [BigInt(jobId)],
+      });
+    } catch (e) {
+      console.error("Expire failed:", e);
+    } finally {
+      setIsExpiring(false);
+    }
+  };
+
+  const handleReclaim = async () => {
+    setIsReclaiming(true);
+    try {
+      await writeBoard({
+        functionName: "reclaimWork",
+        args: [BigInt(jobId)],
+      });
+    } catch (e) {
+      console.error("Reclaim failed:", e);
+    } finally {
+      setIsReclaiming(false);
+    }
+  };
+
   return (
     <div className="flex flex-col grow items-center px-4 py-8">
       <div className="w-full max-w-3xl">
@@ -162,8 +297,7 @@ const JobDetailInner = () => {
         {/* Main info card */}
         <div className="card bg-base-300 shadow-xl mb-6">
           <div className="card-body">
-            <h3 className="text-lg font-semibold mb-2">Description</h3>
-            <p className="text-base opacity-90 whitespace-pre-wrap">{description}</p>
+            <JobSpecView description={description} />
             <div className="divider"></div>
             <div className="flex items-center gap-2">
               <span className="font-semibold text-sm">Posted by:</span>
@@ -173,73 +307,102 @@ const JobDetailInner = () => {
         </div>
 
         {/* Price / Auction Card */}
-        {statusNum === 0 && (
+        {(statusNum === 0 || claimedAt > 0) && (
           <div className="card bg-base-300 shadow-xl mb-6">
             <div className="card-body">
               <h3 className="text-lg font-semibold mb-3">🏷️ Dutch Auction</h3>
-              {isAuctionActive && currentPrice ? (
+              <AuctionPriceChart
+                auction={job}
+                now={now}
+                claim={claimedAt > 0 ? { timestamp: job.claimedAt, price: paidAmount } : undefined}
+              />
+              {statusNum !== 0 ? (
+                <div className="text-sm opacity-60 mt-2">
+                  Claimed for {parseFloat(formatEther(paidAmount)).toFixed(2)} CLAWD
+                </div>
+              ) : currentPrice !== undefined ? (
                 <>
-                  <div className="bg-base-100 rounded-xl p-6 text-center">
-                    <div className="text-sm opacity-60 mb-1">Current Price</div>
+                  <div className="bg-base-100 rounded-xl p-6 text-center mt-4">
+                    <div className="text-sm opacity-60 mb-1">
+                      {isAuctionActive ? "Current Price" : "Price (at max)"}
+                    </div>
                     <div className="text-4xl font-bold text-primary font-mono">
                       {parseFloat(formatEther(currentPrice)).toFixed(4)} CLAWD
                     </div>
                   </div>
                   <div className="grid grid-cols-3 gap-4 mt-4">
                     <div className="bg-base-100 rounded-lg p-3 text-center">
-                      <div className="text-xs opacity-60">Max (Start)</div>
-                      <div className="font-semibold">{parseFloat(formatEther(maxPrice)).toFixed(2)}</div>
+                      <div className="text-xs opacity-60">Min (Start)</div>
+                      <div className="font-semibold">{parseFloat(formatEther(minPrice)).toFixed(2)}</div>
                     </div>
                     <div className="bg-base-100 rounded-lg p-3 text-center">
-                      <div className="text-xs opacity-60">Min (End)</div>
-                      <div className="font-semibold">{parseFloat(formatEther(minPrice)).toFixed(2)}</div>
+                      <div className="text-xs opacity-60">Max (End)</div>
+                      <div className="font-semibold">{parseFloat(formatEther(maxPrice)).toFixed(2)}</div>
                     </div>
                     <div className="bg-base-100 rounded-lg p-3 text-center">
                       <div className="text-xs opacity-60">Time Left</div>
-                      <div className="font-semibold text-warning">{formatTimeRemaining(auctionTimeRemaining)}</div>
+                      <div className="font-semibold text-warning">
+                        {isAuctionActive ? formatTimeRemaining(auctionTimeRemaining) : "Ramp ended"}
+                      </div>
                     </div>
                   </div>
-                  <div className="mt-4">
-                    <progress
-                      className="progress progress-primary w-full"
-                      value={Number(auctionDuration) - auctionTimeRemaining}
-                      max={Number(auctionDuration)}
-                    ></progress>
-                    <div className="flex justify-between text-xs opacity-50 mt-1">
-                      <span>Max Price</span>
-                      <span>Min Price</span>
+                  {!isAuctionActive && (
+                    <div className="text-sm opacity-60 mt-3 text-center">
+                      The price has reached its maximum. The job stays claimable until someone claims it or the poster
+                      cancels.
                     </div>
-                  </div>
-                  <div className="divider">Claim This Job</div>
-                  <div className="form-control">
-                    <label className="label">
-                      <span className="label-text">Your ERC-8004 Agent ID</span>
-                    </label>
-                    <input
-                      type="number"
-                      className="input input-bordered bg-base-100"
-                      placeholder="Enter your agent token ID"
-                      value={agentIdInput}
-                      onChange={e => setAgentIdInput(e.target.value)}
-                    />
-                  </div>
-                  <button
-                    className="btn btn-primary mt-3"
-                    onClick={handleClaim}
-                    disabled={isClaiming || !agentIdInput || !connectedAddress}
-                  >
-                    {isClaiming ? (
-                      <>
-                        <span className="loading loading-spinner loading-sm"></span> Claiming...
-                      </>
-                    ) : (
-                      `🤝 Claim for ${currentPrice ? parseFloat(formatEther(currentPrice)).toFixed(2) : "..."} CLAWD`
-                    )}
-                  </button>
+                  )}
+                  {isPoster ? (
+                    <>
+                      <div className="divider">Cancel This Job</div>
+                      <p className="text-sm opacity-60">
+                        Cancelling refunds the full {parseFloat(formatEther(maxPrice)).toFixed(2)} CLAWD escrow to you.
+                        Only possible while nobody has claimed the job.
+                      </p>
+                      <button className="btn btn-error btn-outline mt-3" onClick={handleCancel} disabled={isCancelling}>
+                        {isCancelling ? (
+                          <>
+                            <span className="loading loading-spinner loading-sm"></span> Cancelling...
+                          </>
+                        ) : (
+                          "🗑️ Cancel Job"
+                        )}
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <div className="divider">Claim This Job</div>
+                      <div className="form-control">
+                        <label className="label">
+                          <span className="label-text">Your ERC-8004 Agent ID</span>
+                        </label>
+                        <input
+                          type="number"
+                          className="input input-bordered bg-base-100"
+                          placeholder="Enter your agent token ID"
+                          value={agentIdInput}
+                          onChange={e => setAgentIdInput(e.target.value)}
+                        />
+                      </div>
+                      <button
+                        className="btn btn-primary mt-3"
+                        onClick={handleClaim}
+                        disabled={isClaiming || !agentIdInput || !connectedAddress}
+                      >
+                        {isClaiming ? (
+                          <>
+                            <span className="loading loading-spinner loading-sm"></span> Claiming...
+                          </>
+                        ) : (
+                          `🤝 Claim for ${parseFloat(formatEther(currentPrice)).toFixed(2)} CLAWD`
+                        )}
+                      </button>
+                    </>
+                  )}
                 </>
               ) : (
-                <div className="text-center py-6 opacity-60">
-                  <p>Auction has ended. No claims possible.</p>
+                <div className="flex justify-center py-6">
+                  <span className="loading loading-spinner"></span>
                 </div>
               )}
             </div>
@@ -294,6 +457,21 @@ const JobDetailInner = () => {
                   </button>
                 </>
               )}
+              <div className="divider">Expire</div>
+              <p className="text-sm opacity-60">
+                If no work is submitted by the deadline, anyone can expire the job, refunding the{" "}
+                {parseFloat(formatEther(paidAmount)).toFixed(2)} CLAWD escrow to the poster.
+              </p>
+              <TimedActionButton
+                deadline={getWorkDeadline(job)}
+                now={now}
+                busy={isExpiring}
+                busyLabel="Expiring..."
+                className="btn-warning btn-outline mt-3"
+                onClick={handleExpire}
+              >
+                ⌛ Expire Job
+              </TimedActionButton>
             </div>
           </div>
         )}
@@ -304,15 +482,8 @@ const JobDetailInner = () => {
             <div className="card-body">
               <h3 className="text-lg font-semibold mb-3">📋 Work Submitted — Awaiting Review</h3>
               <div className="bg-base-100 rounded-lg p-4 mb-4">
-                <div className="text-xs opacity-60 mb-1">Submission URI</div>
-                <a
-                  href={jobSubmissionURI}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="link link-primary break-all"
-                >
-                  {jobSubmissionURI}
-                </a>
+                <div className="text-xs opacity-60 mb-1">Submission</div>
+                <SubmissionViewer uri={jobSubmissionURI} jobId={jobId.toString()} />
               </div>
               <div className="bg-base-100 rounded-lg p-4 mb-4">
                 <div className="text-xs opacity-60 mb-1">Agent</div>
@@ -324,21 +495,36 @@ const JobDetailInner = () => {
                   <div className="divider">Review Work</div>
                   <div className="form-control mb-3">
                     <label className="label">
-                      <span className="label-text">Rating (1-5)</span>
+                      <span className="label-text">Rating (0–100)</span>
                     </label>
-                    <div className="rating rating-lg">
-                      {[1, 2, 3, 4, 5].map(r => (
-                        <input
-                          key={r}
-                          type="radio"
-                          name="rating"
-                          className="mask mask-star-2 bg-warning"
-                          checked={parseInt(rating) === r}
-                          onChange={() => setRating(String(r))}
-                        />
-                      ))}
-                    </div>
+                    <RatingInput value={rating} onChange={setRating} />
                   </div>
+                  {isIndexerConfigured() ? (
+                    <div className="form-control mb-3">
+                      <label className="label">
+                        <span className="label-text">Feedback (optional)</span>
+                        <span className="label-text-alt opacity-60">
+                          {feedback.length}/{MAX_FEEDBACK_LENGTH}
+                        </span>
+                      </label>
+                      <textarea
+                        className="textarea textarea-bordered bg-base-100"
+                        rows={3}
+                        maxLength={MAX_FEEDBACK_LENGTH}
+                        placeholder="What was good, what was missing"
+                        value={feedback}
+                        onChange={e => setFeedback(e.target.value)}
+                      />
+                      <span className="text-xs opacity-60 mt-1">
+                        Sent with your approval or dispute. You sign it with your wallet; the indexer keeps it, not the
+                        contract.
+                      </span>
+                    </div>
+                  ) : (
+                    <p className="text-xs opacity-60 mb-3">
+                      Written feedback needs an indexer (NEXT_PUBLIC_INDEXER_URL).
+                    </p>
+                  )}
                   <div className="flex gap-3">
                     <button className="btn btn-success flex-1" onClick={handleApproveWork} disabled={isApproving}>
                       {isApproving ? (
@@ -361,6 +547,31 @@ const JobDetailInner = () => {
                   </div>
                 </>
               )}
+              {isAgent && (
+                <>
+                  <div className="divider">Reclaim Payment</div>
+                  <p className="text-sm opacity-60">
+                    If the poster hasn&apos;t reviewed your work within three work deadlines of the claim, you can
+                    collect the payment yourself. The job completes without a rating.
+                  </p>
+                  <TimedActionButton
+                    deadline={reviewDeadline}
+                    now={now}
+                    busy={isReclaiming}
+                    busyLabel="Reclaiming..."
+                    className="btn-success btn-outline mt-3"
+                    onClick={handleReclaim}
+                  >
+                    💰 Reclaim Payment
+                  </TimedActionButton>
+                </>
+              )}
+              {isPoster && Number(reviewDeadline) >= now && (
+                <div className="text-sm opacity-60 mt-3">
+                  Review within {formatTimeRemaining(Number(reviewDeadline) - now + 1)} — after that the agent can
+                  reclaim the payment unrated.
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -385,30 +596,25 @@ const JobDetailInner = () => {
               </div>
               <div className="bg-base-100 rounded-lg p-4 mt-4">
                 <div className="text-xs opacity-60 mb-1">Rating</div>
-                <div className="rating rating-md">
-                  {[1, 2, 3, 4, 5].map(r => (
-                    <input
-                      key={r}
-                      type="radio"
-                      className="mask mask-star-2 bg-warning"
-                      checked={jobRating === r}
-                      readOnly
-                      disabled
-                    />
-                  ))}
+                <div className="flex items-center gap-3 text-xl">
+                  <RatingStars rating={jobRating} />
+                  <span className="badge badge-ghost badge-sm">{ratingLabel(jobRating)}</span>
                 </div>
+                {jobRating === 0 && (
+                  <div className="text-xs opacity-60 mt-1">
+                    A 0 rating can also mean the agent reclaimed the payment without a review.
+                  </div>
+                )}
+                {indexedJob.data?.feedback && (
+                  <blockquote className="mt-3 border-l-4 border-base-300 pl-3 text-sm whitespace-pre-wrap">
+                    {indexedJob.data.feedback}
+                  </blockquote>
+                )}
               </div>
               {jobSubmissionURI && (
                 <div className="bg-base-100 rounded-lg p-4 mt-4">
                   <div className="text-xs opacity-60 mb-1">Submission</div>
-                  <a
-                    href={jobSubmissionURI}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="link link-primary break-all"
-                  >
-                    {jobSubmissionURI}
-                  </a>
+                  <SubmissionViewer uri={jobSubmissionURI} jobId={jobId.toString()} />
                 </div>
               )}
             </div>
@@ -424,17 +630,16 @@ const JobDetailInner = () => {
                 <div className="text-xs opacity-60 mb-1">Agent</div>
                 <Address address={agent} />
               </div>
+              {indexedJob.data?.feedback && (
+                <div className="bg-base-100 rounded-lg p-4 mt-4">
+                  <div className="text-xs opacity-60 mb-1">Poster&apos;s Feedback</div>
+                  <p className="text-sm whitespace-pre-wrap">{indexedJob.data.feedback}</p>
+                </div>
+              )}
               {jobSubmissionURI && (
                 <div className="bg-base-100 rounded-lg p-4 mt-4">
                   <div className="text-xs opacity-60 mb-1">Submission</div>
-                  <a
-                    href={jobSubmissionURI}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="link link-primary break-all"
-                  >
-                    {jobSubmissionURI}
-                  </a>
+                  <SubmissionViewer uri={jobSubmissionURI} jobId={jobId.toString()} />
                 </div>
               )}
             </div>
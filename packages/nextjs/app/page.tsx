@@ -1,15 +1,34 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { Suspense, useEffect, useState } from "react";
 import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { JobFilters } from "./_components/JobFilters";
 import { Address } from "@scaffold-ui/components";
+import { type Job, JobStatus, getAuctionPrice } from "@se-2/sdk";
 import type { NextPage } from "next";
 import { formatEther } from "viem";
+import { JobTitle } from "~~/components/JobTitle";
+import { RatingStars } from "~~/components/Rating";
 import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { useContractJobs } from "~~/hooks/useContractJobs";
+import { useIndexedJobs } from "~~/hooks/useIndexedJobs";
+import { useJobMatchText } from "~~/hooks/useJobSpec";
 import { JOB_STATUS_COLORS, JOB_STATUS_LABELS, formatTimeRemaining } from "~~/utils/bountyBoard";
+import {
+  DEFAULT_JOB_SEARCH,
+  type JobSearch,
+  isFiltered,
+  jobSearchToParams,
+  parseJobSearch,
+  searchJobs,
+  toJobsQuery,
+} from "~~/utils/jobSearch";
+
+const PAGE_SIZE = 12;
 
 // ─── Job Card Component ───
-const JobCard = ({ jobId }: { jobId: number }) => {
+const JobCard = ({ job }: { job: Job }) => {
   const [now, setNow] = useState(Math.floor(Date.now() / 1000));
 
   // Live clock for auction price
@@ -18,28 +37,9 @@ const JobCard = ({ jobId }: { jobId: number }) => {
     return () => clearInterval(interval);
   }, []);
 
-  const { data: jobCore } = useScaffoldReadContract({
-    contractName: "AgentBountyBoard",
-    functionName: "getJobCore",
-    args: [BigInt(jobId)],
-  });
-
-  const { data: currentPrice } = useScaffoldReadContract({
-    contractName: "AgentBountyBoard",
-    functionName: "getCurrentPrice",
-    args: [BigInt(jobId)],
-  });
-
-  const { data: jobAgent } = useScaffoldReadContract({
-    contractName: "AgentBountyBoard",
-    functionName: "getJobAgent",
-    args: [BigInt(jobId)],
-  });
-
-  if (!jobCore) return null;
-
-  const [poster, description, minPrice, maxPrice, auctionStart, auctionDuration, workDeadline, status] = jobCore;
-  const statusNum = Number(status);
+  const { id: jobId, poster, description, minPrice, maxPrice, auctionStart, auctionDuration, workDeadline } = job;
+  const statusNum = Number(job.status);
+  const currentPrice = getAuctionPrice(job, BigInt(now));
 
   const auctionEnd = Number(auctionStart) + Number(auctionDuration);
   const auctionTimeRemaining = auctionEnd - now;
@@ -55,35 +55,45 @@ const JobCard = ({ jobId }: { jobId: number }) => {
             <span className={`badge ${JOB_STATUS_COLORS[statusNum]} badge-sm`}>{JOB_STATUS_LABELS[statusNum]}</span>
           </div>
 
-          {/* Description */}
-          <p className="text-sm opacity-80 line-clamp-2">{description}</p>
+          {/* Title and tags, or the plain-text description */}
+          <JobTitle description={description} className="text-sm opacity-80" />
 
           {/* Price info */}
           <div className="mt-2">
-            {isAuctionActive && currentPrice ? (
+            {isAuctionActive ? (
               <div className="bg-base-100 rounded-lg p-3">
                 <div className="text-xs opacity-60 mb-1">Current Price (Dutch Auction)</div>
                 <div className="text-2xl font-bold text-primary font-mono">
                   {parseFloat(formatEther(currentPrice)).toFixed(2)} CLAWD
                 </div>
                 <div className="flex justify-between mt-1 text-xs opacity-60">
-                  <span>Max: {parseFloat(formatEther(maxPrice)).toFixed(0)}</span>
-                  <span>→</span>
                   <span>Min: {parseFloat(formatEther(minPrice)).toFixed(0)}</span>
+                  <span>→</span>
+                  <span>Max: {parseFloat(formatEther(maxPrice)).toFixed(0)}</span>
                 </div>
                 <div className="mt-2 text-xs">⏱ {formatTimeRemaining(auctionTimeRemaining)} remaining</div>
               </div>
             ) : statusNum === 0 ? (
-              <div className="bg-base-100 rounded-lg p-3 text-sm opacity-60">Auction ended — awaiting expiry</div>
+              <div className="bg-base-100 rounded-lg p-3">
+                <div className="text-xs opacity-60 mb-1">Price (at max — still claimable)</div>
+                <div className="text-2xl font-bold text-primary font-mono">
+                  {parseFloat(formatEther(maxPrice)).toFixed(2)} CLAWD
+                </div>
+              </div>
             ) : (
               <div className="bg-base-100 rounded-lg p-3">
                 <div className="text-xs opacity-60 mb-1">Price Range</div>
                 <div className="text-sm">
                   {parseFloat(formatEther(minPrice)).toFixed(0)} – {parseFloat(formatEther(maxPrice)).toFixed(0)} CLAWD
                 </div>
-                {jobAgent && Number(jobAgent[4]) > 0 && (
+                {job.paidAmount > 0n && (
                   <div className="text-sm mt-1 text-success">
-                    Paid: {parseFloat(formatEther(jobAgent[4])).toFixed(2)} CLAWD
+                    Paid: {parseFloat(formatEther(job.paidAmount)).toFixed(2)} CLAWD
+                  </div>
+                )}
+                {statusNum === JobStatus.Completed && (
+                  <div className="text-sm mt-1">
+                    <RatingStars rating={job.rating} />
                   </div>
                 )}
               </div>
@@ -105,8 +115,19 @@ const JobCard = ({ jobId }: { jobId: number }) => {
 };
 
 // ─── Main Page ───
-const Home: NextPage = () => {
-  const [filter, setFilter] = useState<"all" | "open" | "claimed" | "completed">("all");
+const HomeInner = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const search = parseJobSearch(searchParams);
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  // The search lives in the URL so filtered views can be bookmarked and shared
+  const setSearch = (next: JobSearch) => {
+    const query = jobSearchToParams(next).toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    setVisible(PAGE_SIZE);
+  };
 
   const { data: jobCount } = useScaffoldReadContract({
     contractName: "AgentBountyBoard",
@@ -115,8 +136,25 @@ const Home: NextPage = () => {
 
   const totalJobs = jobCount ? Number(jobCount) : 0;
 
-  // Build job IDs array (reverse order — newest first)
-  const jobIds = Array.from({ length: totalJobs }, (_, i) => totalJobs - 1 - i);
+  const { data: platformStats } = useScaffoldReadContract({
+    contractName: "AgentBountyBoard",
+    functionName: "getPlatformStats",
+  });
+  const [, jobsCompleted, totalPaid] = platformStats ?? [];
+
+  // Jobs come from the indexer when one is configured and answering, otherwise straight from the contract
+  const indexed = useIndexedJobs({ ...toJobsQuery(search), limit: PAGE_SIZE });
+  const fromIndexer = indexed.enabled && !indexed.isError;
+  const contract = useContractJobs(fromIndexer ? 0 : totalJobs);
+  const matchText = useJobMatchText(contract.jobs, !fromIndexer && Boolean(search.q.trim()));
+  const contractMatches = fromIndexer
+    ? []
+    : searchJobs(contract.jobs, search, BigInt(Math.floor(Date.now() / 1000)), matchText);
+
+  const jobs = fromIndexer ? indexed.jobs : contractMatches.slice(0, visible);
+  const matchCount = fromIndexer ? indexed.total : contract.isSuccess ? contractMatches.length : undefined;
+  const hasMore = fromIndexer ? indexed.hasNextPage : contractMatches.length > visible;
+  const loadMore = () => (fromIndexer ? indexed.fetchNextPage() : setVisible(visible + PAGE_SIZE));
 
   return (
     <div className="flex flex-col grow">
@@ -129,12 +167,19 @@ const Home: NextPage = () => {
               <div className="stat-value text-2xl">{totalJobs}</div>
             </div>
             <div className="stat place-items-center py-2">
-              <div className="stat-title text-xs">Auction Type</div>
-              <div className="stat-value text-lg">🇳🇱 Dutch</div>
+              <div className="stat-title text-xs">Completed</div>
+              <div className="stat-value text-2xl">{jobsCompleted?.toString() ?? "—"}</div>
+            </div>
+            <div className="stat place-items-center py-2">
+              <div className="stat-title text-xs">CLAWD Paid</div>
+              <div className="stat-value text-2xl">
+                {totalPaid === undefined ? "—" : parseFloat(formatEther(totalPaid)).toFixed(0)}
+              </div>
             </div>
             <div className="stat place-items-center py-2">
-              <div className="stat-title text-xs">Token</div>
-              <div className="stat-value text-lg">🐾 CLAWD</div>
+              <Link href="/analytics" className="btn btn-sm btn-ghost">
+                📈 Analytics
+              </Link>
             </div>
           </div>
         </div>
@@ -142,16 +187,6 @@ const Home: NextPage = () => {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-6 py-6 w-full grow">
-        {/* Filter Tabs */}
-        <div className="tabs tabs-boxed mb-6 bg-base-300 inline-flex">
-          {(["all", "open", "claimed", "completed"] as const).map(tab => (
-            <button key={tab} className={`tab ${filter === tab ? "tab-active" : ""}`} onClick={() => setFilter(tab)}>
-              {tab.charAt(0).toUpperCase() + tab.slice(1)}
-            </button>
-          ))}
-        </div>
-
-        {/* Jobs Grid */}
         {totalJobs === 0 ? (
           <div className="text-center py-20 opacity-50">
             <div className="text-6xl mb-4">📋</div>
@@ -161,34 +196,60 @@ const Home: NextPage = () => {
             </Link>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {jobIds.map(id => (
-              <FilteredJobCard key={id} jobId={id} filter={filter} />
-            ))}
-          </div>
+          <>
+            <JobFilters search={search} onChange={setSearch} />
+
+            {matchCount !== undefined && (
+              <div className="text-sm opacity-60 mb-3">
+                {matchCount} {matchCount === 1 ? "job" : "jobs"}
+                {isFiltered(search) ? " match" : ""}
+              </div>
+            )}
+
+            {/* Jobs Grid */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {jobs.map(job => (
+                <JobCard key={job.id.toString()} job={job} />
+              ))}
+            </div>
+            {matchCount === 0 && (
+              <div className="text-center py-20 opacity-50">
+                <p>No jobs match these filters</p>
+                <button className="btn btn-ghost btn-sm mt-2" onClick={() => setSearch(DEFAULT_JOB_SEARCH)}>
+                  Clear filters
+                </button>
+              </div>
+            )}
+            {hasMore && (
+              <div className="flex justify-center mt-6">
+                <button
+                  className="btn btn-outline btn-sm"
+                  disabled={indexed.isFetchingNextPage}
+                  onClick={() => loadMore()}
+                >
+                  {indexed.isFetchingNextPage ? <span className="loading loading-spinner loading-xs" /> : "Load more"}
+                </button>
+              </div>
+            )}
+          </>
         )}
       </div>
     </div>
   );
 };
 
-// ─── Filtered Job Card (handles filtering) ───
-const FilteredJobCard = ({ jobId, filter }: { jobId: number; filter: "all" | "open" | "claimed" | "completed" }) => {
-  const { data: jobCore } = useScaffoldReadContract({
-    contractName: "AgentBountyBoard",
-    functionName: "getJobCore",
-    args: [BigInt(jobId)],
-  });
-
-  if (!jobCore) return null;
-
-  const statusNum = Number(jobCore[7]);
-
-  if (filter === "open" && statusNum !== 0) return null;
-  if (filter === "claimed" && statusNum !== 1) return null;
-  if (filter === "completed" && statusNum !== 3) return null;
-
-  return <JobCard jobId={jobId} />;
+const Home: NextPage = () => {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex justify-center items-center min-h-[50vh]">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      }
+    >
+      <HomeInner />
+    </Suspense>
+  );
 };
 
 export default Home;
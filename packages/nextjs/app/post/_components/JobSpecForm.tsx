@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { JOB_SPEC_VERSION, MAX_SPEC_TITLE_LENGTH, encodeJobSpec, validateJobSpec } from "@se-2/sdk";
+import { formatBytes } from "~~/utils/submission";
+
+type Mode = "text" | "spec";
+type Encoding = "inline" | "data";
+
+const lines = (text: string) =>
+  text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean);
+
+/** The builder's fields as a spec, or why they aren't one */
+function buildSpec(fields: {
+  title: string;
+  category: string;
+  tags: string;
+  details: string;
+  criteria: string;
+  attachments: string;
+  outputMimeType: string;
+  outputSchema: string;
+}) {
+  let schema: unknown;
+  if (fields.outputSchema.trim()) {
+    try {
+      schema = JSON.parse(fields.outputSchema);
+    } catch {
+      return { errors: ["Output schema isn't valid JSON"] };
+    }
+  }
+  const output = {
+    ...(fields.outputMimeType.trim() && { mimeType: fields.outputMimeType.trim() }),
+    ...(schema !== undefined && { schema }),
+  };
+  return validateJobSpec({
+    specVersion: JOB_SPEC_VERSION,
+    title: fields.title,
+    ...(fields.category.trim() && { category: fields.category.trim() }),
+    ...(fields.details.trim() && { description: fields.details.trim() }),
+    tags: fields.tags.split(","),
+    acceptanceCriteria: lines(fields.criteria),
+    attachments: lines(fields.attachments).map(uri => ({ uri })),
+    ...(Object.keys(output).length > 0 && { output }),
+  });
+}
+
+/**
+ * The job description, either as plain text or built as a job spec. Calls `onChange` with what to post as the
+ * job's `description`: the text, the encoded spec, or "" while the spec is invalid.
+ */
+export const JobSpecForm = ({ onChange }: { onChange: (description: string) => void }) => {
+  const [mode, setMode] = useState<Mode>("spec");
+  const [encoding, setEncoding] = useState<Encoding>("inline");
+  const [text, setText] = useState("");
+  const [fields, setFields] = useState({
+    title: "",
+    category: "",
+    tags: "",
+    details: "",
+    criteria: "",
+    attachments: "",
+    outputMimeType: "",
+    outputSchema: "",
+  });
+  const setField = (name: keyof typeof fields) => (value: string) =>
+    setFields(current => ({ ...current, [name]: value }));
+
+  const { spec, errors } = useMemo(() => buildSpec(fields), [fields]);
+  const isPristine = Object.values(fields).every(value => !value.trim());
+  const description = mode === "text" ? text : spec ? encodeJobSpec(spec, encoding) : "";
+
+  useEffect(() => onChange(description), [description, onChange]);
+
+  const input = (name: keyof typeof fields, label: string, placeholder: string, hint?: string) => (
+    <div className="form-control">
+      <label className="label">
+        <span className="label-text font-semibold">{label}</span>
+      </label>
+      <input
+        className="input input-bordered bg-base-100"
+        placeholder={placeholder}
+        value={fields[name]}
+        onChange={e => setField(name)(e.target.value)}
+      />
+      {hint && (
+        <label className="label">
+          <span className="label-text-alt opacity-60">{hint}</span>
+        </label>
+      )}
+    </div>
+  );
+
+  const textarea = (name: keyof typeof fields, label: string, placeholder: string, hint?: string) => (
+    <div className="form-control">
+      <label className="label">
+        <span className="label-text font-semibold">{label}</span>
+      </label>
+      <textarea
+        className="textarea textarea-bordered h-24 bg-base-100"
+        placeholder={placeholder}
+        value={fields[name]}
+        onChange={e => setField(name)(e.target.value)}
+      />
+      {hint && (
+        <label className="label">
+          <span className="label-text-alt opacity-60">{hint}</span>
+        </label>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div role="tablist" className="tabs tabs-box tabs-sm w-fit">
+        <button role="tab" className={`tab ${mode === "spec" ? "tab-active" : ""}`} onClick={() => setMode("spec")}>
+          Structured spec
+        </button>
+        <button role="tab" className={`tab ${mode === "text" ? "tab-active" : ""}`} onClick={() => setMode("text")}>
+          Plain text
+        </button>
+      </div>
+
+      {mode === "text" ? (
+        <div className="form-control">
+          <label className="label">
+            <span className="label-text font-semibold">Job Description</span>
+          </label>
+          <textarea
+            className="textarea textarea-bordered h-32 bg-base-100"
+            placeholder="Describe the work you need done..."
+            value={text}
+            onChange={e => setText(e.target.value)}
+          />
+        </div>
+      ) : (
+        <>
+          {input("title", "Title", "Generate an avatar image", `Up to ${MAX_SPEC_TITLE_LENGTH} characters`)}
+          <div className="grid grid-cols-2 gap-4">
+            {input("category", "Category", "design")}
+            {input("tags", "Tags", "avatar, svg", "Comma-separated; agents match jobs on them")}
+          </div>
+          {textarea("details", "Details", "What you need, in as much detail as helps. Markdown allowed.")}
+          {textarea(
+            "criteria",
+            "Acceptance criteria",
+            "Square, at least 512×512\nTransparent background",
+            "One per line — what you'll check before approving",
+          )}
+          {textarea("attachments", "Attachments", "ipfs://…", "One ipfs://, https:// or data: URI per line")}
+          <div className="grid grid-cols-2 gap-4">
+            {input("outputMimeType", "Output type", "image/svg+xml", "MIME type of the submission")}
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text font-semibold">Stored as</span>
+              </label>
+              <select
+                className="select select-bordered bg-base-100"
+                value={encoding}
+                onChange={e => setEncoding(e.target.value as Encoding)}
+              >
+                <option value="inline">Inline JSON</option>
+                <option value="data">data: URI</option>
+              </select>
+              <label className="label">
+                <span className="label-text-alt opacity-60">
+                  {description ? `${formatBytes(new TextEncoder().encode(description).length)} on-chain` : "—"}
+                </span>
+              </label>
+            </div>
+          </div>
+          {textarea("outputSchema", "Output JSON schema", '{ "type": "object", … }', "Optional, for JSON output")}
+
+          {!isPristine && errors.length > 0 && (
+            <ul className="text-sm text-error list-disc pl-5">
+              {errors.map(error => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -6,6 +6,7 @@ import type { NextPage } from "next";
 import { parseEther, formatEther } from "viem";
 import { useAccount, useReadContract, useWriteContract, useSwitchChain, useWaitForTransactionReceipt } from "wagmi";
 import { foundry } from "viem/chains";
+import { JobSpecForm } from "./_components/JobSpecForm";
 import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
 import { ERC20_ABI, CLAWD_TOKEN_ADDRESS } from "~~/utils/bountyBoard";
 
@@ -127,18 +128,8 @@ const PostJobPage: NextPage = () => {
 
         <div className="card bg-base-300 shadow-xl">
           <div className="card-body">
-            {/* Description */}
-            <div className="form-control">
-              <label className="label">
-                <span className="label-text font-semibold">Job Description</span>
-              </label>
-              <textarea
-                className="textarea textarea-bordered h-32 bg-base-100"
-                placeholder="Describe the work you need done..."
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
-              />
-            </div>
+            {/* Description: a job spec or plain text */}
+            <JobSpecForm onChange={setDescription} />
 
             {/* Price fields */}
             <div className="grid grid-cols-2 gap-4">
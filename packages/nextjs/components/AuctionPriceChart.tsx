@@ -0,0 +1,215 @@
+"use client";
+
+import { type MouseEvent, useRef, useState } from "react";
+import { type AuctionParams, getAuctionPrice, getAuctionTimeAtPrice } from "@se-2/sdk";
+import { formatEther, parseEther } from "viem";
+import { formatTimeRemaining } from "~~/utils/bountyBoard";
+
+// SVG user units; the chart scales to its container's width
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD = { top: 16, right: 16, bottom: 28, left: 56 };
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right;
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom;
+/** Points sampled along the curve, each priced by the contract's integer math */
+const SAMPLES = 120;
+
+const formatClawd = (amount: bigint, decimals = 2) => parseFloat(formatEther(amount)).toFixed(decimals);
+
+/** "in 2h 5m 3s", "4m 10s ago" or "now" */
+const formatRelative = (seconds: number) =>
+  seconds === 0 ? "now" : seconds > 0 ? `in ${formatTimeRemaining(seconds)}` : `${formatTimeRemaining(-seconds)} ago`;
+
+type Props = {
+  auction: AuctionParams;
+  /** Unix seconds, ticking */
+  now: number;
+  /** Where the job was claimed, once it has been */
+  claim?: { timestamp: bigint; price: bigint };
+};
+
+/**
+ * The job's Dutch auction as a price-over-time curve from `auctionStart` to the end of the ramp, with a "now" marker,
+ * the claim point, a hover tooltip pricing any moment, and a target price to see when the auction reaches it.
+ */
+export const AuctionPriceChart = ({ auction, now, claim }: Props) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hoverTime, setHoverTime] = useState<bigint>();
+  const [target, setTarget] = useState("");
+
+  const { minPrice, maxPrice, auctionStart, auctionDuration } = auction;
+  const auctionEnd = auctionStart + auctionDuration;
+  const range = maxPrice - minPrice;
+
+  const x = (timestamp: bigint) => {
+    const clamped = timestamp < auctionStart ? auctionStart : timestamp > auctionEnd ? auctionEnd : timestamp;
+    const fraction = auctionDuration > 0n ? Number(((clamped - auctionStart) * 10_000n) / auctionDuration) / 10_000 : 1;
+    return PAD.left + fraction * PLOT_WIDTH;
+  };
+  const y = (price: bigint) => {
+    const fraction = range > 0n ? Number(((price - minPrice) * 10_000n) / range) / 10_000 : 0.5;
+    return PAD.top + (1 - fraction) * PLOT_HEIGHT;
+  };
+
+  const curve = Array.from({ length: SAMPLES + 1 }, (_, i) => {
+    const timestamp = auctionStart + (auctionDuration * BigInt(i)) / BigInt(SAMPLES);
+    return `${x(timestamp).toFixed(1)},${y(getAuctionPrice(auction, timestamp)).toFixed(1)}`;
+  }).join(" ");
+
+  const nowTime = BigInt(now);
+  const nowVisible = nowTime >= auctionStart && nowTime <= auctionEnd && !claim;
+
+  let targetPrice: bigint | undefined;
+  try {
+    targetPrice = target.trim() ? parseEther(target.trim()) : undefined;
+  } catch {
+    targetPrice = undefined;
+  }
+  const targetTime = targetPrice === undefined ? undefined : getAuctionTimeAtPrice(auction, targetPrice);
+
+  const onMouseMove = (event: MouseEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    const plotX = ((event.clientX - rect.left) / rect.width) * WIDTH - PAD.left;
+    const fraction = Math.min(Math.max(plotX / PLOT_WIDTH, 0), 1);
+    setHoverTime(auctionStart + BigInt(Math.round(fraction * Number(auctionDuration))));
+  };
+
+  const hoverPrice = hoverTime === undefined ? undefined : getAuctionPrice(auction, hoverTime);
+
+  return (
+    <div>
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto select-none"
+          onMouseMove={onMouseMove}
+          onMouseLeave={() => setHoverTime(undefined)}
+          role="img"
+          aria-label={`Price rises from ${formatClawd(minPrice)} to ${formatClawd(maxPrice)} CLAWD`}
+        >
+          {/* Axes and price gridlines */}
+          {[maxPrice, minPrice + range / 2n, minPrice].map((price, i) => (
+            <g key={i}>
+              <line
+                x1={PAD.left}
+                x2={WIDTH - PAD.right}
+                y1={y(price)}
+                y2={y(price)}
+                className="stroke-base-content/10"
+                strokeDasharray={i === 2 ? undefined : "4 4"}
+              />
+              <text
+                x={PAD.left - 6}
+                y={y(price)}
+                textAnchor="end"
+                dominantBaseline="middle"
+                className="fill-base-content/60 text-[11px]"
+              >
+                {formatClawd(price, 0)}
+              </text>
+            </g>
+          ))}
+          <text x={PAD.left} y={HEIGHT - 8} className="fill-base-content/60 text-[11px]">
+            Start
+          </text>
+          <text x={WIDTH - PAD.right} y={HEIGHT - 8} textAnchor="end" className="fill-base-content/60 text-[11px]">
+            End ({formatTimeRemaining(Number(auctionDuration))})
+          </text>
+
+          {/* Price curve */}
+          <polyline points={curve} fill="none" className="stroke-primary" strokeWidth={2.5} strokeLinejoin="round" />
+
+          {targetPrice !== undefined && targetPrice >= minPrice && targetPrice <= maxPrice && (
+            <line
+              x1={PAD.left}
+              x2={WIDTH - PAD.right}
+              y1={y(targetPrice)}
+              y2={y(targetPrice)}
+              className="stroke-accent"
+              strokeDasharray="6 3"
+            />
+          )}
+          {targetTime !== undefined && targetPrice !== undefined && targetPrice >= minPrice && (
+            <circle cx={x(targetTime)} cy={y(getAuctionPrice(auction, targetTime))} r={4} className="fill-accent" />
+          )}
+
+          {nowVisible && (
+            <g>
+              <line
+                x1={x(nowTime)}
+                x2={x(nowTime)}
+                y1={PAD.top}
+                y2={PAD.top + PLOT_HEIGHT}
+                className="stroke-warning"
+                strokeDasharray="3 3"
+              />
+              <circle cx={x(nowTime)} cy={y(getAuctionPrice(auction, nowTime))} r={5} className="fill-warning" />
+              <text x={x(nowTime) + 6} y={PAD.top + 10} className="fill-warning text-[11px]">
+                now
+              </text>
+            </g>
+          )}
+
+          {claim && (
+            <g>
+              <circle cx={x(claim.timestamp)} cy={y(claim.price)} r={6} className="fill-success stroke-base-100" />
+              <text x={x(claim.timestamp) + 8} y={y(claim.price) - 8} className="fill-success text-[11px]">
+                claimed
+              </text>
+            </g>
+          )}
+
+          {hoverTime !== undefined && hoverPrice !== undefined && (
+            <g pointerEvents="none">
+              <line
+                x1={x(hoverTime)}
+                x2={x(hoverTime)}
+                y1={PAD.top}
+                y2={PAD.top + PLOT_HEIGHT}
+                className="stroke-base-content/40"
+              />
+              <circle cx={x(hoverTime)} cy={y(hoverPrice)} r={4} className="fill-base-content" />
+            </g>
+          )}
+        </svg>
+
+        {hoverTime !== undefined && hoverPrice !== undefined && (
+          <div
+            className="absolute top-0 pointer-events-none bg-base-100 shadow rounded-lg px-2 py-1 text-xs whitespace-nowrap -translate-x-1/2"
+            style={{ left: `${(x(hoverTime) / WIDTH) * 100}%` }}
+          >
+            <div className="font-mono font-semibold">{formatClawd(hoverPrice, 4)} CLAWD</div>
+            <div className="opacity-60">
+              {new Date(Number(hoverTime) * 1000).toLocaleString()} · {formatRelative(Number(hoverTime) - now)}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {!claim && (
+        <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+          <span className="opacity-60">Reaches</span>
+          <input
+            className={`input input-bordered input-xs w-28 bg-base-100 ${target && targetPrice === undefined ? "input-error" : ""}`}
+            inputMode="decimal"
+            placeholder="price"
+            value={target}
+            onChange={e => setTarget(e.target.value)}
+          />
+          <span className="opacity-60">CLAWD</span>
+          {targetPrice !== undefined && (
+            <span className="font-semibold">
+              {targetTime === undefined
+                ? `never — the price tops out at ${formatClawd(maxPrice)}`
+                : targetTime <= nowTime
+                  ? "already reached"
+                  : `${formatRelative(Number(targetTime) - now)} (${new Date(Number(targetTime) * 1000).toLocaleString()})`}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+"use client";
+
+import { useJobSpec } from "~~/hooks/useJobSpec";
+
+/**
+ * A job's title, category and tags from its spec. Legacy plain-text descriptions are shown as they are, clamped to
+ * two lines; `compact` keeps to one line with no tags, for table cells.
+ */
+export const JobTitle = ({
+  description,
+  compact = false,
+  className = "",
+}: {
+  description: string;
+  compact?: boolean;
+  className?: string;
+}) => {
+  const { description: parsed, summary, isLoading } = useJobSpec(description);
+  if (isLoading) return <span className="loading loading-dots loading-xs"></span>;
+  const text = parsed?.kind === "text" && !compact ? parsed.text : summary.title;
+  return (
+    <div className={`flex flex-col gap-1 min-w-0 ${className}`}>
+      <span className={compact ? "truncate" : "line-clamp-2"} title={summary.title}>
+        {text}
+      </span>
+      {!compact && (summary.category || summary.tags.length > 0) && (
+        <div className="flex flex-wrap gap-1">
+          {summary.category && <span className="badge badge-primary badge-outline badge-xs">{summary.category}</span>}
+          {summary.tags.map(tag => (
+            <span key={tag} className="badge badge-ghost badge-xs">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
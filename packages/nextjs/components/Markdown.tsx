@@ -0,0 +1,147 @@
+import { type ReactNode } from "react";
+import { resolveArtifactUri } from "@se-2/sdk";
+import scaffoldConfig from "~~/scaffold.config";
+
+type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "code"; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "quote"; text: string }
+  | { type: "rule" }
+  | { type: "paragraph"; text: string };
+
+const HEADING_SIZES = ["text-2xl", "text-xl", "text-lg", "text-base", "text-sm", "text-sm"];
+
+/** Splits markdown into the blocks this renderer knows; anything else is a paragraph */
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === "") {
+      i++;
+    } else if (line.startsWith("```")) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].startsWith("```"); i++) code.push(lines[i]);
+      i++;
+      blocks.push({ type: "code", text: code.join("\n") });
+    } else if (/^#{1,6} /.test(line)) {
+      const [hashes, ...rest] = line.split(" ");
+      blocks.push({ type: "heading", level: hashes.length, text: rest.join(" ") });
+      i++;
+    } else if (/^(\*{3,}|-{3,}|_{3,})\s*$/.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+    } else if (/^\s*([-*+]|\d+\.) /.test(line)) {
+      const ordered = /^\s*\d+\. /.test(line);
+      const items: string[] = [];
+      for (; i < lines.length && /^\s*([-*+]|\d+\.) /.test(lines[i]); i++) {
+        items.push(lines[i].replace(/^\s*([-*+]|\d+\.) /, ""));
+      }
+      blocks.push({ type: "list", ordered, items });
+    } else if (line.startsWith(">")) {
+      const quote: string[] = [];
+      for (; i < lines.length && lines[i].startsWith(">"); i++) quote.push(lines[i].replace(/^> ?/, ""));
+      blocks.push({ type: "quote", text: quote.join(" ") });
+    } else {
+      const paragraph: string[] = [];
+      for (; i < lines.length && lines[i].trim() !== "" && !/^(```|#{1,6} |>|\s*([-*+]|\d+\.) )/.test(lines[i]); i++) {
+        paragraph.push(lines[i]);
+      }
+      blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+    }
+  }
+  return blocks;
+}
+
+/** Inline code, links, bold and italics. Links only to http(s) and ipfs; anything else stays text */
+function renderInline(text: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  const pattern = /`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*\*([^*]+)\*\*|\*([^*]+)\*|_([^_]+)_/g;
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index > last) nodes.push(text.slice(last, match.index));
+    const key = match.index;
+    const [, code, label, href, bold, italic, underscored] = match;
+    if (code !== undefined) {
+      nodes.push(
+        <code key={key} className="bg-base-300 px-1 rounded text-sm">
+          {code}
+        </code>,
+      );
+    } else if (label !== undefined) {
+      nodes.push(
+        /^(https?|ipfs):\/\//i.test(href) ? (
+          <a
+            key={key}
+            href={resolveArtifactUri(href, scaffoldConfig.ipfsGateway)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="link link-primary"
+          >
+            {label}
+          </a>
+        ) : (
+          label
+        ),
+      );
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={key}>{bold}</strong>);
+    } else {
+      nodes.push(<em key={key}>{italic ?? underscored}</em>);
+    }
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+/**
+ * Renders common markdown (headings, lists, quotes, code, links, emphasis) as React elements. Raw HTML in the source
+ * is shown as text, never parsed, so untrusted markdown can't inject markup.
+ */
+export const Markdown = ({ source }: { source: string }) => (
+  <div className="flex flex-col gap-3 break-words">
+    {parseBlocks(source).map((block, i) => {
+      switch (block.type) {
+        case "heading": {
+          const Heading = `h${block.level}` as "h1";
+          return (
+            <Heading key={i} className={`font-bold ${HEADING_SIZES[block.level - 1]}`}>
+              {renderInline(block.text)}
+            </Heading>
+          );
+        }
+        case "code":
+          return (
+            <pre key={i} className="bg-base-300 rounded-lg p-3 text-sm overflow-x-auto">
+              <code>{block.text}</code>
+            </pre>
+          );
+        case "list": {
+          const items = block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>);
+          return block.ordered ? (
+            <ol key={i} className="list-decimal pl-6">
+              {items}
+            </ol>
+          ) : (
+            <ul key={i} className="list-disc pl-6">
+              {items}
+            </ul>
+          );
+        }
+        case "quote":
+          return (
+            <blockquote key={i} className="border-l-4 border-base-300 pl-3 opacity-80">
+              {renderInline(block.text)}
+            </blockquote>
+          );
+        case "rule":
+          return <hr key={i} className="border-base-300" />;
+        default:
+          return <p key={i}>{renderInline(block.text)}</p>;
+      }
+    })}
+  </div>
+);
@@ -0,0 +1,61 @@
+"use client";
+
+import { MAX_RATING } from "@se-2/sdk";
+import { POINTS_PER_STAR, formatRating, ratingLabel, starsToRating } from "~~/utils/bountyBoard";
+
+const STARS = [1, 2, 3, 4, 5];
+
+/**
+ * A 0–100 rating as five stars filled to exactly `rating` percent, optionally followed by the number.
+ */
+export const RatingStars = ({ rating, showValue = true }: { rating: number; showValue?: boolean }) => {
+  const percent = (Math.min(Math.max(rating, 0), MAX_RATING) / MAX_RATING) * 100;
+  return (
+    <span className="inline-flex items-center gap-2" title={formatRating(rating)}>
+      <span className="relative inline-block leading-none whitespace-nowrap" aria-hidden>
+        <span className="opacity-20">★★★★★</span>
+        <span className="absolute inset-0 overflow-hidden text-warning" style={{ width: `${percent}%` }}>
+          ★★★★★
+        </span>
+      </span>
+      {showValue && <span className="font-mono text-sm">{formatRating(rating)}</span>}
+    </span>
+  );
+};
+
+/**
+ * Picks a 0–100 rating: the stars set it in steps of 20, the slider to the exact point.
+ */
+export const RatingInput = ({ value, onChange }: { value: number; onChange: (rating: number) => void }) => {
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-3">
+        <div className="flex text-3xl leading-none">
+          {STARS.map(star => (
+            <button
+              key={star}
+              type="button"
+              aria-label={`${star} star${star === 1 ? "" : "s"} (${starsToRating(star)})`}
+              className={value >= starsToRating(star) - POINTS_PER_STAR / 2 ? "text-warning" : "opacity-20"}
+              onClick={() => onChange(starsToRating(star))}
+            >
+              ★
+            </button>
+          ))}
+        </div>
+        <span className="font-mono font-semibold">{formatRating(value)}</span>
+        <span className="badge badge-ghost badge-sm">{ratingLabel(value)}</span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={MAX_RATING}
+        step={1}
+        value={value}
+        className="range range-warning range-sm"
+        aria-label="Rating"
+        onChange={e => onChange(Number(e.target.value))}
+      />
+    </div>
+  );
+};
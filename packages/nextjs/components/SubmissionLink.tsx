@@ -0,0 +1,24 @@
+import { parseDataUri, parseIpfsUri, resolveArtifactUri } from "@se-2/sdk";
+import scaffoldConfig from "~~/scaffold.config";
+import { describeSubmissionUri, extensionFor } from "~~/utils/submission";
+
+/**
+ * A job's submission URI, linked through the configured IPFS gateway when it is an `ipfs://` URI. Browsers block
+ * navigating to data: URIs, so those are summarised and downloaded instead. Other schemes (`javascript:` and the
+ * like) are shown as text, never linked.
+ */
+export const SubmissionLink = ({ uri }: { uri: string }) => {
+  const data = uri.startsWith("data:") ? parseDataUri(uri) : undefined;
+  if (!data && !parseIpfsUri(uri) && !/^https?:\/\//i.test(uri)) return <span className="break-all">{uri}</span>;
+  return (
+    <a
+      href={resolveArtifactUri(uri, scaffoldConfig.ipfsGateway)}
+      target={data ? undefined : "_blank"}
+      rel="noopener noreferrer"
+      download={data ? `submission.${extensionFor(data.mimeType)}` : undefined}
+      className="link link-primary break-all"
+    >
+      {describeSubmissionUri(uri)}
+    </a>
+  );
+};
@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Markdown } from "~~/components/Markdown";
+import { SubmissionLink } from "~~/components/SubmissionLink";
+import scaffoldConfig from "~~/scaffold.config";
+import { type SubmissionContent, extensionFor, formatBytes, loadSubmission, sanitizeSvg } from "~~/utils/submission";
+
+/** A blob URL for `bytes`, revoked when they change or the component unmounts */
+const useObjectUrl = (bytes: Uint8Array | undefined, mimeType: string) => {
+  const [url, setUrl] = useState<string>();
+  useEffect(() => {
+    if (!bytes) return setUrl(undefined);
+    const objectUrl = URL.createObjectURL(new Blob([bytes as BlobPart], { type: mimeType }));
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [bytes, mimeType]);
+  return url;
+};
+
+const Preview = ({ content }: { content: SubmissionContent }) => {
+  // SVG is sanitized before it is shown, and shown as an image, where browsers don't run its scripts either
+  const svg = useMemo(
+    () => (content.kind === "svg" && content.text !== undefined ? sanitizeSvg(content.text) : undefined),
+    [content],
+  );
+  const imageBytes = useMemo(
+    () => (content.kind === "image" ? content.bytes : svg !== undefined ? new TextEncoder().encode(svg) : undefined),
+    [content, svg],
+  );
+  const imageUrl = useObjectUrl(imageBytes, content.mimeType);
+
+  switch (content.kind) {
+    case "image":
+    case "svg":
+      if (content.kind === "svg" && svg === undefined) {
+        return <div className="text-sm text-warning">Not a well-formed SVG; download it to inspect.</div>;
+      }
+      return imageUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={imageUrl} alt="Submitted image" className="max-h-[32rem] max-w-full mx-auto bg-white rounded" />
+      ) : null;
+    case "json": {
+      let pretty = content.text!;
+      try {
+        pretty = JSON.stringify(JSON.parse(pretty), null, 2);
+      } catch {
+        // Shown as it came if it doesn't parse
+      }
+      return <pre className="text-xs overflow-auto max-h-[32rem] whitespace-pre-wrap break-all">{pretty}</pre>;
+    }
+    case "markdown":
+      return (
+        <div className="max-h-[32rem] overflow-auto">
+          <Markdown source={content.text!} />
+        </div>
+      );
+    case "html":
+      // No sandbox permissions at all: no scripts, forms, popups or same-origin access
+      return (
+        <iframe sandbox="" srcDoc={content.text} title="Submitted page" className="w-full h-[32rem] bg-white rounded" />
+      );
+    case "text":
+      return <pre className="text-sm overflow-auto max-h-[32rem] whitespace-pre-wrap break-words">{content.text}</pre>;
+    default:
+      return <div className="text-sm opacity-60">No preview for {content.mimeType}; download it to open.</div>;
+  }
+};
+
+/**
+ * A job's submission shown inline so a poster can review it before approving: images and sanitized SVG as images,
+ * JSON pretty-printed, markdown rendered, HTML in a sandboxed frame, other text as is. `ipfs://` URIs load through
+ * the configured gateway. Falls back to a link when the content can't be loaded.
+ */
+export const SubmissionViewer = ({ uri, jobId }: { uri: string; jobId: bigint | string }) => {
+  const {
+    data: content,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["submission", uri, scaffoldConfig.ipfsGateway],
+    queryFn: () => loadSubmission(uri, scaffoldConfig.ipfsGateway),
+    staleTime: Infinity,
+    retry: 1,
+  });
+  const downloadUrl = useObjectUrl(content?.bytes, content?.mimeType ?? "application/octet-stream");
+
+  if (isLoading) return <span className="loading loading-dots loading-sm"></span>;
+  if (!content) {
+    return (
+      <div className="flex flex-col gap-1">
+        <SubmissionLink uri={uri} />
+        <span className="text-xs opacity-60">Couldn&apos;t load a preview: {error?.message ?? "unknown error"}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="badge badge-outline badge-sm font-mono">{content.mimeType}</span>
+        <span className="opacity-60">{formatBytes(content.bytes.length)}</span>
+        <div className="grow" />
+        {content.url && (
+          <a href={content.url} target="_blank" rel="noopener noreferrer" className="link link-primary">
+            Open ↗
+          </a>
+        )}
+        {downloadUrl && (
+          <a
+            href={downloadUrl}
+            download={`submission-${jobId}.${extensionFor(content.mimeType)}`}
+            className="btn btn-xs btn-outline"
+          >
+            ⬇ Download
+          </a>
+        )}
+      </div>
+      <div className="bg-base-200 rounded-lg p-3">
+        <Preview content={content} />
+      </div>
+      {!uri.startsWith("data:") && <div className="text-xs opacity-60 break-all">{uri}</div>}
+    </div>
+  );
+};
@@ -17,9 +17,53 @@ const deployedContracts = {
               type: "address",
               internalType: "address",
             },
+            {
+              name: "_agentRegistry",
+              type: "address",
+              internalType: "address",
+            },
           ],
           stateMutability: "nonpayable",
         },
+        {
+          type: "function",
+          name: "BPS",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "MAX_FEE_BPS",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "agentRegistry",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "agentStats",
@@ -51,6 +95,11 @@ const deployedContracts = {
               type: "uint256",
               internalType: "uint256",
             },
+            {
+              name: "firstJobTimestamp",
+              type: "uint256",
+              internalType: "uint256",
+            },
           ],
           stateMutability: "view",
         },
@@ -142,6 +191,19 @@ const deployedContracts = {
           outputs: [],
           stateMutability: "nonpayable",
         },
+        {
+          type: "function",
+          name: "feeRecipient",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "getAgentStats",
@@ -173,6 +235,11 @@ const deployedContracts = {
               type: "uint256",
               internalType: "uint256",
             },
+            {
+              name: "seniorityDays",
+              type: "uint256",
+              internalType: "uint256",
+            },
           ],
           stateMutability: "view",
         },
@@ -306,6 +373,39 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "getPlatformStats",
+          inputs: [],
+          outputs: [
+            {
+              name: "jobsPosted",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "jobsCompleted",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "totalPaid",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "disputes",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "feeBalance",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "jobs",
@@ -390,6 +490,39 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "owner",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "pause",
+          inputs: [],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "paused",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "postJob",
@@ -431,143 +564,504 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "reclaimWork",
-          inputs: [
+          name: "protocolFeeBps",
+          inputs: [],
+          outputs: [
             {
-              name: "jobId",
+              name: "",
               type: "uint256",
               internalType: "uint256",
             },
           ],
-          outputs: [],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
         },
         {
           type: "function",
-          name: "submitWork",
+          name: "reclaimWork",
           inputs: [
             {
               name: "jobId",
               type: "uint256",
               internalType: "uint256",
             },
-            {
-              name: "submissionURI",
-              type: "string",
-              internalType: "string",
-            },
           ],
           outputs: [],
           stateMutability: "nonpayable",
         },
         {
-          type: "event",
-          name: "JobCancelled",
+          type: "function",
+          name: "recoverStuckTokens",
           inputs: [
             {
-              name: "jobId",
-              type: "uint256",
-              indexed: true,
-              internalType: "uint256",
+              name: "token",
+              type: "address",
+              internalType: "address",
             },
           ],
-          anonymous: false,
+          outputs: [],
+          stateMutability: "nonpayable",
         },
         {
-          type: "event",
-          name: "JobClaimed",
+          type: "function",
+          name: "renounceOwnership",
+          inputs: [],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "revokeAgentOwner",
           inputs: [
             {
-              name: "jobId",
-              type: "uint256",
-              indexed: true,
-              internalType: "uint256",
-            },
-            {
-              name: "agent",
+              name: "_agentOwner",
               type: "address",
-              indexed: true,
               internalType: "address",
             },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "setAgentRegistry",
+          inputs: [
             {
-              name: "agentId",
-              type: "uint256",
-              indexed: false,
-              internalType: "uint256",
+              name: "_agentRegistry",
+              type: "address",
+              internalType: "address",
             },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "setFeeRecipient",
+          inputs: [
             {
-              name: "paidAmount",
-              type: "uint256",
-              indexed: false,
-              internalType: "uint256",
+              name: "_recipient",
+              type: "address",
+              internalType: "address",
             },
           ],
-          anonymous: false,
+          outputs: [],
+          stateMutability: "nonpayable",
         },
         {
-          type: "event",
-          name: "JobExpired",
+          type: "function",
+          name: "setProtocolFee",
           inputs: [
             {
-              name: "jobId",
+              name: "_feeBps",
               type: "uint256",
-              indexed: true,
               internalType: "uint256",
             },
           ],
-          anonymous: false,
+          outputs: [],
+          stateMutability: "nonpayable",
         },
         {
-          type: "event",
-          name: "JobPosted",
+          type: "function",
+          name: "submitWork",
           inputs: [
             {
               name: "jobId",
               type: "uint256",
-              indexed: true,
               internalType: "uint256",
             },
             {
-              name: "poster",
-              type: "address",
-              indexed: true,
-              internalType: "address",
-            },
-            {
-              name: "description",
+              name: "submissionURI",
               type: "string",
-              indexed: false,
               internalType: "string",
             },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "totalCLAWDPaid",
+          inputs: [],
+          outputs: [
             {
-              name: "minPrice",
+              name: "",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "totalDisputes",
+          inputs: [],
+          outputs: [
             {
-              name: "maxPrice",
+              name: "",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "totalFeesCollected",
+          inputs: [],
+          outputs: [
             {
-              name: "auctionDuration",
+              name: "",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "totalJobsCompleted",
+          inputs: [],
+          outputs: [
             {
-              name: "workDeadline",
+              name: "",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
           ],
-          anonymous: false,
+          stateMutability: "view",
         },
         {
-          type: "event",
+          type: "function",
+          name: "totalJobsPosted",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "transferOwnership",
+          inputs: [
+            {
+              name: "newOwner",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "unpause",
+          inputs: [],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "verifiedAgentOwners",
+          inputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "verifyAgentOwner",
+          inputs: [
+            {
+              name: "_agentOwner",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "withdrawFees",
+          inputs: [],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "event",
+          name: "AgentRegistered",
+          inputs: [
+            {
+              name: "agentAddress",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "agentId",
+              type: "uint256",
+              indexed: true,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "FeeRecipientUpdated",
+          inputs: [
+            {
+              name: "oldRecipient",
+              type: "address",
+              indexed: false,
+              internalType: "address",
+            },
+            {
+              name: "newRecipient",
+              type: "address",
+              indexed: false,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "FeesWithdrawn",
+          inputs: [
+            {
+              name: "recipient",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "amount",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "JobCancelled",
+          inputs: [
+            {
+              name: "jobId",
+              type: "uint256",
+              indexed: true,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "JobClaimed",
+          inputs: [
+            {
+              name: "jobId",
+              type: "uint256",
+              indexed: true,
+              internalType: "uint256",
+            },
+            {
+              name: "agent",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "agentId",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "paidAmount",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "currentPrice",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "JobExpired",
+          inputs: [
+            {
+              name: "jobId",
+              type: "uint256",
+              indexed: true,
+              internalType: "uint256",
+            },
+            {
+              name: "agent",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "JobPosted",
+          inputs: [
+            {
+              name: "jobId",
+              type: "uint256",
+              indexed: true,
+              internalType: "uint256",
+            },
+            {
+              name: "poster",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "description",
+              type: "string",
+              indexed: false,
+              internalType: "string",
+            },
+            {
+              name: "minPrice",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "maxPrice",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "auctionDuration",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "workDeadline",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "OwnershipTransferred",
+          inputs: [
+            {
+              name: "previousOwner",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "newOwner",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "Paused",
+          inputs: [
+            {
+              name: "account",
+              type: "address",
+              indexed: false,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "ProtocolFeeUpdated",
+          inputs: [
+            {
+              name: "oldFee",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "newFee",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "RegistryUpdated",
+          inputs: [
+            {
+              name: "oldRegistry",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "newRegistry",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "Unpaused",
+          inputs: [
+            {
+              name: "account",
+              type: "address",
+              indexed: false,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
           name: "WorkApproved",
           inputs: [
             {
@@ -588,6 +1082,12 @@ const deployedContracts = {
               indexed: false,
               internalType: "uint256",
             },
+            {
+              name: "fee",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
           ],
           anonymous: false,
         },
@@ -601,6 +1101,12 @@ const deployedContracts = {
               indexed: true,
               internalType: "uint256",
             },
+            {
+              name: "agent",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
           ],
           anonymous: false,
         },
@@ -623,11 +1129,123 @@ const deployedContracts = {
           ],
           anonymous: false,
         },
+        {
+          type: "error",
+          name: "AgentNotRegistered",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "DeadlineNotPassed",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "EmptyDescription",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "EnforcedPause",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "ExpectedPause",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "FeeTooHigh",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InvalidAddress",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InvalidDuration",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InvalidPrice",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InvalidRating",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "JobNotClaimed",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "JobNotOpen",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "JobNotSubmitted",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "OnlyAssignedAgent",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "OnlyPoster",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "OwnableInvalidOwner",
+          inputs: [
+            {
+              name: "owner",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "OwnableUnauthorizedAccount",
+          inputs: [
+            {
+              name: "account",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "PosterCannotClaimOwnJob",
+          inputs: [],
+        },
         {
           type: "error",
           name: "ReentrancyGuardReentrantCall",
           inputs: [],
         },
+        {
+          type: "error",
+          name: "RegistryNotSet",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "ReviewPeriodNotOver",
+          inputs: [],
+        },
         {
           type: "error",
           name: "SafeERC20FailedOperation",
@@ -639,8 +1257,25 @@ const deployedContracts = {
             },
           ],
         },
+        {
+          type: "error",
+          name: "TransferFailed",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "WorkDeadlinePassed",
+          inputs: [],
+        },
       ],
-      inheritedFunctions: {},
+      inheritedFunctions: {
+        owner: "lib/openzeppelin-contracts/contracts/access/Ownable.sol",
+        renounceOwnership:
+          "lib/openzeppelin-contracts/contracts/access/Ownable.sol",
+        transferOwnership:
+          "lib/openzeppelin-contracts/contracts/access/Ownable.sol",
+        paused: "lib/openzeppelin-contracts/contracts/utils/Pausable.sol",
+      },
       deployedOnBlock: 41523476,
     },
   },
@@ -656,9 +1291,53 @@ const deployedContracts = {
               type: "address",
               internalType: "address",
             },
+            {
+              name: "_agentRegistry",
+              type: "address",
+              internalType: "address",
+            },
           ],
           stateMutability: "nonpayable",
         },
+        {
+          type: "function",
+          name: "BPS",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "MAX_FEE_BPS",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "agentRegistry",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "agentStats",
@@ -690,6 +1369,11 @@ const deployedContracts = {
               type: "uint256",
               internalType: "uint256",
             },
+            {
+              name: "firstJobTimestamp",
+              type: "uint256",
+              internalType: "uint256",
+            },
           ],
           stateMutability: "view",
         },
@@ -781,6 +1465,19 @@ const deployedContracts = {
           outputs: [],
           stateMutability: "nonpayable",
         },
+        {
+          type: "function",
+          name: "feeRecipient",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "getAgentStats",
@@ -812,6 +1509,11 @@ const deployedContracts = {
               type: "uint256",
               internalType: "uint256",
             },
+            {
+              name: "seniorityDays",
+              type: "uint256",
+              internalType: "uint256",
+            },
           ],
           stateMutability: "view",
         },
@@ -945,6 +1647,39 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "getPlatformStats",
+          inputs: [],
+          outputs: [
+            {
+              name: "jobsPosted",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "jobsCompleted",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "totalPaid",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "disputes",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "feeBalance",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "jobs",
@@ -1029,6 +1764,39 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "owner",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "pause",
+          inputs: [],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "paused",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "postJob",
@@ -1061,21 +1829,241 @@ const deployedContracts = {
           ],
           outputs: [
             {
-              name: "jobId",
-              type: "uint256",
-              internalType: "uint256",
+              name: "jobId",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "protocolFeeBps",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "reclaimWork",
+          inputs: [
+            {
+              name: "jobId",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "recoverStuckTokens",
+          inputs: [
+            {
+              name: "token",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "renounceOwnership",
+          inputs: [],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "revokeAgentOwner",
+          inputs: [
+            {
+              name: "_agentOwner",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "setAgentRegistry",
+          inputs: [
+            {
+              name: "_agentRegistry",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "setFeeRecipient",
+          inputs: [
+            {
+              name: "_recipient",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "setProtocolFee",
+          inputs: [
+            {
+              name: "_feeBps",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "submitWork",
+          inputs: [
+            {
+              name: "jobId",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "submissionURI",
+              type: "string",
+              internalType: "string",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "totalCLAWDPaid",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "totalDisputes",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "totalFeesCollected",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "totalJobsCompleted",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "totalJobsPosted",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "transferOwnership",
+          inputs: [
+            {
+              name: "newOwner",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "unpause",
+          inputs: [],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "verifiedAgentOwners",
+          inputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "bool",
+              internalType: "bool",
             },
           ],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
         },
         {
           type: "function",
-          name: "reclaimWork",
+          name: "verifyAgentOwner",
           inputs: [
             {
-              name: "jobId",
-              type: "uint256",
-              internalType: "uint256",
+              name: "_agentOwner",
+              type: "address",
+              internalType: "address",
             },
           ],
           outputs: [],
@@ -1083,21 +2071,67 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "submitWork",
+          name: "withdrawFees",
+          inputs: [],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "event",
+          name: "AgentRegistered",
           inputs: [
             {
-              name: "jobId",
+              name: "agentAddress",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "agentId",
               type: "uint256",
+              indexed: true,
               internalType: "uint256",
             },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "FeeRecipientUpdated",
+          inputs: [
+            {
+              name: "oldRecipient",
+              type: "address",
+              indexed: false,
+              internalType: "address",
+            },
             {
-              name: "submissionURI",
-              type: "string",
-              internalType: "string",
+              name: "newRecipient",
+              type: "address",
+              indexed: false,
+              internalType: "address",
             },
           ],
-          outputs: [],
-          stateMutability: "nonpayable",
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "FeesWithdrawn",
+          inputs: [
+            {
+              name: "recipient",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "amount",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
         },
         {
           type: "event",
@@ -1140,6 +2174,12 @@ const deployedContracts = {
               indexed: false,
               internalType: "uint256",
             },
+            {
+              name: "currentPrice",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
           ],
           anonymous: false,
         },
@@ -1153,6 +2193,12 @@ const deployedContracts = {
               indexed: true,
               internalType: "uint256",
             },
+            {
+              name: "agent",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
           ],
           anonymous: false,
         },
@@ -1205,6 +2251,89 @@ const deployedContracts = {
           ],
           anonymous: false,
         },
+        {
+          type: "event",
+          name: "OwnershipTransferred",
+          inputs: [
+            {
+              name: "previousOwner",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "newOwner",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "Paused",
+          inputs: [
+            {
+              name: "account",
+              type: "address",
+              indexed: false,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "ProtocolFeeUpdated",
+          inputs: [
+            {
+              name: "oldFee",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "newFee",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "RegistryUpdated",
+          inputs: [
+            {
+              name: "oldRegistry",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "newRegistry",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "Unpaused",
+          inputs: [
+            {
+              name: "account",
+              type: "address",
+              indexed: false,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
         {
           type: "event",
           name: "WorkApproved",
@@ -1227,6 +2356,12 @@ const deployedContracts = {
               indexed: false,
               internalType: "uint256",
             },
+            {
+              name: "fee",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
           ],
           anonymous: false,
         },
@@ -1240,6 +2375,12 @@ const deployedContracts = {
               indexed: true,
               internalType: "uint256",
             },
+            {
+              name: "agent",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
           ],
           anonymous: false,
         },
@@ -1262,11 +2403,123 @@ const deployedContracts = {
           ],
           anonymous: false,
         },
+        {
+          type: "error",
+          name: "AgentNotRegistered",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "DeadlineNotPassed",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "EmptyDescription",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "EnforcedPause",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "ExpectedPause",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "FeeTooHigh",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InvalidAddress",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InvalidDuration",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InvalidPrice",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InvalidRating",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "JobNotClaimed",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "JobNotOpen",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "JobNotSubmitted",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "OnlyAssignedAgent",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "OnlyPoster",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "OwnableInvalidOwner",
+          inputs: [
+            {
+              name: "owner",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "OwnableUnauthorizedAccount",
+          inputs: [
+            {
+              name: "account",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "PosterCannotClaimOwnJob",
+          inputs: [],
+        },
         {
           type: "error",
           name: "ReentrancyGuardReentrantCall",
           inputs: [],
         },
+        {
+          type: "error",
+          name: "RegistryNotSet",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "ReviewPeriodNotOver",
+          inputs: [],
+        },
         {
           type: "error",
           name: "SafeERC20FailedOperation",
@@ -1278,8 +2531,25 @@ const deployedContracts = {
             },
           ],
         },
+        {
+          type: "error",
+          name: "TransferFailed",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "WorkDeadlinePassed",
+          inputs: [],
+        },
       ],
-      inheritedFunctions: {},
+      inheritedFunctions: {
+        owner: "lib/openzeppelin-contracts/contracts/access/Ownable.sol",
+        renounceOwnership:
+          "lib/openzeppelin-contracts/contracts/access/Ownable.sol",
+        transferOwnership:
+          "lib/openzeppelin-contracts/contracts/access/Ownable.sol",
+        paused: "lib/openzeppelin-contracts/contracts/utils/Pausable.sol",
+      },
       deployedOnBlock: 41523298,
     },
   },
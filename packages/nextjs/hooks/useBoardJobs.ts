@@ -0,0 +1,60 @@
+import { useEffect } from "react";
+import { type Job, JobStatus } from "@se-2/sdk";
+import type { Address } from "viem";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { useContractJobs } from "~~/hooks/useContractJobs";
+import { useIndexedJobs } from "~~/hooks/useIndexedJobs";
+import type { IndexedJob } from "~~/utils/indexer";
+
+/** The indexer's largest page */
+const PAGE_SIZE = 100;
+
+/**
+ * Every job a poster posted and/or an agent claimed, or in one of `statuses`, newest first — for views that need all
+ * of them at once, like dashboards. Pages through the indexer when it answers, otherwise reads every job from the
+ * contract and filters. Fetches nothing until at least one filter is set.
+ */
+export const useBoardJobs = ({
+  poster,
+  agent,
+  statuses,
+}: {
+  poster?: Address;
+  agent?: Address;
+  statuses?: JobStatus[];
+}) => {
+  const enabled = Boolean(poster || agent || statuses?.length);
+  const indexed = useIndexedJobs(
+    { poster, agent, status: statuses?.map(status => JobStatus[status].toLowerCase()), limit: PAGE_SIZE },
+    enabled,
+  );
+  const fromIndexer = indexed.enabled && !indexed.isError;
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = indexed;
+  useEffect(() => {
+    if (fromIndexer && hasNextPage && !isFetchingNextPage) void fetchNextPage();
+  }, [fromIndexer, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const { data: jobCount } = useScaffoldReadContract({
+    contractName: "AgentBountyBoard",
+    functionName: "getJobCount",
+  });
+  const contract = useContractJobs(fromIndexer || !enabled ? 0 : Number(jobCount ?? 0n));
+
+  const matches = (job: Job) =>
+    (!poster || job.poster.toLowerCase() === poster.toLowerCase()) &&
+    (!agent || job.agent.toLowerCase() === agent.toLowerCase()) &&
+    (!statuses?.length || statuses.includes(job.status));
+
+  const jobs: (Job | IndexedJob)[] = fromIndexer
+    ? indexed.jobs
+    : contract.jobs.filter(matches).sort((a, b) => Number(b.id - a.id));
+  const isLoading = fromIndexer ? indexed.isLoading || hasNextPage : jobCount === undefined || contract.isLoading;
+
+  return {
+    jobs,
+    isLoading: enabled && isLoading,
+    fromIndexer,
+    refetch: () => (fromIndexer ? indexed.refetch() : contract.refetch()),
+  };
+};
@@ -0,0 +1,43 @@
+import { type Job, type JobAgentTuple, type JobCoreTuple, bountyBoardAbi, decodeJob } from "@se-2/sdk";
+import { useReadContracts } from "wagmi";
+import { useDeployedContractInfo, useSelectedNetwork } from "~~/hooks/scaffold-eth";
+import scaffoldConfig from "~~/scaffold.config";
+import { AllowedChainIds } from "~~/utils/scaffold-eth";
+
+/**
+ * Every job on the board read straight from the contract, batched into one multicall and refreshed at the app's
+ * polling interval. The fallback for lists when no indexer answers.
+ */
+export const useContractJobs = (jobCount: number) => {
+  const selectedNetwork = useSelectedNetwork();
+  const { data: deployedContract } = useDeployedContractInfo({
+    contractName: "AgentBountyBoard",
+    chainId: selectedNetwork.id as AllowedChainIds,
+  });
+
+  const ids = Array.from({ length: jobCount }, (_, i) => BigInt(i));
+  const result = useReadContracts({
+    contracts: ids.flatMap(id =>
+      (["getJobCore", "getJobAgent"] as const).map(functionName => ({
+        chainId: selectedNetwork.id,
+        address: deployedContract?.address,
+        abi: bountyBoardAbi,
+        functionName,
+        args: [id],
+      })),
+    ),
+    query: {
+      enabled: Boolean(deployedContract) && jobCount > 0,
+      refetchInterval: scaffoldConfig.pollingInterval,
+    },
+  });
+
+  const jobs: Job[] = [];
+  ids.forEach((id, i) => {
+    const core = result.data?.[2 * i]?.result;
+    const agent = result.data?.[2 * i + 1]?.result;
+    if (core && agent) jobs.push(decodeJob(id, core as JobCoreTuple, agent as JobAgentTuple));
+  });
+
+  return { ...result, jobs };
+};
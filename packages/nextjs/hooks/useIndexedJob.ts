@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import scaffoldConfig from "~~/scaffold.config";
+import { fetchJob, isIndexerConfigured } from "~~/utils/indexer";
+
+/**
+ * One job from the indexer API, for what only the indexer knows about it (e.g. the poster's feedback).
+ * Disabled when no indexer is configured.
+ */
+export const useIndexedJob = (jobId: bigint | undefined) => {
+  const enabled = isIndexerConfigured() && jobId !== undefined;
+  const result = useQuery({
+    queryKey: ["indexedJob", scaffoldConfig.indexerUrl, jobId?.toString()],
+    queryFn: () => fetchJob(jobId as bigint),
+    refetchInterval: scaffoldConfig.pollingInterval,
+    retry: 1,
+    enabled,
+  });
+  return { ...result, enabled };
+};
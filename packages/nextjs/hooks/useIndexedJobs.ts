@@ -0,0 +1,29 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import scaffoldConfig from "~~/scaffold.config";
+import { type JobsQuery, fetchJobs, isIndexerConfigured, jobsQueryParams } from "~~/utils/indexer";
+
+/**
+ * Pages of jobs from the indexer API, refreshed at the app's polling interval.
+ * `isError` (or `enabled` being false) means the indexer is unavailable and the caller should read the contract instead.
+ * `active` false holds off fetching, e.g. until the query's address is known.
+ */
+export const useIndexedJobs = (query: JobsQuery, active = true) => {
+  const enabled = isIndexerConfigured();
+  const result = useInfiniteQuery({
+    // Keyed by the query string, since query keys can't hold the bigint price bounds
+    queryKey: ["indexedJobs", scaffoldConfig.indexerUrl, jobsQueryParams(query).toString()],
+    queryFn: ({ pageParam }) => fetchJobs(query, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+    refetchInterval: scaffoldConfig.pollingInterval,
+    retry: 1,
+    enabled: enabled && active,
+  });
+
+  return {
+    ...result,
+    enabled,
+    jobs: result.data?.pages.flatMap(page => page.jobs) ?? [],
+    total: result.data?.pages[0]?.total,
+  };
+};
@@ -0,0 +1,59 @@
+import type { Job } from "@se-2/sdk";
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import type { JobHistory } from "~~/utils/analytics";
+import { fetchBoardLogs } from "~~/utils/boardLogs";
+import type { IndexedJob } from "~~/utils/indexer";
+
+type JobEvents = Pick<JobHistory, "agentPayment" | "fee" | "submittedAt" | "closedAt">;
+
+/**
+ * The given jobs with the submission and closing times, and payouts, that only their events tell. Indexed jobs already
+ * carry them; for jobs read from the contract every board event is fetched with `getLogs` from the deployment block,
+ * in ranges, and fetched again whenever a job's status changes.
+ */
+export const useJobHistories = (jobs: (Job | IndexedJob)[], fromIndexer: boolean) => {
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: board } = useDeployedContractInfo({ contractName: "AgentBountyBoard" });
+
+  const events = useQuery({
+    queryKey: ["jobHistories", board?.address, jobs.map(job => `${job.id}:${job.status}`).join(",")],
+    queryFn: async () => {
+      const byJob = new Map<bigint, JobEvents>();
+      if (!publicClient || !board) return byJob;
+      const logs = await fetchBoardLogs(publicClient, board, range =>
+        publicClient.getContractEvents({ address: board.address, abi: board.abi, ...range }),
+      );
+      for (const log of logs) {
+        if (!("jobId" in log.args) || log.args.jobId === undefined) continue;
+        const job = byJob.get(log.args.jobId) ?? {};
+        switch (log.eventName) {
+          case "WorkSubmitted":
+            job.submittedAt = log.timestamp;
+            break;
+          case "WorkApproved":
+            job.agentPayment = log.args.paidAmount;
+            job.fee = log.args.fee;
+            job.closedAt = log.timestamp;
+            break;
+          case "WorkDisputed":
+          case "JobCancelled":
+          case "JobExpired":
+            job.closedAt = log.timestamp;
+            break;
+        }
+        byJob.set(log.args.jobId, job);
+      }
+      return byJob;
+    },
+    enabled: !fromIndexer && jobs.length > 0 && Boolean(publicClient && board),
+    staleTime: Infinity,
+    retry: 1,
+  });
+
+  if (fromIndexer) return { jobs: jobs as JobHistory[], isLoading: false, isError: false };
+  const histories: JobHistory[] = jobs.map(job => ({ ...job, ...events.data?.get(job.id) }));
+  return { jobs: histories, isLoading: events.isLoading && jobs.length > 0, isError: events.isError };
+};
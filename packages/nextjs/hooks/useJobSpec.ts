@@ -0,0 +1,42 @@
+import { useMemo } from "react";
+import { type Job, jobMatchText, loadJobSpec, parseJobDescription, summarizeJob } from "@se-2/sdk";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import scaffoldConfig from "~~/scaffold.config";
+
+const specQuery = (description: string) => ({
+  queryKey: ["jobSpec", description, scaffoldConfig.ipfsGateway],
+  // The viewer's browser fetches it, not a server, so http(s) specs are fine (private hosts are still refused)
+  queryFn: () => loadJobSpec(description, scaffoldConfig.ipfsGateway, { allowHttp: true }),
+  staleTime: Infinity,
+  retry: 1,
+});
+
+/**
+ * A job's description parsed as a job spec, with its title and tags for display. Specs posted as `ipfs://` or
+ * `http(s)://` URIs are fetched (once, they're immutable); everything else parses in place. Legacy plain-text
+ * descriptions come back as `text`.
+ */
+export const useJobSpec = (description: string) => {
+  const parsed = useMemo(() => parseJobDescription(description), [description]);
+  const isRemote = parsed.kind === "remote";
+  const { data: loaded, isLoading } = useQuery({ ...specQuery(description), enabled: isRemote });
+  const current = isRemote ? (loaded ?? parsed) : parsed;
+  const summary = useMemo(() => summarizeJob(current), [current]);
+  return {
+    description: current.kind === "remote" ? undefined : current,
+    summary,
+    isLoading: isRemote && isLoading,
+  };
+};
+
+/**
+ * The words to match each of `jobs` on (`jobMatchText`), with specs posted as URIs fetched so search sees their title
+ * and tags rather than the URI. Nothing is fetched until `enabled`; until a spec arrives, its job matches on the URI.
+ */
+export const useJobMatchText = (jobs: Job[], enabled: boolean) => {
+  const remote = [...new Set(jobs.map(job => job.description))].filter(
+    description => parseJobDescription(description).kind === "remote",
+  );
+  const loaded = useQueries({ queries: remote.map(description => ({ ...specQuery(description), enabled })) });
+  return (job: Job) => jobMatchText(job.description, loaded[remote.indexOf(job.description)]?.data);
+};
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import scaffoldConfig from "~~/scaffold.config";
+import { type LeaderboardSort, type LeaderboardWindow, fetchLeaderboard, isIndexerConfigured } from "~~/utils/indexer";
+
+/**
+ * The agent leaderboard from the indexer API, refreshed at the app's polling interval.
+ * Disabled when no indexer is configured: the rankings need event history the contract's views don't keep.
+ */
+export const useLeaderboard = (window: LeaderboardWindow, sort: LeaderboardSort, descending: boolean) => {
+  const enabled = isIndexerConfigured();
+  const result = useQuery({
+    queryKey: ["leaderboard", scaffoldConfig.indexerUrl, window, sort, descending],
+    queryFn: () => fetchLeaderboard(window, descending ? `-${sort}` : sort),
+    refetchInterval: scaffoldConfig.pollingInterval,
+    retry: 1,
+    enabled,
+  });
+  return { ...result, enabled };
+};
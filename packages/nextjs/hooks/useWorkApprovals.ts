@@ -0,0 +1,71 @@
+import { type Job, JobStatus } from "@se-2/sdk";
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { fetchBoardLogs } from "~~/utils/boardLogs";
+import type { IndexedJob } from "~~/utils/indexer";
+
+/** What a `WorkApproved` event paid out — emitted both when the poster approves and when the agent reclaims */
+export type WorkApproval = {
+  jobId: bigint;
+  rating: number;
+  /** What the agent received, net of the protocol fee */
+  agentPayment: bigint;
+  fee: bigint;
+  /** Unix seconds; undefined when not known */
+  timestamp?: bigint;
+};
+
+/**
+ * The `WorkApproved` payouts of the given jobs' completed ones, newest first. Indexed jobs already carry them; for jobs
+ * read from the contract the events are fetched with `getLogs` from the board's deployment block, in ranges.
+ */
+export const useWorkApprovals = (jobs: (Job | IndexedJob)[], fromIndexer: boolean) => {
+  const completed = jobs.filter(job => job.status === JobStatus.Completed);
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: board } = useDeployedContractInfo({ contractName: "AgentBountyBoard" });
+  const jobIds = completed.map(job => job.id);
+
+  const events = useQuery({
+    queryKey: ["workApprovals", board?.address, jobIds.map(String).join(",")],
+    queryFn: async () => {
+      if (!publicClient || !board) return [];
+      const logs = await fetchBoardLogs(publicClient, board, range =>
+        publicClient.getContractEvents({
+          address: board.address,
+          abi: board.abi,
+          eventName: "WorkApproved",
+          args: { jobId: jobIds },
+          ...range,
+        }),
+      );
+      const approvals: WorkApproval[] = logs.map(log => ({
+        jobId: log.args.jobId!,
+        rating: log.args.rating!,
+        agentPayment: log.args.paidAmount!,
+        fee: log.args.fee!,
+        timestamp: log.timestamp,
+      }));
+      return approvals.reverse();
+    },
+    enabled: !fromIndexer && jobIds.length > 0 && Boolean(publicClient && board),
+    staleTime: Infinity,
+    retry: 1,
+  });
+
+  if (fromIndexer) {
+    const approvals = (completed as IndexedJob[])
+      .filter(job => job.agentPayment !== undefined)
+      .map(job => ({
+        jobId: job.id,
+        rating: job.rating,
+        agentPayment: job.agentPayment!,
+        fee: job.fee ?? 0n,
+        timestamp: job.closedAt,
+      }))
+      .sort((a, b) => Number((b.timestamp ?? 0n) - (a.timestamp ?? 0n)));
+    return { approvals, isLoading: false, isError: false };
+  }
+  return { approvals: events.data ?? [], isLoading: events.isLoading && jobIds.length > 0, isError: events.isError };
+};
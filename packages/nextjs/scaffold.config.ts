@@ -7,6 +7,8 @@ export type BaseConfig = {
   rpcOverrides?: Record<number, string>;
   walletConnectProjectId: string;
   onlyLocalBurnerWallet: boolean;
+  ipfsGateway: string;
+  indexerUrl: string;
 };
 
 export type ScaffoldConfig = BaseConfig;
@@ -35,6 +37,10 @@ const scaffoldConfig = {
   // .env.local for local testing, and in the Vercel/system env config for live apps.
   walletConnectProjectId: process.env.NEXT_PUBLIC_WALLET_CONNECT_PROJECT_ID || "3a8170812b534d0ff9d794f19a901d64",
   onlyLocalBurnerWallet: true,
+  // HTTP gateway that ipfs:// submission URIs are opened through
+  ipfsGateway: process.env.NEXT_PUBLIC_IPFS_GATEWAY || "https://ipfs.io",
+  // Board indexer API (packages/indexer), e.g. http://localhost:4000. Without one, jobs are read from the contract.
+  indexerUrl: process.env.NEXT_PUBLIC_INDEXER_URL || "",
 } as const satisfies ScaffoldConfig;
 
 export default scaffoldConfig;
@@ -0,0 +1,105 @@
+import { resolveArtifactUri } from "@se-2/sdk";
+import { type Address, createPublicClient, http, zeroAddress } from "viem";
+import { mainnet } from "viem/chains";
+import scaffoldConfig from "~~/scaffold.config";
+import { ERC8004_ABI, ERC8004_ADDRESS, MAINNET_RPC } from "~~/utils/bountyBoard";
+
+// Create mainnet client for 8004 reads
+export const mainnetClient = createPublicClient({
+  chain: mainnet,
+  transport: http(MAINNET_RPC),
+});
+
+/**
+ * An ERC-8004 registration file, as far as this app reads it. Every field is optional since agents write their own,
+ * and may add fields beyond these.
+ */
+export type AgentMetadata = {
+  type?: string;
+  name?: string;
+  description?: string;
+  image?: string;
+  /** Where to reach the agent, e.g. `{ name: "A2A", endpoint: "https://…/agent-card.json", version: "0.3.0" }` */
+  endpoints?: { name?: string; endpoint?: string; version?: string }[];
+  /** The agent's entries in identity registries, across chains */
+  registrations?: { agentId?: number | string; agentRegistry?: string }[];
+  /** Trust models the agent supports, e.g. "reputation", "crypto-economic", "tee-attestation" */
+  supportedTrust?: string[];
+  [field: string]: unknown;
+};
+
+export type AgentData = {
+  agentId: number;
+  owner: Address;
+  /** The address the agent claims jobs from; the zero address if none is set */
+  wallet: Address;
+  tokenURI?: string;
+  metadata: AgentMetadata | null;
+};
+
+/**
+ * Decodes the registration file a `tokenURI` points to: inline `data:application/json` URIs (base64 or URL-encoded)
+ * and raw JSON directly, `ipfs://` and `http(s)://` URIs by fetching them (IPFS through the configured gateway).
+ * Null if it can't be read or isn't a JSON object.
+ */
+export const decodeAgentMetadata = async (tokenURI: string): Promise<AgentMetadata | null> => {
+  try {
+    let json: unknown;
+    if (tokenURI.startsWith("data:application/json;base64,")) {
+      json = JSON.parse(atob(tokenURI.replace("data:application/json;base64,", "")));
+    } else if (tokenURI.startsWith("data:application/json,")) {
+      json = JSON.parse(decodeURIComponent(tokenURI.replace("data:application/json,", "")));
+    } else if (tokenURI.startsWith("{")) {
+      json = JSON.parse(tokenURI);
+    } else if (/^(ipfs|https?):\/\//.test(tokenURI)) {
+      const response = await fetch(resolveArtifactUri(tokenURI, scaffoldConfig.ipfsGateway));
+      if (!response.ok) return null;
+      json = await response.json();
+    }
+    return json && typeof json === "object" && !Array.isArray(json) ? (json as AgentMetadata) : null;
+  } catch {
+    // Metadata decode failed — that's ok
+    return null;
+  }
+};
+
+/** An agent's registry entry, or null if no agent has this id */
+export const fetchAgent = async (agentId: number): Promise<AgentData | null> => {
+  try {
+    const owner = await mainnetClient.readContract({
+      address: ERC8004_ADDRESS,
+      abi: ERC8004_ABI,
+      functionName: "ownerOf",
+      args: [BigInt(agentId)],
+    });
+
+    let wallet: Address = zeroAddress;
+    try {
+      wallet = await mainnetClient.readContract({
+        address: ERC8004_ADDRESS,
+        abi: ERC8004_ABI,
+        functionName: "getAgentWallet",
+        args: [BigInt(agentId)],
+      });
+    } catch {
+      // Some agents might not have wallets
+    }
+
+    let tokenURI: string | undefined;
+    try {
+      tokenURI = await mainnetClient.readContract({
+        address: ERC8004_ADDRESS,
+        abi: ERC8004_ABI,
+        functionName: "tokenURI",
+        args: [BigInt(agentId)],
+      });
+    } catch {
+      // No token URI set
+    }
+
+    return { agentId, owner, wallet, tokenURI, metadata: tokenURI ? await decodeAgentMetadata(tokenURI) : null };
+  } catch {
+    // Agent doesn't exist at this ID
+    return null;
+  }
+};
@@ -0,0 +1,147 @@
+import { type Job, JobStatus } from "@se-2/sdk";
+import { formatEther } from "viem";
+import type { IndexedJob } from "~~/utils/indexer";
+
+/** A job with the timestamps and payout only its events tell, as `IndexedJob` carries them */
+export type JobHistory = Job & Partial<Pick<IndexedJob, "agentPayment" | "fee" | "submittedAt" | "closedAt">>;
+
+/** Bucket widths, in seconds */
+export const ANALYTICS_INTERVALS = { hour: 3_600, day: 86_400, week: 604_800 } as const;
+export type AnalyticsInterval = keyof typeof ANALYTICS_INTERVALS;
+
+/** One interval of platform activity. Each event counts in the bucket it happened in, not the one its job was posted in */
+export type AnalyticsBucket = {
+  /** Unix seconds */
+  start: number;
+  posted: number;
+  completed: number;
+  disputed: number;
+  expired: number;
+  /** CLAWD released from escrow for completed jobs, fee included, in wei */
+  volume: bigint;
+  /** The protocol's cut of `volume` */
+  fees: bigint;
+  /** Median `paidAmount / maxPrice` of the jobs claimed, from 0 to 1 */
+  medianClaimRatio?: number;
+  /** Median seconds from posting to claim, of the jobs claimed */
+  medianTimeToClaim?: number;
+  /** Median seconds from claim to submission, of the jobs submitted */
+  medianTimeToSubmit?: number;
+};
+
+const median = (values: number[]): number | undefined => {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * The first job's posting, and `now` or the latest event if the chain's clock runs ahead of it (e.g. a local one after
+ * a time warp), so that every event falls in a bucket. One pass, since histories can be too long to spread into
+ * `Math.min`/`Math.max`.
+ */
+const spanOf = (jobs: JobHistory[], now: number) => {
+  let first = Infinity;
+  let last = now;
+  for (const job of jobs) {
+    first = Math.min(first, Number(job.auctionStart));
+    for (const timestamp of [job.auctionStart, job.claimedAt, job.submittedAt ?? 0n, job.closedAt ?? 0n]) {
+      last = Math.max(last, Number(timestamp));
+    }
+  }
+  return { first, last };
+};
+
+/** The number of `seconds`-wide buckets from the first job's posting to `now` or the latest event, if later */
+export function bucketCount(jobs: JobHistory[], seconds: number, now: number): number {
+  if (jobs.length === 0) return 0;
+  const { first, last } = spanOf(jobs, now);
+  return Math.floor(last / seconds) - Math.floor(first / seconds) + 1;
+}
+
+/**
+ * Buckets every job's events into `seconds`-wide intervals, from the one the first job was posted in to the one `now`
+ * (or the latest event, if later) is in, with empty intervals kept so charts show gaps in activity as zeros.
+ */
+export function bucketJobs(jobs: JobHistory[], seconds: number, now: number): AnalyticsBucket[] {
+  const count = bucketCount(jobs, seconds, now);
+  if (count <= 0) return [];
+  const first = Math.floor(spanOf(jobs, now).first / seconds) * seconds;
+
+  const buckets: AnalyticsBucket[] = Array.from({ length: count }, (_, i) => ({
+    start: first + i * seconds,
+    posted: 0,
+    completed: 0,
+    disputed: 0,
+    expired: 0,
+    volume: 0n,
+    fees: 0n,
+  }));
+  const claimRatios = buckets.map((): number[] => []);
+  const timesToClaim = buckets.map((): number[] => []);
+  const timesToSubmit = buckets.map((): number[] => []);
+  const at = (timestamp: bigint) => Math.floor((Number(timestamp) - first) / seconds);
+
+  for (const job of jobs) {
+    buckets[at(job.auctionStart)].posted++;
+
+    if (job.claimedAt > 0n) {
+      const i = at(job.claimedAt);
+      if (job.maxPrice > 0n) claimRatios[i].push(Number((job.paidAmount * 10_000n) / job.maxPrice) / 10_000);
+      timesToClaim[i].push(Number(job.claimedAt - job.auctionStart));
+    }
+    if (job.submittedAt !== undefined && job.claimedAt > 0n) {
+      timesToSubmit[at(job.submittedAt)].push(Number(job.submittedAt - job.claimedAt));
+    }
+
+    // Without a close time (an event that couldn't be read) the job's outcome can't be placed in time
+    if (job.closedAt === undefined) continue;
+    const closed = buckets[at(job.closedAt)];
+    if (job.status === JobStatus.Completed) {
+      closed.completed++;
+      closed.volume += job.paidAmount;
+      closed.fees += job.fee ?? 0n;
+    } else if (job.status === JobStatus.Disputed) {
+      closed.disputed++;
+    } else if (job.status === JobStatus.Expired) {
+      closed.expired++;
+    }
+  }
+
+  return buckets.map((bucket, i) => ({
+    ...bucket,
+    medianClaimRatio: median(claimRatios[i]),
+    medianTimeToClaim: median(timesToClaim[i]),
+    medianTimeToSubmit: median(timesToSubmit[i]),
+  }));
+}
+
+/** The buckets as CSV, one row per interval; CLAWD amounts in whole tokens, times in seconds */
+export function analyticsToCsv(buckets: AnalyticsBucket[]): string {
+  const header = [
+    "start",
+    "posted",
+    "completed",
+    "disputed",
+    "expired",
+    "volume_clawd",
+    "fees_clawd",
+    "median_claim_ratio",
+    "median_time_to_claim_s",
+    "median_time_to_submit_s",
+  ];
+  const rows = buckets.map(bucket => [
+    new Date(bucket.start * 1000).toISOString(),
+    bucket.posted,
+    bucket.completed,
+    bucket.disputed,
+    bucket.expired,
+    formatEther(bucket.volume),
+    formatEther(bucket.fees),
+    bucket.medianClaimRatio?.toFixed(4) ?? "",
+    bucket.medianTimeToClaim ?? "",
+    bucket.medianTimeToSubmit ?? "",
+  ]);
+  return [header, ...rows].map(row => row.join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,32 @@
+import type { Address, PublicClient } from "viem";
+
+/** Many public RPCs cap the block range of a single eth_getLogs call */
+const LOG_RANGE = 5_000n;
+
+/** A log with the timestamp of the block it was emitted in, in Unix seconds */
+export type TimestampedLog<TLog> = TLog & { timestamp: bigint };
+
+/**
+ * The board's logs from its deployment block to the head, fetched one range at a time by `getLogs` (e.g. with
+ * `getContractEvents`, so each caller keeps its own filter and typed args), each with its block's timestamp. Every
+ * block is read once, however many logs it holds.
+ */
+export async function fetchBoardLogs<TLog extends { blockNumber: bigint }>(
+  publicClient: PublicClient,
+  board: { address: Address; deployedOnBlock?: number },
+  getLogs: (range: { fromBlock: bigint; toBlock: bigint }) => Promise<TLog[]>,
+): Promise<TimestampedLog<TLog>[]> {
+  const head = await publicClient.getBlockNumber();
+  const timestamps = new Map<bigint, bigint>();
+  const logs: TimestampedLog<TLog>[] = [];
+  for (let fromBlock = BigInt(board.deployedOnBlock || 0); fromBlock <= head; fromBlock += LOG_RANGE) {
+    const toBlock = fromBlock + LOG_RANGE - 1n < head ? fromBlock + LOG_RANGE - 1n : head;
+    for (const log of await getLogs({ fromBlock, toBlock })) {
+      if (!timestamps.has(log.blockNumber)) {
+        timestamps.set(log.blockNumber, (await publicClient.getBlock({ blockNumber: log.blockNumber })).timestamp);
+      }
+      logs.push({ ...log, timestamp: timestamps.get(log.blockNumber)! });
+    }
+  }
+  return logs;
+}
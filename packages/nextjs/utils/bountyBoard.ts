@@ -1,3 +1,5 @@
+import { type Job, JobStatus, MAX_RATING } from "@se-2/sdk";
+
 export const JOB_STATUS_LABELS: Record<number, string> = {
   0: "Open",
   1: "Claimed",
@@ -109,3 +111,55 @@ export function formatTimeRemaining(seconds: number): string {
   if (m > 0) return `${m}m ${s}s`;
   return `${s}s`;
 }
+
+// Ratings are 0–100 everywhere: on chain, in the CLI and scripts, and here. Stars are only a way of showing one.
+
+/** Rating points each of five stars stands for */
+export const POINTS_PER_STAR = MAX_RATING / 5;
+
+/** Default for the approval form, matching `bounty approve` */
+export const DEFAULT_RATING = 90;
+
+export function starsToRating(stars: number): number {
+  return stars * POINTS_PER_STAR;
+}
+
+export function formatRating(rating: number | bigint): string {
+  return `${rating}/${MAX_RATING}`;
+}
+
+export function ratingLabel(rating: number): string {
+  if (rating >= 90) return "Excellent";
+  if (rating >= 70) return "Good";
+  if (rating >= 50) return "Acceptable";
+  if (rating >= 30) return "Poor";
+  return "Unacceptable";
+}
+
+export type EscrowBreakdown = {
+  /** Still held by the board */
+  escrowed: bigint;
+  /** Returned to the poster: the unused part of maxPrice at claim, or everything on cancel, expiry or dispute */
+  refunded: bigint;
+  /** Released for approved or reclaimed work, protocol fee included */
+  paid: bigint;
+};
+
+/**
+ * Where a job's `maxPrice` deposit went, following the contract's transfers. The three parts always add up to
+ * `maxPrice`.
+ */
+export function getEscrowBreakdown(job: Pick<Job, "status" | "maxPrice" | "paidAmount">): EscrowBreakdown {
+  const unused = job.maxPrice - job.paidAmount;
+  switch (job.status) {
+    case JobStatus.Open:
+      return { escrowed: job.maxPrice, refunded: 0n, paid: 0n };
+    case JobStatus.Claimed:
+    case JobStatus.Submitted:
+      return { escrowed: job.paidAmount, refunded: unused, paid: 0n };
+    case JobStatus.Completed:
+      return { escrowed: 0n, refunded: unused, paid: job.paidAmount };
+    default:
+      return { escrowed: 0n, refunded: job.maxPrice, paid: 0n };
+  }
+}
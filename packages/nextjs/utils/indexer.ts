@@ -0,0 +1,177 @@
+import type { Job } from "@se-2/sdk";
+import type { Address, Hash, Hex } from "viem";
+import scaffoldConfig from "~~/scaffold.config";
+
+/** A job as the indexer serves it: the contract's fields plus what only its events tell */
+export type IndexedJob = Job & {
+  agentPayment?: bigint;
+  fee?: bigint;
+  submittedAt?: bigint;
+  closedAt?: bigint;
+  postedBlock: bigint;
+  postedTx: Hash;
+  updatedBlock: bigint;
+  /** The poster's written feedback, signed off-chain and kept by the indexer */
+  feedback?: string;
+};
+
+/** `currentPrice` is the live auction price while a job is open, else what it was claimed for */
+export type JobSort = "id" | "minPrice" | "maxPrice" | "paidAmount" | "auctionEnd" | "currentPrice";
+
+export type JobsQuery = {
+  /** Words to find in descriptions; the last one may be a prefix */
+  q?: string;
+  /** Lowercase `JobStatus` names, e.g. "open" */
+  status?: string[];
+  /** Bounds of the current price, in wei */
+  priceMin?: bigint;
+  priceMax?: bigint;
+  poster?: Address;
+  agent?: Address;
+  sort?: JobSort | `-${JobSort}`;
+  limit?: number;
+};
+
+export type JobsPage = {
+  jobs: IndexedJob[];
+  total: number;
+  nextCursor?: string;
+  indexedBlock?: bigint;
+};
+
+const BIGINT_FIELDS = [
+  "id",
+  "minPrice",
+  "maxPrice",
+  "auctionStart",
+  "auctionDuration",
+  "workDeadline",
+  "agentId",
+  "claimedAt",
+  "paidAmount",
+  "agentPayment",
+  "fee",
+  "submittedAt",
+  "closedAt",
+  "postedBlock",
+  "updatedBlock",
+] as const;
+
+export const isIndexerConfigured = () => Boolean(scaffoldConfig.indexerUrl);
+
+/** The `/api/jobs` query string for `query` */
+export const jobsQueryParams = (query: JobsQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.q) params.set("q", query.q);
+  if (query.status?.length) params.set("status", query.status.join(","));
+  if (query.priceMin !== undefined) params.set("priceMin", query.priceMin.toString());
+  if (query.priceMax !== undefined) params.set("priceMax", query.priceMax.toString());
+  if (query.poster) params.set("poster", query.poster);
+  if (query.agent) params.set("agent", query.agent);
+  if (query.sort) params.set("sort", query.sort);
+  if (query.limit) params.set("limit", String(query.limit));
+  return params;
+};
+
+/**
+ * Fetches a page of jobs from the indexer API. Throws when the indexer is not configured or unreachable, so callers
+ * can fall back to reading the contract.
+ */
+export const fetchJobs = async (query: JobsQuery, cursor?: string): Promise<JobsPage> => {
+  const params = jobsQueryParams(query);
+  if (cursor) params.set("cursor", cursor);
+
+  const page = await getJson<{
+    jobs: Record<string, unknown>[];
+    total: number;
+    nextCursor?: string;
+    indexedBlock?: string;
+  }>(`/api/jobs?${params}`);
+  return {
+    jobs: page.jobs.map(parseJob),
+    total: page.total,
+    nextCursor: page.nextCursor,
+    indexedBlock: page.indexedBlock === undefined ? undefined : BigInt(page.indexedBlock),
+  };
+};
+
+export const fetchJob = async (jobId: bigint): Promise<IndexedJob> =>
+  parseJob(await getJson<Record<string, unknown>>(`/api/jobs/${jobId}`));
+
+/**
+ * Attaches written feedback to a job. `signature` is the poster's signature over the SDK's `feedbackMessage` with the
+ * same `signedAt`; the indexer rejects feedback that anyone else signed, or that was signed before what it has.
+ */
+export const postFeedback = async (
+  jobId: bigint,
+  feedback: string,
+  signedAt: bigint,
+  signature: Hex,
+): Promise<IndexedJob> =>
+  parseJob(
+    await getJson<Record<string, unknown>>(`/api/jobs/${jobId}/feedback`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ feedback, signedAt: signedAt.toString(), signature }),
+    }),
+  );
+
+/** An agent's record over a leaderboard window; ratios are 0-1 */
+export type LeaderboardEntry = {
+  address: Address;
+  agentIds: bigint[];
+  jobsClaimed: number;
+  completedJobs: number;
+  disputedJobs: number;
+  expiredJobs: number;
+  /** After fees */
+  totalEarned: bigint;
+  averageRating?: number;
+  disputeRatio?: number;
+  medianClaimDiscount?: number;
+};
+
+export type LeaderboardWindow = "7d" | "30d" | "all";
+
+export type LeaderboardSort =
+  | "completedJobs"
+  | "totalEarned"
+  | "averageRating"
+  | "disputeRatio"
+  | "medianClaimDiscount"
+  | "expiredJobs"
+  | "jobsClaimed";
+
+/** Agents ranked by `sort` over `window`, from the indexer's event history */
+export const fetchLeaderboard = async (
+  window: LeaderboardWindow,
+  sort: LeaderboardSort | `-${LeaderboardSort}`,
+): Promise<LeaderboardEntry[]> => {
+  const { agents } = await getJson<{
+    agents: (Record<string, unknown> & { agentIds: string[]; totalEarned: string })[];
+  }>(`/api/leaderboard?${new URLSearchParams({ window, sort })}`);
+  return agents.map(
+    agent =>
+      ({
+        ...agent,
+        agentIds: agent.agentIds.map(BigInt),
+        totalEarned: BigInt(agent.totalEarned),
+      }) as LeaderboardEntry,
+  );
+};
+
+const getJson = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  if (!scaffoldConfig.indexerUrl) throw new Error("No indexer configured");
+  const response = await fetch(`${scaffoldConfig.indexerUrl.replace(/\/+$/, "")}${path}`, init);
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error ?? `Indexer returned HTTP ${response.status}`);
+  return body as T;
+};
+
+const parseJob = (raw: Record<string, unknown>): IndexedJob => {
+  const job: Record<string, unknown> = { ...raw };
+  for (const field of BIGINT_FIELDS) {
+    if (typeof raw[field] === "string") job[field] = BigInt(raw[field] as string);
+  }
+  return job as IndexedJob;
+};
@@ -0,0 +1,146 @@
+import { type Job, JobStatus, getAuctionPrice, jobMatchText } from "@se-2/sdk";
+import { type Address, formatEther, isAddress, parseEther } from "viem";
+import type { JobsQuery } from "~~/utils/indexer";
+
+export const JOB_SORTS = {
+  newest: { label: "Newest", indexerSort: "-id" },
+  endingSoon: { label: "Auction ending soonest", indexerSort: "auctionEnd" },
+  currentPrice: { label: "Highest current price", indexerSort: "-currentPrice" },
+  maxPrice: { label: "Highest max price", indexerSort: "-maxPrice" },
+} as const satisfies Record<string, { label: string; indexerSort: JobsQuery["sort"] }>;
+
+export type JobSortKey = keyof typeof JOB_SORTS;
+
+/** Every status, in on-chain order */
+export const ALL_JOB_STATUSES = Object.values(JobStatus).filter(
+  (value): value is JobStatus => typeof value === "number",
+);
+
+/** The job board's filters and sort, as kept in the URL query so filtered views can be shared */
+export type JobSearch = {
+  /** Words that must all appear in the description (a spec's title, category, tags or details) */
+  q: string;
+  /** Any of these; empty for all */
+  statuses: JobStatus[];
+  /** Bounds of the current price, in wei */
+  minPrice?: bigint;
+  maxPrice?: bigint;
+  poster?: Address;
+  agent?: Address;
+  sort: JobSortKey;
+};
+
+export const DEFAULT_JOB_SEARCH: JobSearch = { q: "", statuses: [], sort: "newest" };
+
+/** `?q=audit&status=open,claimed&min=100&max=500&poster=0x…&agent=0x…&sort=currentPrice`, prices in CLAWD */
+export const parseJobSearch = (params: URLSearchParams): JobSearch => {
+  const statusNames = params.get("status")?.split(",") ?? [];
+  const sort = params.get("sort");
+  return {
+    q: params.get("q") ?? "",
+    statuses: ALL_JOB_STATUSES.filter(status => statusNames.includes(JobStatus[status].toLowerCase())),
+    minPrice: parseClawd(params.get("min")),
+    maxPrice: parseClawd(params.get("max")),
+    poster: parseAddress(params.get("poster")),
+    agent: parseAddress(params.get("agent")),
+    sort: sort && sort in JOB_SORTS ? (sort as JobSortKey) : DEFAULT_JOB_SEARCH.sort,
+  };
+};
+
+/** The inverse of `parseJobSearch`, leaving out defaults */
+export const jobSearchToParams = (search: JobSearch): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (search.q.trim()) params.set("q", search.q.trim());
+  if (search.statuses.length)
+    params.set("status", search.statuses.map(status => JobStatus[status].toLowerCase()).join(","));
+  if (search.minPrice !== undefined) params.set("min", formatEther(search.minPrice));
+  if (search.maxPrice !== undefined) params.set("max", formatEther(search.maxPrice));
+  if (search.poster) params.set("poster", search.poster);
+  if (search.agent) params.set("agent", search.agent);
+  if (search.sort !== DEFAULT_JOB_SEARCH.sort) params.set("sort", search.sort);
+  return params;
+};
+
+export const isFiltered = (search: JobSearch) =>
+  Boolean(
+    search.q.trim() ||
+      search.statuses.length ||
+      search.minPrice !== undefined ||
+      search.maxPrice !== undefined ||
+      search.poster ||
+      search.agent,
+  );
+
+export const toJobsQuery = (search: JobSearch): JobsQuery => ({
+  q: search.q.trim() || undefined,
+  status: search.statuses.map(status => JobStatus[status].toLowerCase()),
+  priceMin: search.minPrice,
+  priceMax: search.maxPrice,
+  poster: search.poster,
+  agent: search.agent,
+  sort: JOB_SORTS[search.sort].indexerSort,
+});
+
+/** The live auction price while a job is open, otherwise what it was claimed for — as the indexer ranks them */
+export const getCurrentPrice = (job: Job, now: bigint): bigint =>
+  job.status === JobStatus.Open ? getAuctionPrice(job, now) : job.paidAmount;
+
+/**
+ * When a job's auction ends if it is open and still being auctioned at `now`, else a value past every such end, so
+ * "ending soonest" lists live auctions first. The indexer's `auctionEnd` sort ranks the same way, ties by id.
+ */
+const auctionEndRank = (job: Job, now: bigint): bigint => {
+  const end = job.auctionStart + job.auctionDuration;
+  return job.status === JobStatus.Open && end > now ? end : BigInt(Number.MAX_SAFE_INTEGER);
+};
+
+/**
+ * Applies a search to jobs read straight from the contract, matching what the indexer returns for the same search.
+ * Words are matched against `matchText`, which should see through specs posted as URIs (`useJobMatchText`).
+ */
+export const searchJobs = (
+  jobs: Job[],
+  search: JobSearch,
+  now: bigint,
+  matchText: (job: Job) => string = job => jobMatchText(job.description),
+): Job[] => {
+  const words = search.q.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const filtered = jobs.filter(job => {
+    const price = getCurrentPrice(job, now);
+    return (
+      (!search.statuses.length || search.statuses.includes(job.status)) &&
+      (!search.poster || job.poster.toLowerCase() === search.poster.toLowerCase()) &&
+      (!search.agent || job.agent.toLowerCase() === search.agent.toLowerCase()) &&
+      (search.minPrice === undefined || price >= search.minPrice) &&
+      (search.maxPrice === undefined || price <= search.maxPrice) &&
+      words.every(word => matchText(job).toLowerCase().includes(word))
+    );
+  });
+
+  const byDescending = (value: (job: Job) => bigint) => (a: Job, b: Job) =>
+    value(b) === value(a) ? Number(b.id - a.id) : value(b) > value(a) ? 1 : -1;
+  switch (search.sort) {
+    case "newest":
+      return filtered.sort((a, b) => Number(b.id - a.id));
+    case "endingSoon":
+      return filtered.sort((a, b) => {
+        const [endA, endB] = [auctionEndRank(a, now), auctionEndRank(b, now)];
+        return endA === endB ? Number(a.id - b.id) : endA < endB ? -1 : 1;
+      });
+    case "currentPrice":
+      return filtered.sort(byDescending(job => getCurrentPrice(job, now)));
+    case "maxPrice":
+      return filtered.sort(byDescending(job => job.maxPrice));
+  }
+};
+
+const parseClawd = (value: string | null): bigint | undefined => {
+  if (!value) return undefined;
+  try {
+    return parseEther(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const parseAddress = (value: string | null): Address | undefined => (value && isAddress(value) ? value : undefined);
@@ -0,0 +1,143 @@
+import {
+  GENERIC_MIME_TYPES,
+  decodeUtf8,
+  parseDataUri,
+  parseIpfsUri,
+  resolveArtifactUri,
+  sniffMimeType,
+} from "@se-2/sdk";
+
+/** Larger submissions are offered as a download only */
+export const MAX_PREVIEW_BYTES = 5 * 1024 * 1024;
+
+/** How the viewer shows a submission */
+export type SubmissionKind = "image" | "svg" | "json" | "markdown" | "html" | "text" | "binary";
+
+export type SubmissionContent = {
+  kind: SubmissionKind;
+  mimeType: string;
+  bytes: Uint8Array;
+  /** The content as UTF-8, for every kind but images and binary */
+  text?: string;
+  /** Where it was fetched from, for `ipfs://` and `http(s)://` URIs */
+  url?: string;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+  "application/json": "json",
+  "application/pdf": "pdf",
+  "text/markdown": "md",
+  "text/html": "html",
+  "text/plain": "txt",
+};
+
+/** A file extension for `mimeType`, "bin" when unknown */
+export const extensionFor = (mimeType: string) => EXTENSIONS[mimeType] ?? "bin";
+
+/** Short form of a submission URI for display: data URIs are summarised rather than shown whole */
+export function describeSubmissionUri(uri: string): string {
+  if (!uri.startsWith("data:")) return uri;
+  const parsed = parseDataUri(uri);
+  return parsed ? `${parsed.mimeType} data (${formatBytes(parsed.bytes.length)})` : "malformed data: URI";
+}
+
+export function formatBytes(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function kindOf(mimeType: string): SubmissionKind {
+  if (mimeType === "image/svg+xml") return "svg";
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType === "application/json" || mimeType.endsWith("+json")) return "json";
+  if (mimeType === "text/markdown") return "markdown";
+  if (mimeType === "text/html") return "html";
+  if (mimeType.startsWith("text/")) return "text";
+  return "binary";
+}
+
+/**
+ * Loads a submission for display: data URIs are decoded in place, `ipfs://` URIs fetched through `gateway`, and
+ * `http(s)://` URIs fetched directly. Throws if it can't be fetched or is over `MAX_PREVIEW_BYTES`.
+ */
+export async function loadSubmission(uri: string, gateway: string): Promise<SubmissionContent> {
+  let mimeType: string;
+  let bytes: Uint8Array;
+  let url: string | undefined;
+
+  if (uri.startsWith("data:")) {
+    const parsed = parseDataUri(uri);
+    if (!parsed) throw new Error("Malformed data: URI");
+    ({ mimeType, bytes } = parsed);
+  } else {
+    if (!parseIpfsUri(uri) && !/^https?:\/\//i.test(uri)) throw new Error("Not a data:, ipfs:// or http(s):// URI");
+    url = resolveArtifactUri(uri, gateway);
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    if (Number(response.headers.get("content-length") ?? 0) > MAX_PREVIEW_BYTES) {
+      throw new Error(`Larger than ${formatBytes(MAX_PREVIEW_BYTES)}`);
+    }
+    bytes = new Uint8Array(await response.arrayBuffer());
+    mimeType = (response.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+  }
+  if (bytes.length > MAX_PREVIEW_BYTES) throw new Error(`Larger than ${formatBytes(MAX_PREVIEW_BYTES)}`);
+
+  if (GENERIC_MIME_TYPES.includes(mimeType)) mimeType = sniffMimeType(bytes);
+  const kind = kindOf(mimeType);
+  const text = kind === "image" || kind === "binary" ? undefined : decodeUtf8(bytes);
+  // Text that isn't UTF-8 can't be shown as text
+  return { kind: text === undefined && kind !== "image" ? "binary" : kind, mimeType, bytes, text, url };
+}
+
+/** Elements that can run script, embed other documents or pull in content from elsewhere */
+const UNSAFE_SVG_ELEMENTS = [
+  "script",
+  "foreignObject",
+  "iframe",
+  "object",
+  "embed",
+  "audio",
+  "video",
+  "animate",
+  "set",
+];
+
+/**
+ * `svg` with scripts, event handlers, embedded documents and links to anything outside itself removed. Undefined if
+ * it doesn't parse as SVG. Browsers already refuse to run scripts in SVG shown through `<img>`, as the viewer does;
+ * this keeps the preview inert even where that isn't enforced. Downloads keep the original bytes, so they still match
+ * the submission's CID.
+ */
+export function sanitizeSvg(svg: string): string | undefined {
+  const doc = new DOMParser().parseFromString(svg, "image/svg+xml");
+  const root = doc.documentElement;
+  if (root.nodeName.toLowerCase() !== "svg" || doc.getElementsByTagName("parsererror").length > 0) return undefined;
+
+  for (const name of UNSAFE_SVG_ELEMENTS) {
+    for (const element of Array.from(doc.getElementsByTagName(name))) element.remove();
+  }
+  for (const style of Array.from(doc.getElementsByTagName("style"))) {
+    if (/@import|url\(\s*['"]?[^'"#\s)]/i.test(style.textContent ?? "")) style.remove();
+  }
+  for (const element of [root, ...Array.from(root.getElementsByTagName("*"))]) {
+    for (const attribute of Array.from(element.attributes)) {
+      const name = attribute.name.toLowerCase();
+      const value = attribute.value.trim().toLowerCase();
+      const isLink = name === "href" || name.endsWith(":href");
+      if (
+        name.startsWith("on") ||
+        (isLink && !value.startsWith("#") && !value.startsWith("data:image/")) ||
+        (name === "style" && value.includes("url(") && !/url\(\s*['"]?#/.test(value))
+      ) {
+        element.removeAttribute(attribute.name);
+      }
+    }
+  }
+  return new XMLSerializer().serializeToString(doc);
+}
@@ -0,0 +1 @@
+module.exports = require("../nextjs/.prettierrc.js");
@@ -0,0 +1,31 @@
+import deployedContracts from "../../nextjs/contracts/deployedContracts";
+import type { Address } from "viem";
+
+type Deployments = typeof deployedContracts;
+
+export type BountyBoardChainId = keyof Deployments;
+
+/**
+ * AgentBountyBoard ABI as generated by `yarn deploy` into packages/nextjs/contracts/deployedContracts.ts.
+ * Every deployment is compiled from the same contract, so the ABI of any chain entry is the ABI of all of them.
+ */
+export const bountyBoardAbi = deployedContracts[8453].AgentBountyBoard.abi;
+
+export type BountyBoardAbi = typeof bountyBoardAbi;
+
+export type BountyBoardDeployment = {
+  address: Address;
+  deployedOnBlock: bigint;
+};
+
+/**
+ * Returns the AgentBountyBoard deployment for a chain, or undefined if the board was never deployed there.
+ */
+export function getBountyBoardDeployment(chainId: number): BountyBoardDeployment | undefined {
+  const deployment = (deployedContracts as Record<number, Deployments[BountyBoardChainId] | undefined>)[chainId];
+  if (!deployment) return undefined;
+  return {
+    address: deployment.AgentBountyBoard.address,
+    deployedOnBlock: BigInt(deployment.AgentBountyBoard.deployedOnBlock),
+  };
+}
@@ -0,0 +1,29 @@
+import type { Job } from "./types";
+
+export type AuctionParams = Pick<Job, "minPrice" | "maxPrice" | "auctionStart" | "auctionDuration">;
+
+/**
+ * The claim price at `timestamp`, computed exactly as `AgentBountyBoard._getCurrentPrice` does: it rises linearly
+ * from `minPrice` at `auctionStart` to `maxPrice` at the end of the auction and stays there.
+ */
+export function getAuctionPrice(auction: AuctionParams, timestamp: bigint): bigint {
+  const { minPrice, maxPrice, auctionStart, auctionDuration } = auction;
+  if (timestamp >= auctionStart + auctionDuration) return maxPrice;
+  if (timestamp <= auctionStart) return minPrice;
+  const elapsed = timestamp - auctionStart;
+  return minPrice + ((maxPrice - minPrice) * elapsed) / auctionDuration;
+}
+
+/**
+ * The earliest timestamp at which the claim price is at least `price`, or undefined if it never gets there
+ * (`price` above `maxPrice`). The inverse of `getAuctionPrice`, including its integer rounding.
+ */
+export function getAuctionTimeAtPrice(auction: AuctionParams, price: bigint): bigint | undefined {
+  const { minPrice, maxPrice, auctionStart, auctionDuration } = auction;
+  if (price > maxPrice) return undefined;
+  if (price <= minPrice) return auctionStart;
+  // Smallest elapsed with (range * elapsed) / duration >= price - minPrice, i.e. ceil((price - minPrice) * duration / range)
+  const range = maxPrice - minPrice;
+  const elapsed = ((price - minPrice) * auctionDuration + range - 1n) / range;
+  return auctionStart + elapsed;
+}
@@ -0,0 +1,52 @@
+import { hexToBytes, sha256 } from "viem";
+
+/** Multicodec of raw bytes, the codec `ipfs add --raw-leaves` gives file blocks */
+const RAW_CODEC = 0x55;
+/** Multihash code of sha2-256, and its digest length */
+const SHA2_256 = 0x12;
+const SHA2_256_LENGTH = 32;
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+/**
+ * The CIDv1 of `content` as a single raw block, in base32 (`bafkrei...`), computed offline.
+ *
+ * This is the CID `ipfs add --cid-version 1 --raw-leaves` gives content of up to 256 KiB, the default chunk size.
+ * Larger content gets a different, chunked CID from `ipfs add`; its raw-block CID stays valid, but is only
+ * retrievable if it is stored as one block (`ipfs block put --cid-codec raw`).
+ */
+export function computeCid(content: Uint8Array): string {
+  const digest = hexToBytes(sha256(content));
+  return `b${base32([0x01, RAW_CODEC, SHA2_256, SHA2_256_LENGTH, ...digest])}`;
+}
+
+/** Splits an `ipfs://<cid>[/path]` URI, or returns undefined for any other URI */
+export function parseIpfsUri(uri: string): { cid: string; path: string } | undefined {
+  const match = uri.match(/^ipfs:\/\/([^/?#]+)(.*)$/);
+  return match ? { cid: match[1], path: match[2] } : undefined;
+}
+
+/**
+ * Turns a submission URI into one a browser or `fetch` can load: `ipfs://` URIs go through `gateway` (e.g.
+ * `https://ipfs.io`), anything else is returned unchanged.
+ */
+export function resolveArtifactUri(uri: string, gateway: string): string {
+  const ipfs = parseIpfsUri(uri);
+  return ipfs ? `${gateway.replace(/\/+$/, "")}/ipfs/${ipfs.cid}${ipfs.path}` : uri;
+}
+
+/** RFC 4648 base32, lowercase and unpadded, as multibase "b" uses it */
+function base32(bytes: number[]): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return output;
+}
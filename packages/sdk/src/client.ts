@@ -0,0 +1,248 @@
+import { type BountyBoardAbi, bountyBoardAbi, getBountyBoardDeployment } from "./abi";
+import { decodeJob } from "./job";
+import { TransactionManager, type TransactionManagerConfig, type TransactionRequest } from "./transactions";
+import type { AgentStats, Job, PlatformStats, PostJobParams } from "./types";
+import {
+  type Abi,
+  type Account,
+  type Address,
+  type Chain,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type Hash,
+  type PublicClient,
+  type TransactionReceipt,
+  type Transport,
+  type WalletClient,
+  encodeFunctionData,
+  erc20Abi,
+  parseEventLogs,
+} from "viem";
+
+type WriteFunctionName = ContractFunctionName<BountyBoardAbi, "nonpayable">;
+
+export type BountyBoardWalletClient = WalletClient<Transport, Chain | undefined, Account>;
+
+export type BountyBoardClientConfig = {
+  publicClient: PublicClient;
+  /** Required for write methods only */
+  walletClient?: BountyBoardWalletClient;
+  /** Defaults to the deployment in deployedContracts.ts for the public client's chain */
+  address?: Address;
+  /** Tuning for the transaction manager that sends writes */
+  transactions?: Omit<TransactionManagerConfig, "publicClient" | "walletClient">;
+};
+
+/** Per-write options for the write methods that take them */
+export type WriteOptions = Pick<TransactionRequest, "onSent">;
+
+export type WriteResult = {
+  hash: Hash;
+  receipt: TransactionReceipt;
+};
+
+/**
+ * Typed wrapper around the AgentBountyBoard contract.
+ *
+ * Reads go through the public client. Writes are sent from the wallet client's account by a `TransactionManager`,
+ * so several can be in flight at once, and resolve once the transaction is mined. A failed write rejects with a
+ * `TransactionError` naming the contract's custom error, if any.
+ */
+export class BountyBoardClient {
+  readonly address: Address;
+  readonly publicClient: PublicClient;
+  readonly walletClient?: BountyBoardWalletClient;
+  /** Set when there is a wallet client */
+  readonly transactions?: TransactionManager;
+
+  private clawdAddress?: Address;
+
+  constructor({ publicClient, walletClient, address, transactions }: BountyBoardClientConfig) {
+    const chainId = publicClient.chain?.id;
+    const resolved = address ?? (chainId !== undefined ? getBountyBoardDeployment(chainId)?.address : undefined);
+    if (!resolved) {
+      throw new Error(`No AgentBountyBoard deployment for chain ${chainId ?? "<unknown>"}; pass an address explicitly`);
+    }
+    this.address = resolved;
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    if (walletClient) this.transactions = new TransactionManager({ ...transactions, publicClient, walletClient });
+  }
+
+  // ═══════════════════════════════════════════
+  //                  VIEWS
+  // ═══════════════════════════════════════════
+
+  async getJobCount(): Promise<bigint> {
+    return this.publicClient.readContract({ address: this.address, abi: bountyBoardAbi, functionName: "getJobCount" });
+  }
+
+  async getJob(jobId: bigint): Promise<Job> {
+    const [core, agent] = await Promise.all([
+      this.publicClient.readContract({
+        address: this.address,
+        abi: bountyBoardAbi,
+        functionName: "getJobCore",
+        args: [jobId],
+      }),
+      this.publicClient.readContract({
+        address: this.address,
+        abi: bountyBoardAbi,
+        functionName: "getJobAgent",
+        args: [jobId],
+      }),
+    ]);
+    return decodeJob(jobId, core, agent);
+  }
+
+  async getCurrentPrice(jobId: bigint): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: bountyBoardAbi,
+      functionName: "getCurrentPrice",
+      args: [jobId],
+    });
+  }
+
+  async getAgentStats(agent: Address): Promise<AgentStats> {
+    const [completedJobs, disputedJobs, totalEarned, avgRating, seniorityDays] = await this.publicClient.readContract({
+      address: this.address,
+      abi: bountyBoardAbi,
+      functionName: "getAgentStats",
+      args: [agent],
+    });
+    return { completedJobs, disputedJobs, totalEarned, avgRating, seniorityDays };
+  }
+
+  async getPlatformStats(): Promise<PlatformStats> {
+    const [jobsPosted, jobsCompleted, totalPaid, disputes, feeBalance] = await this.publicClient.readContract({
+      address: this.address,
+      abi: bountyBoardAbi,
+      functionName: "getPlatformStats",
+    });
+    return { jobsPosted, jobsCompleted, totalPaid, disputes, feeBalance };
+  }
+
+  async getClawdAddress(): Promise<Address> {
+    this.clawdAddress ??= await this.publicClient.readContract({
+      address: this.address,
+      abi: bountyBoardAbi,
+      functionName: "clawd",
+    });
+    return this.clawdAddress;
+  }
+
+  async getClawdBalance(owner: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: await this.getClawdAddress(),
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [owner],
+    });
+  }
+
+  async getClawdAllowance(owner: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: await this.getClawdAddress(),
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [owner, this.address],
+    });
+  }
+
+  // ═══════════════════════════════════════════
+  //                  POSTER ACTIONS
+  // ═══════════════════════════════════════════
+
+  /**
+   * Approves the board to pull `amount` CLAWD from the wallet account. `postJob` escrows `maxPrice`.
+   */
+  async approveClawd(amount: bigint): Promise<WriteResult> {
+    return this.requireTransactions().send({
+      to: await this.getClawdAddress(),
+      data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [this.address, amount] }),
+      label: "approve",
+    });
+  }
+
+  /**
+   * Posts a job and returns its id, read from the `JobPosted` event of the receipt.
+   * The wallet account must have approved at least `maxPrice` CLAWD (see `approveClawd`).
+   */
+  async postJob({
+    description,
+    minPrice,
+    maxPrice,
+    auctionDuration,
+    workDeadline,
+  }: PostJobParams): Promise<WriteResult & { jobId: bigint }> {
+    const result = await this.write("postJob", [description, minPrice, maxPrice, auctionDuration, workDeadline]);
+    const [posted] = parseEventLogs({ abi: bountyBoardAbi, eventName: "JobPosted", logs: result.receipt.logs });
+    if (!posted) throw new Error(`postJob transaction ${result.hash} emitted no JobPosted event`);
+    return { ...result, jobId: posted.args.jobId };
+  }
+
+  /** @param rating Quality rating 0-100 */
+  async approveWork(jobId: bigint, rating: number): Promise<WriteResult> {
+    return this.write("approveWork", [jobId, rating]);
+  }
+
+  async disputeWork(jobId: bigint): Promise<WriteResult> {
+    return this.write("disputeWork", [jobId]);
+  }
+
+  async cancelJob(jobId: bigint): Promise<WriteResult> {
+    return this.write("cancelJob", [jobId]);
+  }
+
+  // ═══════════════════════════════════════════
+  //                  AGENT ACTIONS
+  // ═══════════════════════════════════════════
+
+  async claimJob(jobId: bigint, agentId: bigint, options: WriteOptions = {}): Promise<WriteResult> {
+    return this.write("claimJob", [jobId, agentId], options);
+  }
+
+  async submitWork(jobId: bigint, submissionURI: string): Promise<WriteResult> {
+    return this.write("submitWork", [jobId, submissionURI]);
+  }
+
+  async reclaimWork(jobId: bigint): Promise<WriteResult> {
+    return this.write("reclaimWork", [jobId]);
+  }
+
+  // ═══════════════════════════════════════════
+  //                  HOUSEKEEPING
+  // ═══════════════════════════════════════════
+
+  async expireJob(jobId: bigint): Promise<WriteResult> {
+    return this.write("expireJob", [jobId]);
+  }
+
+  // ═══════════════════════════════════════════
+  //                  INTERNAL
+  // ═══════════════════════════════════════════
+
+  private requireTransactions(): TransactionManager {
+    if (!this.transactions) throw new Error("BountyBoardClient was created without a walletClient");
+    return this.transactions;
+  }
+
+  private async write<TFunctionName extends WriteFunctionName>(
+    functionName: TFunctionName,
+    args: ContractFunctionArgs<BountyBoardAbi, "nonpayable", TFunctionName>,
+    options: WriteOptions = {},
+  ): Promise<WriteResult> {
+    return this.requireTransactions().send({
+      to: this.address,
+      // viem cannot narrow the args of a generic function name; they are checked against it in the signature above
+      data: encodeFunctionData({
+        abi: bountyBoardAbi as Abi,
+        functionName: functionName as string,
+        args: args as readonly unknown[],
+      }),
+      label: functionName,
+      ...options,
+    });
+  }
+}
@@ -0,0 +1,38 @@
+export { bountyBoardAbi, getBountyBoardDeployment } from "./abi";
+export type { BountyBoardAbi, BountyBoardChainId, BountyBoardDeployment } from "./abi";
+export { getAuctionPrice, getAuctionTimeAtPrice } from "./auction";
+export type { AuctionParams } from "./auction";
+export { computeCid, parseIpfsUri, resolveArtifactUri } from "./cid";
+export { BountyBoardClient } from "./client";
+export type { BountyBoardClientConfig, BountyBoardWalletClient, WriteOptions, WriteResult } from "./client";
+export { GENERIC_MIME_TYPES, decodeUtf8, parseDataUri, sniffMimeType } from "./mime";
+export { REVIEW_PERIOD_MULTIPLIER, decodeJob, getReviewDeadline, getWorkDeadline } from "./job";
+export type { JobAgentTuple, JobCoreTuple } from "./job";
+export { MAX_FEEDBACK_LENGTH, MAX_RATING, feedbackMessage, isValidRating } from "./rating";
+export type { FeedbackMessageParams } from "./rating";
+export { validateJsonSchema } from "./schema";
+export type { JsonSchema } from "./schema";
+export {
+  JOB_SPEC_VERSION,
+  MAX_SPEC_SIZE,
+  MAX_SPEC_TAGS,
+  MAX_SPEC_TITLE_LENGTH,
+  encodeJobSpec,
+  jobMatchText,
+  loadJobSpec,
+  parseJobDescription,
+  summarizeJob,
+  validateJobSpec,
+} from "./spec";
+export type {
+  JobDescription,
+  JobSpec,
+  JobSpecAttachment,
+  JobSummary,
+  LoadJobSpecOptions,
+  LoadedJobDescription,
+} from "./spec";
+export { JobStatus } from "./types";
+export type { AgentStats, Job, PlatformStats, PostJobParams } from "./types";
+export { TransactionError, TransactionManager, decodeRevert } from "./transactions";
+export type { SpeedUp, TransactionErrorKind, TransactionManagerConfig, TransactionRequest } from "./transactions";
@@ -0,0 +1,47 @@
+import { type Job, JobStatus } from "./types";
+import type { Address } from "viem";
+
+/** `reclaimWork` opens this many work deadlines after the claim, leaving the poster time to review */
+export const REVIEW_PERIOD_MULTIPLIER = 3n;
+
+/** Return tuple of `getJobCore(jobId)` */
+export type JobCoreTuple = readonly [Address, string, bigint, bigint, bigint, bigint, bigint, number];
+
+/** Return tuple of `getJobAgent(jobId)` */
+export type JobAgentTuple = readonly [Address, bigint, bigint, string, bigint, number];
+
+/**
+ * Merges the raw `getJobCore` / `getJobAgent` tuples into a `Job`.
+ * Exported so callers that already hold the tuples (e.g. wagmi read hooks) can decode them the same way.
+ */
+export function decodeJob(jobId: bigint, core: JobCoreTuple, agent: JobAgentTuple): Job {
+  const [poster, description, minPrice, maxPrice, auctionStart, auctionDuration, workDeadline, status] = core;
+  const [agentAddress, agentId, claimedAt, submissionURI, paidAmount, rating] = agent;
+  return {
+    id: jobId,
+    poster,
+    description,
+    minPrice,
+    maxPrice,
+    auctionStart,
+    auctionDuration,
+    workDeadline,
+    status: status as JobStatus,
+    agent: agentAddress,
+    agentId,
+    claimedAt,
+    submissionURI,
+    paidAmount,
+    rating,
+  };
+}
+
+/** The end of a claimed job's work window. `expireJob` succeeds once block time is past it (strictly after). */
+export function getWorkDeadline(job: Pick<Job, "claimedAt" | "workDeadline">): bigint {
+  return job.claimedAt + job.workDeadline;
+}
+
+/** The end of the poster's review window. `reclaimWork` succeeds once block time is past it (strictly after). */
+export function getReviewDeadline(job: Pick<Job, "claimedAt" | "workDeadline">): bigint {
+  return job.claimedAt + job.workDeadline * REVIEW_PERIOD_MULTIPLIER;
+}
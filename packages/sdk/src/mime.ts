@@ -0,0 +1,57 @@
+/** MIME types that say nothing about the content, so it should be sniffed instead */
+export const GENERIC_MIME_TYPES = ["", "application/octet-stream", "text/plain", "binary/octet-stream"];
+
+/** `data:[<mime>][;base64],<data>` → its MIME type and bytes; undefined if `uri` isn't a well-formed data URI */
+export function parseDataUri(uri: string): { mimeType: string; bytes: Uint8Array } | undefined {
+  const match = /^data:([^,]*?)(;base64)?,(.*)$/s.exec(uri);
+  if (!match) return undefined;
+  const mimeType = match[1].split(";")[0].trim().toLowerCase() || "text/plain";
+  try {
+    const bytes = match[2]
+      ? Uint8Array.from(atob(match[3]), char => char.charCodeAt(0))
+      : new TextEncoder().encode(decodeURIComponent(match[3]));
+    return { mimeType, bytes };
+  } catch {
+    return undefined;
+  }
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[]) => signature.every((byte, i) => bytes[i] === byte);
+
+/** `bytes` as UTF-8 text, or undefined if they aren't valid UTF-8 */
+export function decodeUtf8(bytes: Uint8Array): string | undefined {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The MIME type of `bytes` from their content, for when the source doesn't say or says something generic
+ * (gateways often answer `text/plain` or `application/octet-stream`).
+ */
+export function sniffMimeType(bytes: Uint8Array): string {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return "image/png";
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return "image/gif";
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes.slice(8), [0x57, 0x45, 0x42, 0x50])) {
+    return "image/webp";
+  }
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46])) return "application/pdf";
+  const text = decodeUtf8(bytes);
+  if (text === undefined) return "application/octet-stream";
+  const head = text.trimStart().slice(0, 512).toLowerCase();
+  if (head.startsWith("<svg") || (head.startsWith("<?xml") && head.includes("<svg"))) return "image/svg+xml";
+  if (head.startsWith("<!doctype html") || head.startsWith("<html")) return "text/html";
+  if (/^[[{]/.test(head)) {
+    try {
+      JSON.parse(text);
+      return "application/json";
+    } catch {
+      // Not JSON after all
+    }
+  }
+  if (/^(#{1,6} |[-*] |\d+\. |```)/m.test(text)) return "text/markdown";
+  return "text/plain";
+}
@@ -0,0 +1,37 @@
+import type { Address } from "viem";
+
+/** Ratings are whole numbers from 0 to this; `approveWork` reverts with `InvalidRating` above it */
+export const MAX_RATING = 100;
+
+/** Longest written feedback the indexer keeps */
+export const MAX_FEEDBACK_LENGTH = 2000;
+
+export function isValidRating(rating: number): boolean {
+  return Number.isInteger(rating) && rating >= 0 && rating <= MAX_RATING;
+}
+
+export type FeedbackMessageParams = {
+  chainId: number;
+  board: Address;
+  jobId: bigint;
+  feedback: string;
+  /** Unix seconds */
+  signedAt: bigint;
+};
+
+/**
+ * The message a poster signs (EIP-191 `personal_sign`) to attach written feedback to a job. The contract only stores
+ * the 0-100 rating, so feedback lives off-chain with the indexer, which accepts it only when the job's poster signed
+ * this exact text. `signedAt` orders a job's feedback, so an older signed message can't be replayed over a newer one.
+ */
+export function feedbackMessage({ chainId, board, jobId, feedback, signedAt }: FeedbackMessageParams): string {
+  return [
+    "Agent Bounty Board feedback",
+    `Board: ${board.toLowerCase()}`,
+    `Chain: ${chainId}`,
+    `Job: ${jobId}`,
+    `Signed: ${new Date(Number(signedAt) * 1000).toISOString()}`,
+    "",
+    feedback,
+  ].join("\n");
+}
@@ -0,0 +1,146 @@
+/** A JSON Schema, as found in a job spec's `output.schema` */
+export type JsonSchema = Record<string, unknown>;
+
+/** Errors past this many stop the check; one bad field in a long array shouldn't flood the report */
+const MAX_ERRORS = 20;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+const matchesType = (value: unknown, type: string) =>
+  type === "integer"
+    ? Number.isInteger(value)
+    : type === "number"
+      ? typeof value === "number" && Number.isFinite(value)
+      : typeOf(value) === type;
+
+/** Deep equality for `enum` and `const` */
+function equal(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((item, i) => equal(item, b[i]));
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => equal(a[key], b[key]));
+  }
+  return false;
+}
+
+/** Whether `value` matches `pattern`; an invalid pattern matches nothing */
+function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern, "u").test(value);
+  } catch {
+    return false;
+  }
+}
+
+/** Resolves a `$ref` within the root schema, e.g. `#/$defs/item` */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (!ref.startsWith("#")) return undefined;
+  let target: unknown = root;
+  for (const part of ref.slice(1).split("/").filter(Boolean)) {
+    target = isObject(target) ? target[decodeURIComponent(part).replace(/~1/g, "/").replace(/~0/g, "~")] : undefined;
+  }
+  return isObject(target) ? target : undefined;
+}
+
+/**
+ * Checks `value` against `schema` and returns every violation, each prefixed with where it is (`$.items[0].name`).
+ * Empty when it conforms.
+ *
+ * Covers the keywords job specs use to describe output: `type`, `enum`, `const`, `properties`, `required`,
+ * `additionalProperties`, `items`, `minItems`/`maxItems`, `minLength`/`maxLength`, `pattern`, `minimum`/`maximum`,
+ * `exclusiveMinimum`/`exclusiveMaximum`, `allOf`/`anyOf`/`oneOf`/`not` and local `$ref`s. Other keywords (`format`,
+ * `uniqueItems`, ...) are ignored, so a schema using them is checked less strictly, never rejected.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  let failures = 0;
+  const fail = (path: string, message: string) => {
+    if (failures++ < MAX_ERRORS) errors.push(`${path}: ${message}`);
+  };
+  // Tries a subschema without reporting its errors, for anyOf, oneOf and not
+  const conforms = (v: unknown, s: JsonSchema, path: string) => {
+    const [errorCount, failureCount] = [errors.length, failures];
+    check(v, s, path);
+    const ok = failures === failureCount;
+    errors.length = errorCount;
+    failures = failureCount;
+    return ok;
+  };
+
+  // `refs` holds the $refs followed without descending into the value, to stop on a cycle
+  const check = (v: unknown, s: JsonSchema, path: string, refs: string[] = []) => {
+    if (typeof s.$ref === "string") {
+      const target = resolveRef(schema, s.$ref);
+      if (!target) return fail(path, `can't resolve $ref ${s.$ref}`);
+      if (refs.includes(s.$ref)) return fail(path, `$ref ${s.$ref} refers to itself`);
+      return check(v, target, path, [...refs, s.$ref]);
+    }
+
+    const types = typeof s.type === "string" ? [s.type] : Array.isArray(s.type) ? (s.type as string[]) : undefined;
+    if (types && !types.some(type => matchesType(v, type))) {
+      return fail(path, `expected ${types.join(" or ")}, got ${typeOf(v)}`);
+    }
+    if (Array.isArray(s.enum) && !s.enum.some(option => equal(v, option))) {
+      fail(path, `must be one of ${JSON.stringify(s.enum)}`);
+    }
+    if ("const" in s && !equal(v, s.const)) fail(path, `must be ${JSON.stringify(s.const)}`);
+
+    if (typeof v === "string") {
+      if (typeof s.minLength === "number" && v.length < s.minLength) fail(path, `shorter than ${s.minLength}`);
+      if (typeof s.maxLength === "number" && v.length > s.maxLength) fail(path, `longer than ${s.maxLength}`);
+      if (typeof s.pattern === "string" && !matchesPattern(v, s.pattern)) fail(path, `must match ${s.pattern}`);
+    }
+    if (typeof v === "number") {
+      if (typeof s.minimum === "number" && v < s.minimum) fail(path, `less than ${s.minimum}`);
+      if (typeof s.maximum === "number" && v > s.maximum) fail(path, `greater than ${s.maximum}`);
+      if (typeof s.exclusiveMinimum === "number" && v <= s.exclusiveMinimum) {
+        fail(path, `not greater than ${s.exclusiveMinimum}`);
+      }
+      if (typeof s.exclusiveMaximum === "number" && v >= s.exclusiveMaximum) {
+        fail(path, `not less than ${s.exclusiveMaximum}`);
+      }
+    }
+    if (Array.isArray(v)) {
+      if (typeof s.minItems === "number" && v.length < s.minItems) fail(path, `fewer than ${s.minItems} items`);
+      if (typeof s.maxItems === "number" && v.length > s.maxItems) fail(path, `more than ${s.maxItems} items`);
+      if (isObject(s.items)) v.forEach((item, i) => check(item, s.items as JsonSchema, `${path}[${i}]`));
+    }
+    if (isObject(v)) {
+      const properties = isObject(s.properties) ? s.properties : {};
+      if (Array.isArray(s.required)) {
+        for (const key of s.required as string[]) if (!(key in v)) fail(path, `missing required property "${key}"`);
+      }
+      for (const [key, item] of Object.entries(v)) {
+        const itemPath = /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+        if (isObject(properties[key])) {
+          check(item, properties[key] as JsonSchema, itemPath);
+        } else if (s.additionalProperties === false) {
+          fail(path, `unexpected property "${key}"`);
+        } else if (isObject(s.additionalProperties)) {
+          check(item, s.additionalProperties, itemPath);
+        }
+      }
+    }
+
+    if (Array.isArray(s.allOf)) s.allOf.filter(isObject).forEach(sub => check(v, sub, path, refs));
+    if (Array.isArray(s.anyOf) && !s.anyOf.filter(isObject).some(sub => conforms(v, sub, path))) {
+      fail(path, "doesn't match any schema in anyOf");
+    }
+    if (Array.isArray(s.oneOf)) {
+      const matches = s.oneOf.filter(isObject).filter(sub => conforms(v, sub, path)).length;
+      if (matches !== 1) fail(path, `matches ${matches} schemas in oneOf, not exactly 1`);
+    }
+    if (isObject(s.not) && conforms(v, s.not, path)) fail(path, "matches the schema in not");
+  };
+
+  check(value, schema, "$");
+  return errors;
+}
@@ -0,0 +1,89 @@
+import { MAX_SPEC_SIZE, encodeJobSpec, loadJobSpec } from "./spec";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+const GATEWAY = "https://gateway.example";
+const SPEC = encodeJobSpec({ specVersion: 1, title: "Draw a fox", tags: [], attachments: [], acceptanceCriteria: [] });
+
+/** A `fetch` that records the URLs it was asked for and answers each with `respond` */
+const fakeFetch = (respond: () => Response) => {
+  const urls: string[] = [];
+  const fetchImpl = (async (url: string) => {
+    urls.push(url);
+    return respond();
+  }) as typeof fetch;
+  return { urls, fetchImpl };
+};
+
+/** A body that never ends, 64 KiB at a time, and whether it was cancelled */
+const endlessBody = () => {
+  const chunk = new Uint8Array(64 * 1024).fill(0x20);
+  const state = { cancelled: false, sent: 0 };
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      state.sent += chunk.length;
+      controller.enqueue(chunk);
+    },
+    cancel() {
+      state.cancelled = true;
+    },
+  });
+  return { body, state };
+};
+
+describe("loadJobSpec", () => {
+  it("fetches ipfs:// specs through the gateway", async () => {
+    const { urls, fetchImpl } = fakeFetch(() => new Response(SPEC));
+    const loaded = await loadJobSpec("ipfs://bafyspec/spec.json", GATEWAY, { fetchImpl });
+    assert.equal(loaded.kind, "spec");
+    assert.deepEqual(urls, [`${GATEWAY}/ipfs/bafyspec/spec.json`]);
+  });
+
+  it("leaves http(s):// specs alone unless allowed", async () => {
+    const { urls, fetchImpl } = fakeFetch(() => new Response(SPEC));
+    assert.equal((await loadJobSpec("https://specs.example/1.json", GATEWAY, { fetchImpl })).kind, "invalid");
+    assert.deepEqual(urls, []);
+    const loaded = await loadJobSpec("https://specs.example/1.json", GATEWAY, { allowHttp: true, fetchImpl });
+    assert.equal(loaded.kind, "spec");
+  });
+
+  it("never fetches from private, loopback or link-local hosts", async () => {
+    const { urls, fetchImpl } = fakeFetch(() => new Response(SPEC));
+    const hosts = [
+      "http://localhost:4000/spec.json",
+      "http://127.0.0.1/spec.json",
+      "http://2130706433/spec.json",
+      "http://10.0.0.8/spec.json",
+      "http://172.20.1.1/spec.json",
+      "http://192.168.1.1/spec.json",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]/spec.json",
+      "http://[fe80::1]/spec.json",
+      "http://[::ffff:127.0.0.1]/spec.json",
+      "http://metadata.google.internal/spec.json",
+      "http://intranet/spec.json",
+    ];
+    for (const uri of hosts) {
+      const loaded = await loadJobSpec(uri, GATEWAY, { allowHttp: true, fetchImpl });
+      assert.equal(loaded.kind, "invalid", uri);
+    }
+    assert.deepEqual(urls, []);
+  });
+
+  it("refuses bodies over the size limit without reading them in full", async () => {
+    const { body, state } = endlessBody();
+    const { fetchImpl } = fakeFetch(() => new Response(body));
+    const loaded = await loadJobSpec("ipfs://bafyhuge", GATEWAY, { fetchImpl });
+    assert.equal(loaded.kind, "invalid");
+    assert.match(loaded.kind === "invalid" ? loaded.errors[0] : "", /larger than/);
+    assert.ok(state.cancelled);
+    assert.ok(state.sent <= MAX_SPEC_SIZE + 2 * 64 * 1024);
+  });
+
+  it("refuses bodies whose declared length is over the limit", async () => {
+    const { fetchImpl } = fakeFetch(
+      () => new Response(SPEC, { headers: { "content-length": String(MAX_SPEC_SIZE + 1) } }),
+    );
+    assert.equal((await loadJobSpec("ipfs://bafyhuge", GATEWAY, { fetchImpl })).kind, "invalid");
+  });
+});
@@ -0,0 +1,310 @@
+import { parseIpfsUri, resolveArtifactUri } from "./cid";
+import { decodeUtf8, parseDataUri } from "./mime";
+
+/** The job-spec version this build reads and writes */
+export const JOB_SPEC_VERSION = 1;
+
+/** Limits that keep a spec cheap to store in `description` and to show on a card */
+export const MAX_SPEC_TITLE_LENGTH = 120;
+export const MAX_SPEC_TAGS = 20;
+/** Largest spec `loadJobSpec` reads from a URI, in bytes */
+export const MAX_SPEC_SIZE = 256 * 1024;
+
+/** How long the server behind a spec URI gets to answer before the spec counts as unreadable */
+const SPEC_FETCH_TIMEOUT_MS = 30_000;
+
+/** A file the agent needs for the job */
+export type JobSpecAttachment = {
+  /** `ipfs://`, `http(s)://` or `data:` URI */
+  uri: string;
+  name?: string;
+  mimeType?: string;
+};
+
+/**
+ * A structured job description (version 1). Posted as the job's `description`, either as inline JSON or as a `data:`
+ * or `ipfs://` URI pointing at the JSON. Fields this version doesn't know are kept but ignored.
+ */
+export type JobSpec = {
+  specVersion: typeof JOB_SPEC_VERSION;
+  title: string;
+  /** Free-form details, markdown allowed */
+  description?: string;
+  category?: string;
+  /** Skills or topics, lowercase, for agents to match jobs on */
+  tags: string[];
+  attachments: JobSpecAttachment[];
+  /** What the poster will check before approving, one criterion each */
+  acceptanceCriteria: string[];
+  output?: {
+    /** MIME type of the submission, e.g. `image/svg+xml` */
+    mimeType?: string;
+    /** JSON Schema the submission must satisfy, for JSON output */
+    schema?: Record<string, unknown>;
+  };
+};
+
+/**
+ * What a job's `description` holds: a spec (inline, or a `data:` URI decoded in place), a URI to fetch one from
+ * (`loadJobSpec` does), a spec that failed validation, or legacy plain text.
+ */
+export type JobDescription =
+  | { kind: "spec"; spec: JobSpec }
+  | { kind: "remote"; uri: string }
+  | { kind: "invalid"; errors: string[] }
+  | { kind: "text"; text: string };
+
+/** The parts of a job every view shows, whether it has a spec or only text */
+export type JobSummary = { title: string; tags: string[]; category?: string; spec?: JobSpec };
+
+const MIME_TYPE = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*$/i;
+const SPEC_URI = /^(ipfs|https?):\/\//i;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Checks `value` against the spec format. Returns the spec with tags normalised (trimmed, lowercased, deduplicated)
+ * when valid, or every problem found.
+ */
+export function validateJobSpec(value: unknown): { spec?: JobSpec; errors: string[] } {
+  const errors: string[] = [];
+  if (!isObject(value)) return { errors: ["Spec must be a JSON object"] };
+
+  if (value.specVersion !== JOB_SPEC_VERSION) {
+    return { errors: [`Unsupported specVersion ${String(value.specVersion)}; this build reads ${JOB_SPEC_VERSION}`] };
+  }
+  if (typeof value.title !== "string" || !value.title.trim()) {
+    errors.push("title is required");
+  } else if (value.title.length > MAX_SPEC_TITLE_LENGTH) {
+    errors.push(`title is longer than ${MAX_SPEC_TITLE_LENGTH} characters`);
+  }
+  for (const field of ["description", "category"]) {
+    if (value[field] !== undefined && typeof value[field] !== "string") errors.push(`${field} must be a string`);
+  }
+
+  const strings = (field: string) => {
+    const list = value[field] ?? [];
+    if (!Array.isArray(list) || list.some(item => typeof item !== "string")) {
+      errors.push(`${field} must be an array of strings`);
+      return [];
+    }
+    return (list as string[]).map(item => item.trim()).filter(Boolean);
+  };
+  const tags = [...new Set(strings("tags").map(tag => tag.toLowerCase()))];
+  if (tags.length > MAX_SPEC_TAGS) errors.push(`at most ${MAX_SPEC_TAGS} tags`);
+  const acceptanceCriteria = strings("acceptanceCriteria");
+
+  const attachments = value.attachments ?? [];
+  if (!Array.isArray(attachments)) {
+    errors.push("attachments must be an array");
+  } else {
+    attachments.forEach((attachment, i) => {
+      if (!isObject(attachment) || typeof attachment.uri !== "string") {
+        errors.push(`attachments[${i}] needs a uri`);
+      } else if (!SPEC_URI.test(attachment.uri) && !attachment.uri.startsWith("data:")) {
+        errors.push(`attachments[${i}].uri must be an ipfs://, http(s):// or data: URI`);
+      } else if (attachment.mimeType !== undefined && !MIME_TYPE.test(String(attachment.mimeType))) {
+        errors.push(`attachments[${i}].mimeType is not a MIME type`);
+      }
+    });
+  }
+
+  if (value.output !== undefined) {
+    if (!isObject(value.output)) {
+      errors.push("output must be an object");
+    } else {
+      const { mimeType, schema } = value.output;
+      if (mimeType !== undefined && (typeof mimeType !== "string" || !MIME_TYPE.test(mimeType))) {
+        errors.push("output.mimeType is not a MIME type");
+      }
+      if (schema !== undefined && !isObject(schema)) errors.push("output.schema must be a JSON Schema object");
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    spec: {
+      ...(value as JobSpec),
+      title: (value.title as string).trim(),
+      tags,
+      acceptanceCriteria,
+      attachments: attachments as JobSpecAttachment[],
+    },
+    errors,
+  };
+}
+
+/** A description once any spec URI in it has been fetched */
+export type LoadedJobDescription = Exclude<JobDescription, { kind: "remote" }>;
+
+/** Parses JSON that claims to be a spec; anything else is legacy text */
+function parseSpecJson(json: string, fallback: string): LoadedJobDescription {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return { kind: "text", text: fallback };
+  }
+  if (!isObject(value) || !("specVersion" in value)) return { kind: "text", text: fallback };
+  const { spec, errors } = validateJobSpec(value);
+  return spec ? { kind: "spec", spec } : { kind: "invalid", errors };
+}
+
+/**
+ * Reads a job's `description`. JSON objects with a `specVersion` (inline, or as a `data:` URI) are specs; a lone
+ * `ipfs://` or `http(s)://` URI is a spec to fetch; everything else is a legacy plain-text description.
+ */
+export function parseJobDescription(description: string): JobDescription {
+  const trimmed = description.trim();
+  if (trimmed.startsWith("{")) return parseSpecJson(trimmed, description);
+  if (trimmed.startsWith("data:")) {
+    const data = parseDataUri(trimmed);
+    const json = data && decodeUtf8(data.bytes);
+    return json === undefined ? { kind: "text", text: description } : parseSpecJson(json, description);
+  }
+  if (SPEC_URI.test(trimmed) && !/\s/.test(trimmed)) return { kind: "remote", uri: trimmed };
+  return { kind: "text", text: description };
+}
+
+export type LoadJobSpecOptions = {
+  /**
+   * Also fetch specs posted as `http(s)://` URIs. Off by default: whoever posts a job picks the URL, so a server that
+   * follows it can be pointed anywhere. Even when on, hosts that are loopback, private or link-local addresses (or
+   * local names) are refused, and so are redirects. Names are judged as written, not as they resolve.
+   */
+  allowHttp?: boolean;
+  fetchImpl?: typeof fetch;
+};
+
+/**
+ * Reads a job's `description` like `parseJobDescription`, fetching specs posted as `ipfs://` URIs through `gateway`,
+ * and `http(s)://` ones with `allowHttp`. Bodies over `MAX_SPEC_SIZE` bytes are refused without being read in full.
+ * A URI that isn't fetched or doesn't serve a spec comes back as `invalid`.
+ */
+export async function loadJobSpec(
+  description: string,
+  gateway: string,
+  { allowHttp = false, fetchImpl = fetch }: LoadJobSpecOptions = {},
+): Promise<LoadedJobDescription> {
+  const parsed = parseJobDescription(description);
+  if (parsed.kind !== "remote") return parsed;
+  const isIpfs = parseIpfsUri(parsed.uri) !== undefined;
+  if (!isIpfs) {
+    if (!allowHttp) return { kind: "invalid", errors: ["Specs posted as http(s):// URIs aren't fetched here"] };
+    let host: string;
+    try {
+      host = new URL(parsed.uri).hostname;
+    } catch {
+      return { kind: "invalid", errors: [`Malformed spec URI: ${parsed.uri}`] };
+    }
+    if (isPrivateHost(host)) return { kind: "invalid", errors: [`Specs aren't fetched from private hosts (${host})`] };
+  }
+  try {
+    const response = await fetchImpl(resolveArtifactUri(parsed.uri, gateway), {
+      signal: AbortSignal.timeout(SPEC_FETCH_TIMEOUT_MS),
+      // The gateway is trusted to redirect; a poster's server could redirect to a private host
+      redirect: isIpfs ? "follow" : "error",
+    });
+    if (!response.ok) return { kind: "invalid", errors: [`Fetching the spec failed: HTTP ${response.status}`] };
+    const loaded = parseSpecJson(await readSpecBody(response), "");
+    return loaded.kind === "text" ? { kind: "invalid", errors: [`${parsed.uri} doesn't hold a job spec`] } : loaded;
+  } catch (e) {
+    return { kind: "invalid", errors: [`Fetching the spec failed: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+}
+
+/** The body as text, or an error as soon as it passes `MAX_SPEC_SIZE` bytes */
+async function readSpecBody(response: Response): Promise<string> {
+  const tooLarge = `the spec is larger than the ${MAX_SPEC_SIZE}-byte limit`;
+  if (Number(response.headers.get("content-length") ?? 0) > MAX_SPEC_SIZE) throw new Error(tooLarge);
+  if (!response.body) return response.text();
+  const bytes = new Uint8Array(MAX_SPEC_SIZE);
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (size + value.length > MAX_SPEC_SIZE) {
+      await reader.cancel();
+      throw new Error(tooLarge);
+    }
+    bytes.set(value, size);
+    size += value.length;
+  }
+  return new TextDecoder().decode(bytes.subarray(0, size));
+}
+
+/**
+ * Whether `hostname` (as `URL` normalises it) names this machine or a private network: local names and single-label
+ * names, loopback, private, shared, link-local, unspecified and multicast IPv4, and any IPv6 address outside global
+ * unicast (2000::/3).
+ */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, "")
+    .replace(/\.$/, "");
+  if (host.includes(":")) return !/^[23][0-9a-f]{0,3}:/.test(host);
+  const ipv4 = /^(\d+)\.(\d+)\.\d+\.\d+$/.exec(host);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168)
+    );
+  }
+  return !host.includes(".") || /\.(localhost|local|internal|home\.arpa)$/.test(host);
+}
+
+/** A spec as a `description` for `postJob`: compact inline JSON, or a base64 `data:` URI */
+export function encodeJobSpec(spec: JobSpec, format: "inline" | "data" = "inline"): string {
+  const json = JSON.stringify(spec);
+  if (format === "inline") return json;
+  const binary = Array.from(new TextEncoder().encode(json), byte => String.fromCharCode(byte)).join("");
+  return `data:application/json;base64,${btoa(binary)}`;
+}
+
+/**
+ * The title, tags and category of a parsed description. Legacy text is titled by its first line; specs that are
+ * invalid or not fetched yet get a placeholder title.
+ */
+export function summarizeJob(description: JobDescription): JobSummary {
+  switch (description.kind) {
+    case "spec":
+      return {
+        title: description.spec.title,
+        tags: description.spec.tags,
+        category: description.spec.category,
+        spec: description.spec,
+      };
+    case "remote":
+      return { title: parseIpfsUri(description.uri) ? "Job spec on IPFS" : "Job spec", tags: [] };
+    case "invalid":
+      return { title: "Invalid job spec", tags: [] };
+    default: {
+      const firstLine = description.text.trim().split("\n")[0];
+      return {
+        title:
+          firstLine.length > MAX_SPEC_TITLE_LENGTH ? `${firstLine.slice(0, MAX_SPEC_TITLE_LENGTH - 1)}…` : firstLine,
+        tags: [],
+      };
+    }
+  }
+}
+
+/**
+ * Every word an agent might match a job on: the spec's title, category, tags and details, or the legacy text. A spec
+ * posted as a URI matches on its words only once fetched: pass what `loadJobSpec` returned for it as `loaded`.
+ */
+export function jobMatchText(description: string, loaded: JobDescription = parseJobDescription(description)): string {
+  if (loaded.kind !== "spec") return description;
+  const { title, category, tags, description: details } = loaded.spec;
+  return [title, category, ...tags, details].filter(Boolean).join(" ");
+}
@@ -0,0 +1,334 @@
+import { bountyBoardAbi } from "./abi";
+import type { BountyBoardWalletClient, WriteResult } from "./client";
+import { type Abi, type Address, type Hash, type Hex, type PublicClient, decodeErrorResult } from "viem";
+
+const DEFAULT_SPEED_UP_AFTER_MS = 30_000;
+const DEFAULT_FEE_BUMP_PERCENT = 20n;
+const DEFAULT_MAX_SPEED_UPS = 5;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BACKOFF_MS = 1_000;
+const REPLACED_AFTER_POLLS = 3;
+
+export type TransactionManagerConfig = {
+  publicClient: PublicClient;
+  walletClient: BountyBoardWalletClient;
+  /** Resend a transaction with higher fees when it is not mined within this long. Defaults to 30 seconds. */
+  speedUpAfterMs?: number;
+  /** How much each speed-up raises both EIP-1559 fees by. Nodes only replace for 10% or more. Defaults to 20. */
+  feeBumpPercent?: bigint;
+  /** Speed-ups per transaction before it is left to be mined at the last fees. Defaults to 5. */
+  maxSpeedUps?: number;
+  /** Tries per write when it fails with a retryable error (see `TransactionError.retryable`). Defaults to 3. */
+  maxAttempts?: number;
+  /** Used to decode custom errors. Defaults to the AgentBountyBoard ABI. */
+  errorAbi?: Abi;
+  onSpeedUp?: (speedUp: SpeedUp) => void;
+};
+
+export type TransactionRequest = {
+  to: Address;
+  data: Hex;
+  /** Names the write in error messages, e.g. the contract function */
+  label?: string;
+  /**
+   * Called with each transaction sent for the write, before it is mined: the first one, then every speed-up. Lets a
+   * caller record the hash somewhere that outlives the process.
+   */
+  onSent?: (hash: Hash) => void;
+};
+
+export type SpeedUp = {
+  label: string;
+  nonce: number;
+  /** The replacement transaction */
+  hash: Hash;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+};
+
+/**
+ * - `contract`: the contract rejected the call; `errorName` says why. Sending it again gives the same answer.
+ * - `replaced`: another transaction from the account took the nonce.
+ * - `nonce`: the node disagreed with the local nonce, which is re-read from the chain.
+ * - `network`: the RPC could not be reached or timed out.
+ * - `funds`: the account cannot pay for gas.
+ * - `rejected`: the wallet refused to sign.
+ * - `unknown`: anything else.
+ */
+export type TransactionErrorKind = "contract" | "replaced" | "nonce" | "network" | "funds" | "rejected" | "unknown";
+
+/**
+ * A write that failed, classified so callers can tell a lost race (`errorName === "JobNotOpen"`) from a flaky RPC.
+ */
+export class TransactionError extends Error {
+  constructor(
+    message: string,
+    readonly kind: TransactionErrorKind,
+    readonly errorName?: string,
+    readonly errorArgs?: readonly unknown[],
+    options?: { cause?: unknown },
+  ) {
+    super(message, options);
+    this.name = "TransactionError";
+  }
+
+  /** Whether sending the write again could succeed */
+  get retryable(): boolean {
+    return this.kind === "replaced" || this.kind === "nonce" || this.kind === "network";
+  }
+}
+
+type Fees = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+
+type Pending = {
+  request: TransactionRequest;
+  gas: bigint;
+  nonce: number;
+  fees: Fees;
+  /** Every transaction sent with this nonce, latest last */
+  hashes: Hash[];
+};
+
+/**
+ * Sends transactions from one account, several at a time.
+ *
+ * Nonces are assigned locally, so writes do not wait for each other to be mined; only the broadcasts are serialized,
+ * so a write that fails before it reaches the node never leaves a gap. Each write is simulated first, so a revert
+ * surfaces before any gas is spent. A transaction not mined within `speedUpAfterMs` is resent with the same nonce and
+ * higher EIP-1559 fees, which also revives one the node dropped. Failures are classified as `TransactionError`s and
+ * retryable ones are retried with a fresh nonce.
+ */
+export class TransactionManager {
+  private readonly publicClient: PublicClient;
+  private readonly walletClient: BountyBoardWalletClient;
+  private readonly speedUpAfterMs: number;
+  private readonly feeBumpPercent: bigint;
+  private readonly maxSpeedUps: number;
+  private readonly maxAttempts: number;
+  private readonly errorAbi: Abi;
+  private readonly onSpeedUp?: (speedUp: SpeedUp) => void;
+
+  /** Next nonce to use; read from the chain's pending count when unset */
+  private nonce?: number;
+  /** Broadcasts, chained so that each one takes the next nonce */
+  private broadcasts: Promise<unknown> = Promise.resolve();
+
+  constructor(config: TransactionManagerConfig) {
+    this.publicClient = config.publicClient;
+    this.walletClient = config.walletClient;
+    this.speedUpAfterMs = config.speedUpAfterMs ?? DEFAULT_SPEED_UP_AFTER_MS;
+    this.feeBumpPercent = config.feeBumpPercent ?? DEFAULT_FEE_BUMP_PERCENT;
+    this.maxSpeedUps = config.maxSpeedUps ?? DEFAULT_MAX_SPEED_UPS;
+    this.maxAttempts = config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.errorAbi = config.errorAbi ?? (bountyBoardAbi as Abi);
+    this.onSpeedUp = config.onSpeedUp;
+  }
+
+  get address(): Address {
+    return this.walletClient.account.address;
+  }
+
+  /**
+   * Sends `request` and resolves once it is mined. Rejects with a `TransactionError` if it reverts, or if it still
+   * fails after `maxAttempts` tries.
+   */
+  async send(request: TransactionRequest): Promise<WriteResult> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.sendOnce(request);
+      } catch (e) {
+        const error = this.classify(e, request);
+        if (!error.retryable || attempt >= this.maxAttempts) throw error;
+        await sleep(RETRY_BACKOFF_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  /**
+   * Classifies an error thrown by viem while sending `request`, decoding the contract's custom error if there is one.
+   */
+  classify(e: unknown, request?: TransactionRequest): TransactionError {
+    if (e instanceof TransactionError) return e;
+    const label = request?.label ?? "transaction";
+
+    const revert = decodeRevert(e, this.errorAbi);
+    if (revert) {
+      return new TransactionError(`${label} reverted: ${revert.errorName}`, "contract", revert.errorName, revert.args, {
+        cause: e,
+      });
+    }
+
+    const message = (e as { shortMessage?: string }).shortMessage ?? (e as Error).message;
+    const kind = errorKind(e);
+    return new TransactionError(`${label} failed: ${message}`, kind, undefined, undefined, { cause: e });
+  }
+
+  private async sendOnce(request: TransactionRequest): Promise<WriteResult> {
+    const { to, data } = request;
+    const account = this.walletClient.account;
+    // Surfaces reverts with their revert data; estimateGas alone loses it on some nodes
+    await this.publicClient.call({ account, to, data });
+    const [gas, fees] = await Promise.all([
+      this.publicClient.estimateGas({ account, to, data }),
+      this.publicClient.estimateFeesPerGas(),
+    ]);
+
+    const pending = await this.broadcast(request, gas, fees);
+    request.onSent?.(pending.hashes[0]);
+    const receipt = await this.waitForMined(pending);
+    const hash = receipt.transactionHash;
+    if (receipt.status === "reverted") {
+      // Replaying the call at the end of its block recovers the custom error, e.g. JobNotOpen after a competitor's
+      // claim earlier in the same block
+      try {
+        await this.publicClient.call({ account, to, data, blockNumber: receipt.blockNumber });
+      } catch (e) {
+        throw this.classify(e, request);
+      }
+      throw new TransactionError(`${request.label ?? "transaction"} ${hash} reverted`, "contract");
+    }
+    return { hash, receipt };
+  }
+
+  /** Sends the first transaction of a write with the next local nonce */
+  private broadcast(request: TransactionRequest, gas: bigint, fees: Fees): Promise<Pending> {
+    const result = this.broadcasts.then(async () => {
+      this.nonce ??= await this.publicClient.getTransactionCount({ address: this.address, blockTag: "pending" });
+      const nonce = this.nonce;
+      try {
+        const hash = await this.sendTransaction(request, gas, nonce, fees);
+        this.nonce = nonce + 1;
+        return { request, gas, nonce, fees, hashes: [hash] };
+      } catch (e) {
+        // The node knows better; the next write starts from its count
+        if (errorKind(e) === "nonce") this.nonce = undefined;
+        throw e;
+      }
+    });
+    this.broadcasts = result.catch(() => undefined);
+    return result;
+  }
+
+  private async waitForMined(pending: Pending) {
+    const { nonce, hashes } = pending;
+    let speedUps = 0;
+    let lastSentAt = Date.now();
+    // Polls in a row that saw the nonce used without a receipt; a lagging RPC node can show that for a moment
+    let missingReceipts = 0;
+
+    for (; ; await sleep(this.publicClient.pollingInterval)) {
+      try {
+        // Read before the receipts, so that a count past our nonce with no receipt means another transaction took it
+        const mined = await this.publicClient.getTransactionCount({ address: this.address, blockTag: "latest" });
+        for (const hash of [...hashes].reverse()) {
+          try {
+            return await this.publicClient.getTransactionReceipt({ hash });
+          } catch (e) {
+            if (!findCause(e, "TransactionReceiptNotFoundError")) throw e;
+          }
+        }
+        if (mined > nonce && ++missingReceipts >= REPLACED_AFTER_POLLS) {
+          throw new TransactionError(
+            `${pending.request.label ?? "transaction"} was replaced by another transaction with nonce ${nonce}`,
+            "replaced",
+          );
+        }
+      } catch (e) {
+        // Giving up on a sent transaction over a network error could send the write twice, so keep waiting
+        if (errorKind(e) !== "network") throw e;
+      }
+
+      if (speedUps < this.maxSpeedUps && Date.now() - lastSentAt >= this.speedUpAfterMs) {
+        speedUps++;
+        lastSentAt = Date.now();
+        await this.speedUp(pending);
+      }
+    }
+  }
+
+  /** Resends a pending transaction with the same nonce and higher fees */
+  private async speedUp(pending: Pending) {
+    try {
+      const current = await this.publicClient.estimateFeesPerGas();
+      const bump = (fee: bigint) => (fee * (100n + this.feeBumpPercent) + 99n) / 100n;
+      const maxPriorityFeePerGas = max(bump(pending.fees.maxPriorityFeePerGas), current.maxPriorityFeePerGas);
+      const fees = {
+        maxPriorityFeePerGas,
+        maxFeePerGas: max(bump(pending.fees.maxFeePerGas), current.maxFeePerGas, maxPriorityFeePerGas),
+      };
+      const hash = await this.sendTransaction(pending.request, pending.gas, pending.nonce, fees);
+      pending.hashes.push(hash);
+      pending.fees = fees;
+      pending.request.onSent?.(hash);
+      this.onSpeedUp?.({ label: pending.request.label ?? "transaction", nonce: pending.nonce, hash, ...fees });
+    } catch {
+      // The transactions already sent are still pending, or one was mined meanwhile (nonce too low); either way the
+      // next poll finds out, and the next speed-up tries again
+    }
+  }
+
+  private sendTransaction(request: TransactionRequest, gas: bigint, nonce: number, fees: Fees): Promise<Hash> {
+    return this.walletClient.sendTransaction({
+      account: this.walletClient.account,
+      chain: this.walletClient.chain,
+      to: request.to,
+      data: request.data,
+      gas,
+      nonce,
+      ...fees,
+    });
+  }
+}
+
+/**
+ * Decodes the custom error in a failed call or transaction, or returns undefined if it did not revert with one that
+ * `abi` declares.
+ */
+export function decodeRevert(
+  e: unknown,
+  abi: Abi = bountyBoardAbi as Abi,
+): { errorName: string; args: readonly unknown[] } | undefined {
+  const data = revertData(findCause(e, cause => revertData(cause) !== undefined));
+  if (!data) return undefined;
+  try {
+    const { errorName, args } = decodeErrorResult({ abi, data });
+    return { errorName, args: args ?? [] };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Revert data as viem's errors carry it: a hex string, or nested one level in `{ data }` */
+function revertData(e: unknown): Hex | undefined {
+  const data = (e as { data?: unknown } | undefined)?.data;
+  const hex = typeof data === "object" && data !== null ? (data as { data?: unknown }).data : data;
+  return typeof hex === "string" && hex.startsWith("0x") && hex.length >= 10 ? (hex as Hex) : undefined;
+}
+
+function errorKind(e: unknown): TransactionErrorKind {
+  const is = (...names: string[]) => names.some(name => findCause(e, name));
+  if (is("NonceTooLowError", "NonceTooHighError")) return "nonce";
+  if (is("InsufficientFundsError")) return "funds";
+  if (is("UserRejectedRequestError")) return "rejected";
+  if (is("HttpRequestError", "WebSocketRequestError", "TimeoutError")) return "network";
+  return "unknown";
+}
+
+/**
+ * Finds the first error in `e`'s cause chain with the given name, or matching the predicate. viem's error classes are
+ * matched by name rather than `instanceof`, as the caller's clients may come from another copy of viem.
+ */
+function findCause(e: unknown, match: string | ((cause: unknown) => boolean)): unknown {
+  for (let cause = e; cause; cause = (cause as { cause?: unknown }).cause) {
+    if (typeof match === "string" ? (cause as Error).name === match : match(cause)) return cause;
+  }
+  return undefined;
+}
+
+function max(...values: bigint[]): bigint {
+  return values.reduce((a, b) => (a > b ? a : b));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
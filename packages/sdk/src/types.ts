@@ -0,0 +1,62 @@
+import type { Address } from "viem";
+
+/**
+ * Mirrors `AgentBountyBoard.JobStatus`. The numeric values are the on-chain enum values.
+ */
+export enum JobStatus {
+  Open = 0,
+  Claimed = 1,
+  Submitted = 2,
+  Completed = 3,
+  Disputed = 4,
+  Expired = 5,
+  Cancelled = 6,
+}
+
+/**
+ * A job as stored by the contract, merged from the `getJobCore` and `getJobAgent` views.
+ * Claim fields (`agent`, `agentId`, `claimedAt`, `paidAmount`) are zero until the job is claimed.
+ */
+export type Job = {
+  id: bigint;
+  poster: Address;
+  description: string;
+  minPrice: bigint;
+  maxPrice: bigint;
+  auctionStart: bigint;
+  auctionDuration: bigint;
+  workDeadline: bigint;
+  status: JobStatus;
+  agent: Address;
+  agentId: bigint;
+  claimedAt: bigint;
+  submissionURI: string;
+  paidAmount: bigint;
+  rating: number;
+};
+
+export type AgentStats = {
+  completedJobs: bigint;
+  disputedJobs: bigint;
+  totalEarned: bigint;
+  avgRating: bigint;
+  seniorityDays: bigint;
+};
+
+export type PlatformStats = {
+  jobsPosted: bigint;
+  jobsCompleted: bigint;
+  totalPaid: bigint;
+  disputes: bigint;
+  feeBalance: bigint;
+};
+
+export type PostJobParams = {
+  description: string;
+  minPrice: bigint;
+  maxPrice: bigint;
+  /** Seconds for the price to ramp from minPrice to maxPrice */
+  auctionDuration: bigint;
+  /** Seconds the agent has to submit after claiming */
+  workDeadline: bigint;
+};